@@ -0,0 +1,73 @@
+import { ShieldQuestion } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AiAccessPolicy } from "@shared/schema";
+
+interface AiAccessPolicyPanelProps {
+  policy: AiAccessPolicy;
+}
+
+const stanceLabels: Record<AiAccessPolicy['training'], string> = {
+  allow: 'Allowed',
+  restrict: 'Blocked',
+  partial: 'Partly allowed',
+  unset: 'Not stated',
+  mixed: 'Mixed signals',
+};
+
+const stanceVariants: Record<AiAccessPolicy['training'], "default" | "secondary" | "destructive" | "outline"> = {
+  allow: 'default',
+  restrict: 'destructive',
+  partial: 'secondary',
+  unset: 'outline',
+  mixed: 'destructive',
+};
+
+const scopeLabels = {
+  training: 'Training',
+  answers: 'AI answers',
+};
+
+export default function AiAccessPolicyPanel({ policy }: AiAccessPolicyPanelProps) {
+  return (
+    <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+      <h4 className="font-medium text-slate-900 mb-2 flex items-center">
+        <ShieldQuestion className="h-4 w-4 text-primary mr-2" />
+        AI Access Policy
+      </h4>
+      <div className="flex flex-wrap gap-4 mb-3 text-sm text-slate-700">
+        <div className="flex items-center gap-2">
+          Model training <Badge variant={stanceVariants[policy.training]}>{stanceLabels[policy.training]}</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          AI search and assistants <Badge variant={stanceVariants[policy.answers]}>{stanceLabels[policy.answers]}</Badge>
+        </div>
+      </div>
+      {policy.conflicts.length > 0 && (
+        <ul className="mb-3 space-y-1 text-sm text-amber-800 list-disc pl-5">
+          {policy.conflicts.map((conflict, index) => <li key={index}>{conflict}</li>)}
+        </ul>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Signal</TableHead>
+            <TableHead>Applies to</TableHead>
+            <TableHead>Says</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {policy.signals.map((signal, index) => (
+            <TableRow key={index}>
+              <TableCell className="font-mono text-xs">{signal.source}</TableCell>
+              <TableCell className="text-sm">{scopeLabels[signal.scope]}</TableCell>
+              <TableCell><Badge variant={stanceVariants[signal.stance]}>{stanceLabels[signal.stance]}</Badge></TableCell>
+              <TableCell className={`text-sm ${signal.stance === 'unset' ? 'text-slate-400' : 'text-slate-700'}`}>{signal.detail}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { ImageIcon } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AltTextIssue, AltTextReport } from "@shared/schema";
+
+interface AltTextReviewProps {
+  report: AltTextReport;
+}
+
+const issueLabels: Record<AltTextIssue, string> = {
+  missing: 'Missing',
+  filename: 'File name',
+  generic: 'Generic',
+  redundant_prefix: '"Image of"',
+  duplicate: 'Duplicated',
+  too_long: 'Too long',
+  stuffed: 'Keyword stuffed',
+};
+
+// File name only; full URLs make the table unreadable
+const getFileName = (src: string) => src.split(/[?#]/)[0].split('/').pop() || src;
+
+export default function AltTextReview({ report }: AltTextReviewProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ImageIcon className="h-5 w-5 text-primary mr-2" />
+          Image Alt Text ({report.flaggedCount} of {report.contentImages} need work)
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          {report.decorativeImages} decorative {report.decorativeImages === 1 ? 'image is' : 'images are'} skipped. Suggestions come from captions, titles, file names and nearby headings; check them before using.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Image</TableHead>
+              <TableHead>Current alt</TableHead>
+              <TableHead>Issues</TableHead>
+              <TableHead>Suggestion</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.flaggedImages.map((image, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-mono text-xs max-w-[12rem] truncate" title={image.src}>{getFileName(image.src)}</TableCell>
+                <TableCell className="text-sm max-w-[16rem]">
+                  {image.alt ? `"${image.alt}"` : <span className="text-slate-400">none</span>}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {image.issues.map(issue => (
+                      <Badge key={issue} variant={issue === 'missing' ? 'destructive' : 'secondary'}>{issueLabels[issue]}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-slate-700">
+                  {image.suggestion || <span className="text-slate-400">Describe what the image shows</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {report.flaggedCount > report.flaggedImages.length && (
+          <p className="text-xs text-slate-500 mt-3">Showing the first {report.flaggedImages.length} of {report.flaggedCount} images.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,14 @@
-import { Search, Bot, Lightbulb, FileText, Download, Save } from "lucide-react";
+import { Search, Bot, Gauge, Smartphone, Accessibility, ShieldCheck, Lightbulb, FileText, Download, Save, KeyRound, SlidersHorizontal, Target } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import ScoreCard from "./score-card";
 import AuditSection from "./audit-section";
+import AltTextReview from "./alt-text-review";
+import AiAccessPolicyPanel from "./ai-access-policy";
+import GeoFactorList from "./geo-factor-list";
+import GeoRecommendations from "./geo-recommendations";
+import PlatformVisibilityPanel from "./platform-visibility";
 import { useToast } from "@/hooks/use-toast";
 import type { AuditReport } from "@shared/schema";
 
@@ -11,6 +16,13 @@ interface AuditResultsProps {
   report: AuditReport;
 }
 
+// Tailwind needs complete class names, so the column count is looked up rather than interpolated
+const scoreGridColumns: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
 export default function AuditResults({ report }: AuditResultsProps) {
   const { toast } = useToast();
 
@@ -35,35 +47,58 @@ export default function AuditResults({ report }: AuditResultsProps) {
     });
   };
 
-  const getVisibilityColor = (level: string) => {
-    switch (level) {
-      case 'high':
-        return 'text-success';
-      case 'medium':
-        return 'text-warning';
-      case 'low':
-        return 'text-error';
-      default:
-        return 'text-slate-500';
-    }
-  };
+  // SEO and AI scores are always shown; the others only when their audit ran
+  const scoreCount = 2 + (report.performanceScore !== null ? 1 : 0) + (report.accessibilityScore !== null ? 1 : 0);
 
   return (
     <div className="space-y-8" id="results-container">
+      {report.fetchProfile && (
+        <div className="flex items-center text-sm text-slate-600">
+          <KeyRound className="h-4 w-4 mr-2 text-primary" />
+          Fetched with profile <span className="font-medium text-slate-900 mx-1">{report.fetchProfile.name}</span>
+          {report.fetchProfile.userAgent && <span className="font-mono text-xs truncate">({report.fetchProfile.userAgent})</span>}
+        </div>
+      )}
+
+      {report.scoringProfile && report.scoringProfile.id !== 'general' && (
+        <div className="flex items-center text-sm text-slate-600">
+          <SlidersHorizontal className="h-4 w-4 mr-2 text-primary" />
+          Scored with the <span className="font-medium text-slate-900 mx-1">{report.scoringProfile.name}</span> profile
+        </div>
+      )}
+
       {/* Score Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className={`grid grid-cols-1 gap-6 ${scoreGridColumns[scoreCount]}`}>
         <ScoreCard
           title="Traditional SEO Score"
           score={report.seoScore}
           icon={<Search className="h-5 w-5 text-primary" />}
           type="seo"
+          breakdown={report.seoScoreBreakdown}
         />
+        {report.performanceScore !== null && (
+          <ScoreCard
+            title="Performance Estimate"
+            score={report.performanceScore}
+            icon={<Gauge className="h-5 w-5 text-primary" />}
+            type="performance"
+          />
+        )}
         <ScoreCard
           title="AI Visibility Score"
           score={report.aiScore}
           icon={<Bot className="h-5 w-5 text-primary" />}
           type="ai"
+          breakdown={report.aiScoreBreakdown}
         />
+        {report.accessibilityScore !== null && (
+          <ScoreCard
+            title="Accessibility Score"
+            score={report.accessibilityScore}
+            icon={<Accessibility className="h-5 w-5 text-primary" />}
+            type="accessibility"
+          />
+        )}
       </div>
 
       {/* Traditional SEO Audit */}
@@ -73,44 +108,69 @@ export default function AuditResults({ report }: AuditResultsProps) {
         results={report.traditionalSeoResults}
       />
 
+      {/* Alt text suggestions per image */}
+      {report.altText && report.altText.flaggedCount > 0 && <AltTextReview report={report.altText} />}
+
+      {/* Mobile-friendliness */}
+      {report.mobileResults && (
+        <AuditSection
+          title="Mobile-Friendliness"
+          icon={<Smartphone className="h-6 w-6 text-primary" />}
+          results={report.mobileResults}
+        />
+      )}
+
+      {/* Security & Trust */}
+      {report.securityResults && (
+        <AuditSection
+          title="Security & Trust"
+          icon={<ShieldCheck className="h-6 w-6 text-primary" />}
+          results={report.securityResults}
+        />
+      )}
+
+      {/* Accessibility Audit */}
+      {report.accessibilityResults && (
+        <AuditSection
+          title="Accessibility Issues & Fixes"
+          icon={<Accessibility className="h-6 w-6 text-primary" />}
+          results={report.accessibilityResults}
+        />
+      )}
+
+      {/* Performance estimate from markup, server timing and measured asset sizes */}
+      {report.performanceResults && (
+        <AuditSection
+          title="Performance (Lab-Free Estimate)"
+          icon={<Gauge className="h-6 w-6 text-primary" />}
+          results={report.performanceResults}
+        />
+      )}
+
       {/* GEO Analysis */}
       <AuditSection
         title="GEO (AI Optimization) Analysis"
         icon={<Bot className="h-6 w-6 text-primary" />}
         results={report.geoResults}
       >
-        <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <h4 className="font-medium text-slate-900 mb-2 flex items-center">
-            <Lightbulb className="h-4 w-4 text-primary mr-2" />
-            AI Platform Visibility Assessment
-          </h4>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
-            <div>
-              <div className={`text-lg font-semibold ${getVisibilityColor(report.contentSuggestions.aiVisibility.chatgpt)}`}>
-                {report.contentSuggestions.aiVisibility.chatgpt.charAt(0).toUpperCase() + report.contentSuggestions.aiVisibility.chatgpt.slice(1)}
+        {report.geoAnalysis && (
+          <div className="mt-6">
+            <h4 className="font-medium text-slate-900 mb-2 flex items-center">
+              <Target className="h-4 w-4 text-primary mr-2" />
+              GEO Factors
+            </h4>
+            <p className="text-sm text-slate-600 mb-4">{report.geoAnalysis.summary}</p>
+            <GeoFactorList factors={report.geoAnalysis.factors} className="grid grid-cols-1 md:grid-cols-2 gap-3 space-y-0" />
+            {report.geoAnalysis.recommendations.length > 0 && (
+              <div className="mt-6">
+                <h4 className="font-medium text-slate-900 mb-3">What to fix first</h4>
+                <GeoRecommendations recommendations={report.geoAnalysis.recommendations.slice(0, 4)} />
               </div>
-              <div className="text-xs text-slate-600">ChatGPT</div>
-            </div>
-            <div>
-              <div className={`text-lg font-semibold ${getVisibilityColor(report.contentSuggestions.aiVisibility.perplexity)}`}>
-                {report.contentSuggestions.aiVisibility.perplexity.charAt(0).toUpperCase() + report.contentSuggestions.aiVisibility.perplexity.slice(1)}
-              </div>
-              <div className="text-xs text-slate-600">Perplexity</div>
-            </div>
-            <div>
-              <div className={`text-lg font-semibold ${getVisibilityColor(report.contentSuggestions.aiVisibility.claude)}`}>
-                {report.contentSuggestions.aiVisibility.claude.charAt(0).toUpperCase() + report.contentSuggestions.aiVisibility.claude.slice(1)}
-              </div>
-              <div className="text-xs text-slate-600">Claude</div>
-            </div>
-            <div>
-              <div className={`text-lg font-semibold ${getVisibilityColor(report.contentSuggestions.aiVisibility.bard)}`}>
-                {report.contentSuggestions.aiVisibility.bard.charAt(0).toUpperCase() + report.contentSuggestions.aiVisibility.bard.slice(1)}
-              </div>
-              <div className="text-xs text-slate-600">Bard</div>
-            </div>
+            )}
           </div>
-        </div>
+        )}
+        {report.aiAccessPolicy && <AiAccessPolicyPanel policy={report.aiAccessPolicy} />}
+        {report.geoAnalysis && <PlatformVisibilityPanel platforms={report.geoAnalysis.platforms} />}
       </AuditSection>
 
       {/* AI-Powered Content Suggestions */}
@@ -132,6 +192,9 @@ export default function AuditResults({ report }: AuditResultsProps) {
                   {keyword}
                 </span>
               ))}
+              {report.contentSuggestions.missingKeywords.length === 0 && (
+                <span className="text-sm text-slate-600">The main topics of the page already appear in its title, description and H1.</span>
+              )}
             </div>
           </div>
 
@@ -1,17 +1,25 @@
 import { TrendingUp, TrendingDown, ArrowRight, CheckCircle, AlertTriangle, Target, Bot } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
-import ScoreCard from "./score-card";
-import type { ComparisonResult } from "@shared/schema";
+import ScoreBreakdownPanel from "./score-breakdown";
+import GeoFactorList from "./geo-factor-list";
+import GeoRecommendations from "./geo-recommendations";
+import type { AuditReport, ComparisonResult } from "@shared/schema";
 
 interface ComparisonResultsProps {
   result: ComparisonResult;
 }
 
 export default function ComparisonResults({ result }: ComparisonResultsProps) {
-  const { url1Report, url2Report, url1AiVisibility, url2AiVisibility, differences } = result;
+  const { url1Report, url2Report, differences } = result;
   
+  // The same URL may be compared under two fetch profiles, so the profile is part of the label
+  const getLabel = (report: AuditReport) =>
+    report.fetchProfile ? `${new URL(report.url).hostname} (${report.fetchProfile.name})` : new URL(report.url).hostname;
+  const label1 = getLabel(url1Report);
+  const label2 = getLabel(url2Report);
+  const sides = [{ label: label1, report: url1Report }, { label: label2, report: url2Report }];
+
   const getScoreDifferenceIcon = (diff: number) => {
     if (diff > 0) return <TrendingUp className="h-4 w-4 text-green-600" />;
     if (diff < 0) return <TrendingDown className="h-4 w-4 text-red-600" />;
@@ -25,9 +33,8 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
   };
 
   const getDifferenceDescription = () => {
-    const betterUrl = differences.betterPerformer === 'url1' ? url1Report.url : url2Report.url;
-    const domain = new URL(betterUrl).hostname;
-    return `${domain} performs better overall`;
+    const better = differences.betterPerformer === 'url1' ? label1 : label2;
+    return `${better} performs better overall`;
   };
 
   return (
@@ -46,9 +53,9 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
               {getDifferenceDescription()}
             </p>
             <div className="flex items-center justify-center space-x-4 text-sm text-slate-600">
-              <span>{new URL(url1Report.url).hostname}</span>
+              <span>{label1}</span>
               <ArrowRight className="h-4 w-4" />
-              <span>{new URL(url2Report.url).hostname}</span>
+              <span>{label2}</span>
             </div>
           </div>
           
@@ -57,25 +64,25 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
             <div className="text-center p-4 bg-slate-50 rounded-lg">
               <div className="text-2xl font-bold text-slate-900">{url1Report.seoScore}</div>
               <div className="text-sm text-slate-600">SEO Score</div>
-              <div className="text-xs text-slate-500 mt-1">{new URL(url1Report.url).hostname}</div>
+              <div className="text-xs text-slate-500 mt-1">{label1}</div>
             </div>
             
             <div className="text-center p-4 bg-slate-50 rounded-lg">
               <div className="text-2xl font-bold text-slate-900">{url2Report.seoScore}</div>
               <div className="text-sm text-slate-600">SEO Score</div>
-              <div className="text-xs text-slate-500 mt-1">{new URL(url2Report.url).hostname}</div>
+              <div className="text-xs text-slate-500 mt-1">{label2}</div>
             </div>
             
             <div className="text-center p-4 bg-blue-50 rounded-lg">
               <div className="text-2xl font-bold text-blue-900">{url1Report.aiScore}</div>
               <div className="text-sm text-blue-600">AI Score</div>
-              <div className="text-xs text-slate-500 mt-1">{new URL(url1Report.url).hostname}</div>
+              <div className="text-xs text-slate-500 mt-1">{label1}</div>
             </div>
             
             <div className="text-center p-4 bg-blue-50 rounded-lg">
               <div className="text-2xl font-bold text-blue-900">{url2Report.aiScore}</div>
               <div className="text-sm text-blue-600">AI Score</div>
-              <div className="text-xs text-slate-500 mt-1">{new URL(url2Report.url).hostname}</div>
+              <div className="text-xs text-slate-500 mt-1">{label2}</div>
             </div>
           </div>
 
@@ -100,16 +107,6 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
                 </span>
               </div>
             </div>
-
-            <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
-              <span className="font-medium">AI Platform Visibility Difference</span>
-              <div className="flex items-center space-x-2">
-                {getScoreDifferenceIcon(differences.aiVisibilityDiff)}
-                <span className={`font-bold ${getScoreDifferenceColor(differences.aiVisibilityDiff)}`}>
-                  {differences.aiVisibilityDiff > 0 ? '+' : ''}{differences.aiVisibilityDiff}
-                </span>
-              </div>
-            </div>
           </div>
         </CardContent>
       </Card>
@@ -137,14 +134,14 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
                   <div className="p-3 bg-slate-50 rounded">
                     <div className="text-xs text-slate-500 mb-1">
-                      {new URL(url1Report.url).hostname}
+                      {label1}
                     </div>
                     <div className="font-medium text-slate-900">{diff.url1Value}</div>
                   </div>
                   
                   <div className="p-3 bg-slate-50 rounded">
                     <div className="text-xs text-slate-500 mb-1">
-                      {new URL(url2Report.url).hostname}
+                      {label2}
                     </div>
                     <div className="font-medium text-slate-900">{diff.url2Value}</div>
                   </div>
@@ -168,74 +165,32 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
             AI Platform Visibility Assessment
           </CardTitle>
           <p className="text-sm text-slate-600">
-            12-factor analysis for ChatGPT, Perplexity, Claude, and Bard optimization
+            The GEO factors behind each AI score
           </p>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            {/* Website 1 AI Visibility */}
-            <div>
-              <h4 className="font-medium text-slate-900 mb-4 flex items-center">
-                <Target className="h-4 w-4 mr-2" />
-                {new URL(url1Report.url).hostname} - Score: {url1AiVisibility.overallScore}/100
-              </h4>
-              <p className="text-sm text-slate-600 mb-4">{url1AiVisibility.summary}</p>
-              
-              <div className="space-y-3">
-                {url1AiVisibility.factors.map((factor, index) => (
-                  <div key={index} className="border rounded-lg p-3">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="font-medium text-sm">{factor.factor}</span>
-                      <div className="flex items-center space-x-2">
-                        <span className="text-sm font-bold">{factor.score}/100</span>
-                        <Badge 
-                          variant={factor.status === 'pass' ? 'default' : 
-                                  factor.status === 'warning' ? 'secondary' : 'destructive'}
-                          className="text-xs"
-                        >
-                          {factor.status === 'pass' ? 'Pass' : 
-                           factor.status === 'warning' ? 'Warning' : 'Fail'}
-                        </Badge>
+            {sides.map(({ label, report }, index) => (
+              <div key={index}>
+                <h4 className="font-medium text-slate-900 mb-4 flex items-center">
+                  <Target className="h-4 w-4 mr-2" />
+                  {label} - Score: {report.aiScore}/100
+                </h4>
+                {report.geoAnalysis ? (
+                  <>
+                    <p className="text-sm text-slate-600 mb-4">{report.geoAnalysis.summary}</p>
+                    {report.aiScoreBreakdown && (
+                      <div className="mb-4">
+                        <ScoreBreakdownPanel breakdown={report.aiScoreBreakdown} />
                       </div>
-                    </div>
-                    <Progress value={factor.score} className="mb-2" />
-                    <p className="text-xs text-slate-600">{factor.description}</p>
-                  </div>
-                ))}
+                    )}
+                    <GeoFactorList factors={report.geoAnalysis.factors} />
+                  </>
+                ) : (
+                  <p className="text-sm text-slate-500">The GEO audit was not run for this website.</p>
+                )}
               </div>
-            </div>
-
-            {/* Website 2 AI Visibility */}
-            <div>
-              <h4 className="font-medium text-slate-900 mb-4 flex items-center">
-                <Target className="h-4 w-4 mr-2" />
-                {new URL(url2Report.url).hostname} - Score: {url2AiVisibility.overallScore}/100
-              </h4>
-              <p className="text-sm text-slate-600 mb-4">{url2AiVisibility.summary}</p>
-              
-              <div className="space-y-3">
-                {url2AiVisibility.factors.map((factor, index) => (
-                  <div key={index} className="border rounded-lg p-3">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="font-medium text-sm">{factor.factor}</span>
-                      <div className="flex items-center space-x-2">
-                        <span className="text-sm font-bold">{factor.score}/100</span>
-                        <Badge 
-                          variant={factor.status === 'pass' ? 'default' : 
-                                  factor.status === 'warning' ? 'secondary' : 'destructive'}
-                          className="text-xs"
-                        >
-                          {factor.status === 'pass' ? 'Pass' : 
-                           factor.status === 'warning' ? 'Warning' : 'Fail'}
-                        </Badge>
-                      </div>
-                    </div>
-                    <Progress value={factor.score} className="mb-2" />
-                    <p className="text-xs text-slate-600">{factor.description}</p>
-                  </div>
-                ))}
-              </div>
-            </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -250,55 +205,14 @@ export default function ComparisonResults({ result }: ComparisonResultsProps) {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h4 className="font-medium text-slate-900 mb-3">
-                For {new URL(url1Report.url).hostname}:
-              </h4>
-              <div className="space-y-2">
-                {url1AiVisibility.recommendations?.slice(0, 4).map((recommendation, index) => (
-                  <div key={index} className={`p-3 rounded border-l-4 ${
-                    recommendation.priority === 'high' ? 'bg-red-50 border-red-400' :
-                    recommendation.priority === 'medium' ? 'bg-yellow-50 border-yellow-400' :
-                    'bg-green-50 border-green-400'
-                  }`}>
-                    <div className="flex items-center justify-between mb-1">
-                      <div className="font-medium text-sm">{recommendation.action}</div>
-                      <Badge variant={recommendation.priority === 'high' ? 'destructive' : 'secondary'} className="text-xs">
-                        {recommendation.priority === 'high' ? 'High' : 
-                         recommendation.priority === 'medium' ? 'Medium' : 'Low'} Priority
-                      </Badge>
-                    </div>
-                    <div className="text-xs text-slate-600 mb-1">{recommendation.description}</div>
-                    <div className="text-xs text-slate-500 italic">{recommendation.impact}</div>
-                  </div>
-                ))}
-              </div>
-            </div>
-            
-            <div>
-              <h4 className="font-medium text-slate-900 mb-3">
-                For {new URL(url2Report.url).hostname}:
-              </h4>
-              <div className="space-y-2">
-                {url2AiVisibility.recommendations?.slice(0, 4).map((recommendation, index) => (
-                  <div key={index} className={`p-3 rounded border-l-4 ${
-                    recommendation.priority === 'high' ? 'bg-red-50 border-red-400' :
-                    recommendation.priority === 'medium' ? 'bg-yellow-50 border-yellow-400' :
-                    'bg-green-50 border-green-400'
-                  }`}>
-                    <div className="flex items-center justify-between mb-1">
-                      <div className="font-medium text-sm">{recommendation.action}</div>
-                      <Badge variant={recommendation.priority === 'high' ? 'destructive' : 'secondary'} className="text-xs">
-                        {recommendation.priority === 'high' ? 'High' : 
-                         recommendation.priority === 'medium' ? 'Medium' : 'Low'} Priority
-                      </Badge>
-                    </div>
-                    <div className="text-xs text-slate-600 mb-1">{recommendation.description}</div>
-                    <div className="text-xs text-slate-500 italic">{recommendation.impact}</div>
-                  </div>
-                ))}
+            {sides.map(({ label, report }, index) => (
+              <div key={index}>
+                <h4 className="font-medium text-slate-900 mb-3">
+                  For {label}:
+                </h4>
+                <GeoRecommendations recommendations={report.geoAnalysis?.recommendations.slice(0, 4) ?? []} />
               </div>
-            </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { FetchProfileSummary } from "@shared/schema";
+
+const DEFAULT_PROFILE = "default";
+
+interface FetchProfileSelectProps {
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  disabled?: boolean;
+}
+
+export default function FetchProfileSelect({ value, onChange, disabled }: FetchProfileSelectProps) {
+  const { data: profiles = [] } = useQuery<FetchProfileSummary[]>({
+    queryKey: ["/api/fetch-profiles"],
+  });
+
+  return (
+    <Select
+      value={value === undefined ? DEFAULT_PROFILE : String(value)}
+      onValueChange={selected => onChange(selected === DEFAULT_PROFILE ? undefined : Number(selected))}
+      disabled={disabled}
+    >
+      <SelectTrigger className="text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_PROFILE}>Default (SEO-Audit-Bot)</SelectItem>
+        {profiles.map(profile => (
+          <SelectItem key={profile.id} value={String(profile.id)}>
+            {profile.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,40 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { GeoFactor } from "@shared/schema";
+
+interface GeoFactorListProps {
+  factors: GeoFactor[];
+  className?: string;
+}
+
+export default function GeoFactorList({ factors, className }: GeoFactorListProps) {
+  return (
+    <div className={cn("space-y-3", className)}>
+      {factors.map(factor => (
+        <div key={factor.id} className="border rounded-lg p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-sm">{factor.factor}</span>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-bold">{factor.score}/100</span>
+              <Badge
+                variant={factor.status === 'pass' ? 'default' :
+                        factor.status === 'warning' ? 'secondary' : 'destructive'}
+                className="text-xs"
+              >
+                {factor.status === 'pass' ? 'Pass' :
+                 factor.status === 'warning' ? 'Warning' : 'Fail'}
+              </Badge>
+            </div>
+          </div>
+          <Progress value={factor.score} className="mb-2" />
+          <p className="text-xs text-slate-600">
+            {factor.description}
+            {/* A profile can keep a factor for reference without scoring it */}
+            {factor.weight === 0 && <span className="text-slate-400"> · not scored</span>}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
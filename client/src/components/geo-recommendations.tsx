@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import type { GeoAnalysis } from "@shared/schema";
+
+interface GeoRecommendationsProps {
+  recommendations: GeoAnalysis['recommendations'];
+}
+
+export default function GeoRecommendations({ recommendations }: GeoRecommendationsProps) {
+  return (
+    <div className="space-y-2">
+      {recommendations.map((recommendation, index) => (
+        <div key={index} className={`p-3 rounded border-l-4 ${
+          recommendation.priority === 'high' ? 'bg-red-50 border-red-400' :
+          recommendation.priority === 'medium' ? 'bg-yellow-50 border-yellow-400' :
+          'bg-green-50 border-green-400'
+        }`}>
+          <div className="flex items-center justify-between mb-1">
+            <div className="font-medium text-sm">{recommendation.action}</div>
+            <Badge variant={recommendation.priority === 'high' ? 'destructive' : 'secondary'} className="text-xs">
+              {recommendation.priority === 'high' ? 'High' :
+               recommendation.priority === 'medium' ? 'Medium' : 'Low'} Priority
+            </Badge>
+          </div>
+          <div className="text-xs text-slate-600 mb-1">{recommendation.description}</div>
+          <div className="text-xs text-slate-500 italic">{recommendation.impact}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { FileCode, Search, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ScoringProfileSelect from "@/components/scoring-profile-select";
+import ScoringOverridesEditor from "@/components/scoring-overrides-editor";
+import type { AuditReport, SiteCrawlResult, ScoringOverrides } from "@shared/schema";
+
+const formSchema = z.object({
+  html: z.string(),
+  intendedUrl: z.string().url("Please enter a valid URL").or(z.literal("")),
+  scoringProfile: z.enum(["general", "blog", "ecommerce", "local-business", "saas-docs", "custom"]),
+});
+
+type FormData = z.infer<typeof formSchema>;
+type InputMode = "paste" | "upload";
+
+interface HtmlAuditFormProps {
+  onAuditStart: (label: string) => void;
+  onHtmlAuditComplete: (report: AuditReport) => void;
+  onFilesAuditComplete: (result: SiteCrawlResult) => void;
+  onAuditError: () => void;
+}
+
+export default function HtmlAuditForm({ onAuditStart, onHtmlAuditComplete, onFilesAuditComplete, onAuditError }: HtmlAuditFormProps) {
+  const { toast } = useToast();
+  const [scoringOverrides, setScoringOverrides] = useState<ScoringOverrides>({});
+  const [mode, setMode] = useState<InputMode>("paste");
+  const [files, setFiles] = useState<File[]>([]);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      html: "",
+      intendedUrl: "",
+      scoringProfile: "general",
+    },
+  });
+
+  const onError = (error: Error) => {
+    onAuditError();
+    toast({
+      title: "Analysis Failed",
+      description: error instanceof Error ? error.message : "Failed to analyze HTML",
+      variant: "destructive",
+    });
+  };
+
+  const analyzeHtml = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("POST", "/api/analyze/html", {
+        html: data.html,
+        intendedUrl: data.intendedUrl || undefined,
+        scoringProfile: data.scoringProfile,
+        scoringOverrides: data.scoringProfile === "custom" ? scoringOverrides : undefined,
+      });
+      return response.json() as Promise<AuditReport>;
+    },
+    onSuccess: (report) => {
+      onHtmlAuditComplete(report);
+      toast({
+        title: "Analysis Complete",
+        description: "The HTML has been audited successfully.",
+      });
+    },
+    onError,
+  });
+
+  const analyzeFiles = useMutation({
+    mutationFn: async (data: FormData) => {
+      const body = new FormData();
+      files.forEach(file => body.append("files", file));
+      if (data.intendedUrl) {
+        body.append("intendedUrl", data.intendedUrl);
+      }
+      body.append("scoringProfile", data.scoringProfile);
+      if (data.scoringProfile === "custom") {
+        body.append("scoringOverrides", JSON.stringify(scoringOverrides));
+      }
+      const response = await apiUpload("/api/analyze/files", body);
+      return response.json() as Promise<SiteCrawlResult>;
+    },
+    onSuccess: (result) => {
+      onFilesAuditComplete(result);
+      toast({
+        title: "Analysis Complete",
+        description: `${result.pages.length} pages were audited.`,
+      });
+    },
+    onError,
+  });
+
+  const isPending = analyzeHtml.isPending || analyzeFiles.isPending;
+
+  const onSubmit = (data: FormData) => {
+    if (mode === "paste") {
+      if (!data.html.trim()) {
+        form.setError("html", { message: "Please paste the page HTML" });
+        return;
+      }
+      onAuditStart(data.intendedUrl || "pasted HTML");
+      analyzeHtml.mutate(data);
+    } else {
+      if (files.length === 0) {
+        toast({
+          title: "No Files Selected",
+          description: "Choose .html files or a .zip of your static build.",
+          variant: "destructive",
+        });
+        return;
+      }
+      onAuditStart(files.length === 1 ? files[0].name : `${files.length} files`);
+      analyzeFiles.mutate(data);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="p-6">
+        <div className="flex items-center mb-4">
+          <FileCode className="text-primary mr-3 h-5 w-5" />
+          <h2 className="text-lg font-semibold text-slate-900">Pre-launch Audit</h2>
+        </div>
+        <p className="text-sm text-slate-600 mb-4">
+          Audit pages before they go live by pasting HTML or uploading files from your build
+        </p>
+
+        <Tabs value={mode} onValueChange={value => setMode(value as InputMode)} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="paste" disabled={isPending}>Paste HTML</TabsTrigger>
+            <TabsTrigger value="upload" disabled={isPending}>Upload Files</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {mode === "paste" ? (
+              <FormField
+                control={form.control}
+                name="html"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Page HTML</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder={"<!DOCTYPE html>\n<html>..."}
+                        className="font-mono text-sm min-h-[200px]"
+                        disabled={isPending}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="html-audit-files">HTML Files or Zip Archive</Label>
+                <Input
+                  id="html-audit-files"
+                  type="file"
+                  multiple
+                  accept=".html,.htm,.zip"
+                  onChange={event => setFiles(Array.from(event.target.files ?? []))}
+                  disabled={isPending}
+                />
+                <p className="text-xs text-slate-500">
+                  Upload .html files or a .zip of your static site build (up to 100 pages).
+                </p>
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="intendedUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{mode === "paste" ? "Intended Page URL (optional)" : "Intended Site URL (optional)"}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="url"
+                      placeholder="https://example.com"
+                      className="font-mono text-sm"
+                      disabled={isPending}
+                    />
+                  </FormControl>
+                  <p className="text-xs text-slate-500">
+                    Where the {mode === "paste" ? "page" : "site"} will be published, so links can be classified as internal or external
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scoringProfile"
+              render={({ field }) => (
+                <FormItem className="sm:w-72">
+                  <FormLabel>Scoring Profile</FormLabel>
+                  <ScoringProfileSelect
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={isPending}
+                  />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("scoringProfile") === "custom" && (
+              <ScoringOverridesEditor
+                value={scoringOverrides}
+                onChange={setScoringOverrides}
+                disabled={isPending}
+              />
+            )}
+
+            <Button
+              type="submit"
+              className="w-full sm:w-auto bg-primary text-white hover:bg-blue-700"
+              disabled={isPending}
+            >
+              {mode === "paste" ? <Search className="mr-2 h-4 w-4" /> : <Upload className="mr-2 h-4 w-4" />}
+              {isPending ? "Analyzing..." : mode === "paste" ? "Analyze HTML" : "Analyze Files"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+import { Lightbulb } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { PlatformVisibility } from "@shared/schema";
+
+interface PlatformVisibilityPanelProps {
+  platforms: PlatformVisibility[];
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-success';
+  if (score >= 50) return 'text-warning';
+  return 'text-error';
+};
+
+export default function PlatformVisibilityPanel({ platforms }: PlatformVisibilityPanelProps) {
+  return (
+    <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      <h4 className="font-medium text-slate-900 mb-3 flex items-center">
+        <Lightbulb className="h-4 w-4 text-primary mr-2" />
+        AI Platform Visibility Assessment
+      </h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {platforms.map(platform => (
+          <div key={platform.platform} className="bg-white border border-blue-100 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium text-sm text-slate-900">{platform.name}</span>
+              <span className={`text-lg font-semibold ${getScoreColor(platform.score)}`}>{platform.score}</span>
+            </div>
+            <Progress value={platform.score} className="h-1.5 mb-3" />
+            <ul className="space-y-1 text-xs text-slate-600">
+              {platform.reasons.map((reason, index) => (
+                <li key={index}>{reason}</li>
+              ))}
+            </ul>
+            {platform.weakFactors.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs font-medium text-slate-700 mb-1">Holding it back</div>
+                <div className="flex flex-wrap gap-1">
+                  {platform.weakFactors.map(factor => (
+                    <span key={factor.id} className="bg-red-100 text-red-800 px-2 py-0.5 rounded-full text-xs">
+                      {factor.label} {factor.score}/100
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { ChevronDown, Calculator } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Progress } from "@/components/ui/progress";
+import type { ScoreBreakdown } from "@shared/schema";
+
+interface ScoreBreakdownPanelProps {
+  breakdown: ScoreBreakdown;
+}
+
+const formatPoints = (points: number) => Number.isInteger(points) ? String(points) : points.toFixed(1);
+
+export default function ScoreBreakdownPanel({ breakdown }: ScoreBreakdownPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  // Biggest point losses first, since they explain the score
+  const contributions = [...breakdown.contributions].sort((a, b) => (b.possible - b.earned) - (a.possible - a.earned));
+  const uncapped = breakdown.possible > 0 ? Math.round(breakdown.earned / breakdown.possible * 100) : 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-4 border-t border-slate-200 pt-3">
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium text-slate-700 hover:text-slate-900">
+        <span className="flex items-center">
+          <Calculator className="h-4 w-4 mr-2 text-primary" />
+          How this score was calculated
+        </span>
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-3">
+        <p className="text-xs text-slate-600">
+          {formatPoints(breakdown.earned)} of {formatPoints(breakdown.possible)} points = {uncapped}
+          {breakdown.cappedAt !== null && (
+            <span className="text-error">
+              {' '}· capped at {breakdown.cappedAt} because a critical check failed ({breakdown.cappedBy.join(', ')})
+            </span>
+          )}
+        </p>
+        {contributions.length === 0 && (
+          <p className="text-xs text-slate-500">No scored checks applied to this page.</p>
+        )}
+        {contributions.map(contribution => (
+          <div key={contribution.id} className="text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium text-slate-800">{contribution.label}</span>
+              <span className="font-mono text-xs text-slate-600">
+                {formatPoints(contribution.earned)} / {formatPoints(contribution.possible)}
+              </span>
+            </div>
+            <Progress value={contribution.possible > 0 ? contribution.earned / contribution.possible * 100 : 0} className="h-1.5" />
+            {contribution.evidence.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-slate-500">
+                {contribution.evidence.slice(0, 4).map((item, index) => (
+                  <li key={index} className="break-words">{item}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,13 +1,17 @@
 import { Card, CardContent } from "@/components/ui/card";
+import ScoreBreakdownPanel from "./score-breakdown";
+import type { ScoreBreakdown } from "@shared/schema";
 
 interface ScoreCardProps {
   title: string;
   score: number;
   icon: React.ReactNode;
-  type: 'seo' | 'ai';
+  type: 'seo' | 'ai' | 'performance' | 'accessibility';
+  // Reports created before breakdowns were stored have none
+  breakdown?: ScoreBreakdown | null;
 }
 
-export default function ScoreCard({ title, score, icon, type }: ScoreCardProps) {
+export default function ScoreCard({ title, score, icon, type, breakdown }: ScoreCardProps) {
   const getScoreColor = (score: number) => {
     if (score >= 70) return 'text-success';
     if (score >= 40) return 'text-warning';
@@ -66,6 +70,7 @@ export default function ScoreCard({ title, score, icon, type }: ScoreCardProps)
             <p className="text-sm text-slate-500">{getScoreDescription(score)}</p>
           </div>
         </div>
+        {breakdown && <ScoreBreakdownPanel breakdown={breakdown} />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,137 @@
+import { useQuery } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DEFAULT_SCORING_THRESHOLDS,
+  type ScoringOverrides,
+  type ScoringRuleSummary,
+  type ScoringThresholds,
+} from "@shared/schema";
+
+const THRESHOLD_LABELS: Record<keyof ScoringThresholds, string> = {
+  titleMinLength: "Title min length",
+  titleMaxLength: "Title max length",
+  metaDescriptionMinLength: "Meta description min length",
+  metaDescriptionMaxLength: "Meta description max length",
+  loadTimeMs: "Load time (ms)",
+  ttfbMs: "Time to first byte (ms)",
+  htmlBytes: "HTML size (bytes)",
+  imageBytes: "Image size (bytes)",
+};
+
+interface ScoringOverridesEditorProps {
+  value: ScoringOverrides;
+  onChange: (value: ScoringOverrides) => void;
+  disabled?: boolean;
+}
+
+// Empty fields keep the default, so only the values that were changed are sent
+const parseNumber = (text: string) => {
+  const value = Number(text);
+  return text.trim() === "" || !Number.isFinite(value) || value < 0 ? undefined : value;
+};
+
+export default function ScoringOverridesEditor({ value, onChange, disabled }: ScoringOverridesEditorProps) {
+  const { data: rules = [] } = useQuery<ScoringRuleSummary[]>({
+    queryKey: ["/api/scoring-rules"],
+  });
+
+  const thresholds = value.thresholds ?? {};
+  const ruleWeights = value.ruleWeights ?? {};
+  const excludedRules = value.excludedRules ?? [];
+
+  const setThreshold = (key: keyof ScoringThresholds, text: string) => {
+    const { [key]: _, ...rest } = thresholds;
+    const parsed = parseNumber(text);
+    onChange({ ...value, thresholds: parsed === undefined ? rest : { ...rest, [key]: Math.round(parsed) } });
+  };
+
+  const setWeight = (ruleId: string, text: string) => {
+    const { [ruleId]: _, ...rest } = ruleWeights;
+    const parsed = parseNumber(text);
+    onChange({ ...value, ruleWeights: parsed === undefined ? rest : { ...rest, [ruleId]: parsed } });
+  };
+
+  const setExcluded = (ruleId: string, excluded: boolean) => {
+    onChange({
+      ...value,
+      excludedRules: excluded ? [...excludedRules, ruleId] : excludedRules.filter(id => id !== ruleId),
+    });
+  };
+
+  const renderRules = (title: string, group: ScoringRuleSummary[]) => (
+    <div>
+      <div className="text-xs font-medium text-slate-700 mb-1">{title}</div>
+      <div className="space-y-1">
+        {group.map(rule => {
+          const excluded = excludedRules.includes(rule.id);
+          return (
+            <div key={rule.id} className="flex items-center gap-3 text-sm">
+              <span className={`flex-1 ${excluded ? "text-slate-400 line-through" : "text-slate-700"}`} title={rule.id}>
+                {rule.name}
+              </span>
+              <Input
+                type="number"
+                min={0}
+                value={ruleWeights[rule.id] ?? ""}
+                placeholder={String(rule.weight)}
+                onChange={event => setWeight(rule.id, event.target.value)}
+                disabled={disabled || excluded}
+                aria-label={`Weight for ${rule.name}`}
+                className="w-20 h-8 text-sm"
+              />
+              <label className="flex items-center gap-1 text-xs text-slate-600">
+                <Checkbox
+                  checked={excluded}
+                  onCheckedChange={checked => setExcluded(rule.id, checked === true)}
+                  disabled={disabled}
+                />
+                Exclude
+              </label>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-200 p-4">
+      <div>
+        <h4 className="text-sm font-medium text-slate-900 mb-2">Thresholds</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          {(Object.keys(THRESHOLD_LABELS) as Array<keyof ScoringThresholds>).map(key => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`scoring-threshold-${key}`} className="text-xs text-slate-600">{THRESHOLD_LABELS[key]}</Label>
+              <Input
+                id={`scoring-threshold-${key}`}
+                type="number"
+                min={0}
+                value={thresholds[key] ?? ""}
+                placeholder={String(DEFAULT_SCORING_THRESHOLDS[key])}
+                onChange={event => setThreshold(key, event.target.value)}
+                disabled={disabled}
+                className="text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-slate-900 mb-1">Rule Weights</h4>
+        <p className="text-xs text-slate-500 mb-2">
+          Leave a weight empty to keep the default. Excluded rules are neither checked nor reported.
+        </p>
+        <ScrollArea className="h-64 pr-3">
+          <div className="space-y-4">
+            {renderRules("SEO", rules.filter(rule => rule.id.startsWith("seo.")))}
+            {renderRules("AI Optimization", rules.filter(rule => rule.id.startsWith("geo.")))}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
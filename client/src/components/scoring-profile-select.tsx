@@ -0,0 +1,29 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SCORING_PROFILE_OPTIONS, type ScoringProfileId } from "@shared/schema";
+
+interface ScoringProfileSelectProps {
+  value: ScoringProfileId;
+  onChange: (value: ScoringProfileId) => void;
+  disabled?: boolean;
+}
+
+export default function ScoringProfileSelect({ value, onChange, disabled }: ScoringProfileSelectProps) {
+  return (
+    <Select value={value} onValueChange={selected => onChange(selected as ScoringProfileId)} disabled={disabled}>
+      <SelectTrigger className="text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SCORING_PROFILE_OPTIONS.map(option => (
+          <SelectItem key={option.id} value={option.id} title={option.description}>
+            {option.name}
+          </SelectItem>
+        ))}
+        {/* Starts from the general defaults; the overrides editor changes weights, exclusions and thresholds */}
+        <SelectItem value="custom" title="Your own rule weights, exclusions and thresholds">
+          Custom
+        </SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Network, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Card, CardContent } from "@/components/ui/card";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import FetchProfileSelect from "@/components/fetch-profile-select";
+import ScoringProfileSelect from "@/components/scoring-profile-select";
+import ScoringOverridesEditor from "@/components/scoring-overrides-editor";
+import type { SiteCrawlResult, ScoringOverrides } from "@shared/schema";
+
+const formSchema = z.object({
+  url: z.string().url("Please enter a valid URL"),
+  maxDepth: z.coerce.number().int().min(0, "Minimum depth is 0").max(5, "Maximum depth is 5"),
+  maxPages: z.coerce.number().int().min(1, "Crawl at least 1 page").max(100, "Maximum 100 pages per crawl"),
+  includePatterns: z.string(),
+  excludePatterns: z.string(),
+  respectRobotsTxt: z.boolean().default(true),
+  fetchProfileId: z.number().optional(),
+  scoringProfile: z.enum(["general", "blog", "ecommerce", "local-business", "saas-docs", "custom"]),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface SiteCrawlFormProps {
+  onCrawlStart: (url: string) => void;
+  onCrawlComplete: (result: SiteCrawlResult) => void;
+  onCrawlError: () => void;
+}
+
+// One pattern per line, e.g. "/blog/*"
+const parsePatterns = (value: string) =>
+  value.split("\n").map(line => line.trim()).filter(Boolean);
+
+export default function SiteCrawlForm({ onCrawlStart, onCrawlComplete, onCrawlError }: SiteCrawlFormProps) {
+  const { toast } = useToast();
+  const [scoringOverrides, setScoringOverrides] = useState<ScoringOverrides>({});
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      url: "",
+      maxDepth: 2,
+      maxPages: 20,
+      includePatterns: "",
+      excludePatterns: "",
+      respectRobotsTxt: true,
+      fetchProfileId: undefined,
+      scoringProfile: "general",
+    },
+  });
+
+  const crawlSite = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("POST", "/api/crawl", {
+        ...data,
+        includePatterns: parsePatterns(data.includePatterns),
+        excludePatterns: parsePatterns(data.excludePatterns),
+        scoringOverrides: data.scoringProfile === "custom" ? scoringOverrides : undefined,
+      });
+      return response.json() as Promise<SiteCrawlResult>;
+    },
+    onSuccess: (result) => {
+      onCrawlComplete(result);
+      toast({
+        title: "Crawl Complete",
+        description: `${result.pages.length} pages were audited.`,
+      });
+    },
+    onError: (error) => {
+      onCrawlError();
+      toast({
+        title: "Crawl Failed",
+        description: error instanceof Error ? error.message : "Failed to crawl website",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: FormData) => {
+    onCrawlStart(data.url);
+    crawlSite.mutate(data);
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="p-6">
+        <div className="flex items-center mb-4">
+          <Network className="text-primary mr-3 h-5 w-5" />
+          <h2 className="text-lg font-semibold text-slate-900">Site Crawl</h2>
+        </div>
+        <p className="text-sm text-slate-600 mb-4">
+          Start from one page, follow internal links and audit every page found
+        </p>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start URL</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="url"
+                      placeholder="https://example.com"
+                      className="font-mono text-sm"
+                      disabled={crawlSite.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="maxDepth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Link Depth</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={0} max={5} disabled={crawlSite.isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxPages"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Pages</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={1} max={100} disabled={crawlSite.isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fetchProfileId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fetch Profile</FormLabel>
+                    <FetchProfileSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={crawlSite.isPending}
+                    />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scoringProfile"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scoring Profile</FormLabel>
+                    <ScoringProfileSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={crawlSite.isPending}
+                    />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {form.watch("scoringProfile") === "custom" && (
+              <ScoringOverridesEditor
+                value={scoringOverrides}
+                onChange={setScoringOverrides}
+                disabled={crawlSite.isPending}
+              />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="includePatterns"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Only Crawl Paths</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder={"/blog/*\n/docs/*"}
+                        className="font-mono text-sm"
+                        disabled={crawlSite.isPending}
+                      />
+                    </FormControl>
+                    <p className="text-xs text-slate-500">One pattern per line, * matches anything. Leave empty for all pages.</p>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="excludePatterns"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Skip Paths</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder={"/tag/*\n/*?page="}
+                        className="font-mono text-sm"
+                        disabled={crawlSite.isPending}
+                      />
+                    </FormControl>
+                    <p className="text-xs text-slate-500">Pages matching these patterns are not audited.</p>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 text-sm">
+              <FormField
+                control={form.control}
+                name="respectRobotsTxt"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={crawlSite.isPending}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-slate-600">Respect robots.txt rules</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="bg-primary text-white hover:bg-blue-700"
+                disabled={crawlSite.isPending}
+              >
+                <Search className="mr-2 h-4 w-4" />
+                {crawlSite.isPending ? "Crawling..." : "Crawl Website"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Search, Bot, AlertTriangle, XCircle, FileText, Ban } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ScoreCard from "./score-card";
+import AuditResults from "./audit-results";
+import type { SiteCrawlResult, SkippedPage } from "@shared/schema";
+
+interface SiteCrawlResultsProps {
+  result: SiteCrawlResult;
+}
+
+const skipReasonLabels: Record<SkippedPage['reason'], string> = {
+  robots: 'Blocked by robots.txt',
+  excluded: 'Matched a skip pattern',
+  not_included: 'Outside crawl paths',
+  limit: 'Page limit reached',
+  error: 'Failed to load',
+};
+
+export default function SiteCrawlResults({ result }: SiteCrawlResultsProps) {
+  const [selectedReportId, setSelectedReportId] = useState<number | null>(null);
+  const selectedReport = result.pageReports.find(report => report.id === selectedReportId);
+
+  const getScoreColor = (score: number) => {
+    if (score >= 70) return 'text-success';
+    if (score >= 40) return 'text-warning';
+    return 'text-error';
+  };
+
+  const getPath = (url: string) => {
+    const { pathname, search } = new URL(url);
+    return pathname + search;
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Site-level scores */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ScoreCard
+          title="Average SEO Score"
+          score={result.seoScore}
+          icon={<Search className="h-5 w-5 text-primary" />}
+          type="seo"
+        />
+        <ScoreCard
+          title="Average AI Visibility Score"
+          score={result.aiScore}
+          icon={<Bot className="h-5 w-5 text-primary" />}
+          type="ai"
+        />
+      </div>
+
+      {/* Most common issues */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <AlertTriangle className="h-5 w-5 text-amber-600 mr-2" />
+            Most Common Issues
+          </CardTitle>
+          <p className="text-sm text-slate-600">
+            Fixing these in your site template improves many pages at once
+          </p>
+        </CardHeader>
+        <CardContent>
+          {result.commonIssues.length === 0 ? (
+            <p className="text-sm text-slate-600">No issues were found on the crawled pages.</p>
+          ) : (
+            <div className="space-y-3">
+              {result.commonIssues.map((issue, index) => (
+                <div key={index} className="flex items-start justify-between p-4 border rounded-lg">
+                  <div className="flex items-start space-x-3">
+                    {issue.type === 'error'
+                      ? <XCircle className="h-5 w-5 text-error mt-0.5" />
+                      : <AlertTriangle className="h-5 w-5 text-warning mt-0.5" />}
+                    <div>
+                      <h4 className="font-medium text-slate-900">{issue.title}</h4>
+                      <p className="text-xs text-slate-500 mt-1 font-mono">
+                        {issue.exampleUrls.map(getPath).join(', ')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-3">
+                    <Badge variant="secondary">{issue.category === 'seo' ? 'SEO' : 'AI Optimization'}</Badge>
+                    <span className="text-sm font-semibold text-slate-700 whitespace-nowrap">
+                      {issue.pageCount} of {result.pages.length} pages
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Crawled pages */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="h-5 w-5 text-primary mr-2" />
+            Crawled Pages ({result.pages.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Page</TableHead>
+                <TableHead className="text-center">Depth</TableHead>
+                <TableHead className="text-center">SEO</TableHead>
+                <TableHead className="text-center">AI</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.pages.map(page => (
+                <TableRow key={page.reportId}>
+                  <TableCell className="font-mono text-sm">{getPath(page.url)}</TableCell>
+                  <TableCell className="text-center">{page.depth}</TableCell>
+                  <TableCell className={`text-center font-semibold ${getScoreColor(page.seoScore)}`}>{page.seoScore}</TableCell>
+                  <TableCell className={`text-center font-semibold ${getScoreColor(page.aiScore)}`}>{page.aiScore}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedReportId(selectedReportId === page.reportId ? null : page.reportId)}
+                    >
+                      {selectedReportId === page.reportId ? 'Hide Report' : 'View Report'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {result.skippedPages.length > 0 && (
+            <div className="mt-6">
+              <h4 className="font-medium text-slate-900 mb-3 flex items-center">
+                <Ban className="h-4 w-4 text-slate-500 mr-2" />
+                Skipped Pages ({result.skippedPages.length})
+              </h4>
+              <div className="space-y-1">
+                {result.skippedPages.map((page, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm">
+                    <span className="font-mono text-slate-600 truncate">{getPath(page.url)}</span>
+                    <span className="text-xs text-slate-500 ml-3 whitespace-nowrap">
+                      {skipReasonLabels[page.reason]}{page.details ? `: ${page.details}` : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedReport && <AuditResults report={selectedReport} />}
+    </div>
+  );
+}
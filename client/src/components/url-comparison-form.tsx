@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -10,14 +11,21 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ComparisonResult } from "@shared/schema";
+import FetchProfileSelect from "@/components/fetch-profile-select";
+import ScoringProfileSelect from "@/components/scoring-profile-select";
+import ScoringOverridesEditor from "@/components/scoring-overrides-editor";
+import type { ComparisonResult, ScoringOverrides } from "@shared/schema";
 
 const formSchema = z.object({
   url1: z.string().url("Please enter a valid URL for first website"),
   url2: z.string().url("Please enter a valid URL for second website"),
+  fetchProfileId1: z.number().optional(),
+  fetchProfileId2: z.number().optional(),
   includeTraditionalSeo: z.boolean().default(true),
   includeGeo: z.boolean().default(true),
+  includeAccessibility: z.boolean().default(true),
   includeContentSuggestions: z.boolean().default(true),
+  scoringProfile: z.enum(["general", "blog", "ecommerce", "local-business", "saas-docs", "custom"]),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -34,21 +42,29 @@ export default function UrlComparisonForm({
   onComparisonError 
 }: UrlComparisonFormProps) {
   const { toast } = useToast();
+  const [scoringOverrides, setScoringOverrides] = useState<ScoringOverrides>({});
   
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       url1: "",
       url2: "",
+      fetchProfileId1: undefined,
+      fetchProfileId2: undefined,
       includeTraditionalSeo: true,
       includeGeo: true,
+      includeAccessibility: true,
       includeContentSuggestions: true,
+      scoringProfile: "general",
     },
   });
 
   const compareWebsites = useMutation({
     mutationFn: async (data: FormData) => {
-      const response = await apiRequest("POST", "/api/compare", data);
+      const response = await apiRequest("POST", "/api/compare", {
+        ...data,
+        scoringOverrides: data.scoringProfile === "custom" ? scoringOverrides : undefined,
+      });
       return response.json() as Promise<ComparisonResult>;
     },
     onSuccess: (result) => {
@@ -126,7 +142,61 @@ export default function UrlComparisonForm({
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="fetchProfileId1"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First Fetch Profile</FormLabel>
+                    <FetchProfileSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={compareWebsites.isPending}
+                    />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fetchProfileId2"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Second Fetch Profile</FormLabel>
+                    <FetchProfileSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={compareWebsites.isPending}
+                    />
+                  </FormItem>
+                )}
+              />
             </div>
+            <p className="text-xs text-slate-500">
+              Enter the same URL twice with different profiles (e.g. Googlebot and GPTBot) to check whether the site serves crawlers different content
+            </p>
+
+            <FormField
+              control={form.control}
+              name="scoringProfile"
+              render={({ field }) => (
+                <FormItem className="sm:w-72">
+                  <FormLabel>Scoring Profile</FormLabel>
+                  <ScoringProfileSelect
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={compareWebsites.isPending}
+                  />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("scoringProfile") === "custom" && (
+              <ScoringOverridesEditor
+                value={scoringOverrides}
+                onChange={setScoringOverrides}
+                disabled={compareWebsites.isPending}
+              />
+            )}
             
             <div className="flex items-center space-x-6 text-sm">
               <FormField
@@ -161,6 +231,22 @@ export default function UrlComparisonForm({
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="includeAccessibility"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={compareWebsites.isPending}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-slate-600">Accessibility</FormLabel>
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="includeContentSuggestions"
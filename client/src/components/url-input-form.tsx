@@ -11,13 +11,22 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { AuditReport } from "@shared/schema";
+import FetchProfileSelect from "@/components/fetch-profile-select";
+import ScoringProfileSelect from "@/components/scoring-profile-select";
+import ScoringOverridesEditor from "@/components/scoring-overrides-editor";
+import type { AuditReport, ScoringOverrides } from "@shared/schema";
 
 const formSchema = z.object({
   url: z.string().url("Please enter a valid URL"),
   includeTraditionalSeo: z.boolean().default(true),
   includeGeo: z.boolean().default(true),
+  includeAccessibility: z.boolean().default(true),
   includeContentSuggestions: z.boolean().default(true),
+  checkLinks: z.boolean().default(false),
+  checkImages: z.boolean().default(true),
+  measureAssets: z.boolean().default(false),
+  fetchProfileId: z.number().optional(),
+  scoringProfile: z.enum(["general", "blog", "ecommerce", "local-business", "saas-docs", "custom"]),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -30,6 +39,7 @@ interface UrlInputFormProps {
 
 export default function UrlInputForm({ onAnalysisStart, onAnalysisComplete, onAnalysisError }: UrlInputFormProps) {
   const { toast } = useToast();
+  const [scoringOverrides, setScoringOverrides] = useState<ScoringOverrides>({});
   
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -37,13 +47,22 @@ export default function UrlInputForm({ onAnalysisStart, onAnalysisComplete, onAn
       url: "",
       includeTraditionalSeo: true,
       includeGeo: true,
+      includeAccessibility: true,
       includeContentSuggestions: true,
+      checkLinks: false,
+      checkImages: true,
+      measureAssets: false,
+      fetchProfileId: undefined,
+      scoringProfile: "general",
     },
   });
 
   const analyzeWebsite = useMutation({
     mutationFn: async (data: FormData) => {
-      const response = await apiRequest("POST", "/api/analyze", data);
+      const response = await apiRequest("POST", "/api/analyze", {
+        ...data,
+        scoringOverrides: data.scoringProfile === "custom" ? scoringOverrides : undefined,
+      });
       return response.json() as Promise<AuditReport>;
     },
     onSuccess: (report) => {
@@ -110,8 +129,47 @@ export default function UrlInputForm({ onAnalysisStart, onAnalysisComplete, onAn
                 </Button>
               </div>
             </div>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <FormField
+                control={form.control}
+                name="fetchProfileId"
+                render={({ field }) => (
+                  <FormItem className="sm:w-72">
+                    <FormLabel>Fetch Profile</FormLabel>
+                    <FetchProfileSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={analyzeWebsite.isPending}
+                    />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scoringProfile"
+                render={({ field }) => (
+                  <FormItem className="sm:w-72">
+                    <FormLabel>Scoring Profile</FormLabel>
+                    <ScoringProfileSelect
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={analyzeWebsite.isPending}
+                    />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {form.watch("scoringProfile") === "custom" && (
+              <ScoringOverridesEditor
+                value={scoringOverrides}
+                onChange={setScoringOverrides}
+                disabled={analyzeWebsite.isPending}
+              />
+            )}
             
-            <div className="flex items-center space-x-6 text-sm">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
               <FormField
                 control={form.control}
                 name="includeTraditionalSeo"
@@ -144,6 +202,22 @@ export default function UrlInputForm({ onAnalysisStart, onAnalysisComplete, onAn
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="includeAccessibility"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={analyzeWebsite.isPending}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-slate-600">Accessibility</FormLabel>
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="includeContentSuggestions"
@@ -160,6 +234,54 @@ export default function UrlInputForm({ onAnalysisStart, onAnalysisComplete, onAn
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="checkLinks"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={analyzeWebsite.isPending}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-slate-600">Check for Broken Links</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="checkImages"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={analyzeWebsite.isPending}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-slate-600">Check Image Files</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="measureAssets"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={analyzeWebsite.isPending}
+                      />
+                    </FormControl>
+                    <FormLabel className="text-slate-600">Measure Page Weight</FormLabel>
+                  </FormItem>
+                )}
+              />
             </div>
           </form>
         </Form>
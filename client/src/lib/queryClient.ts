@@ -23,6 +23,18 @@ export async function apiRequest(
   return res;
 }
 
+// Multipart request; the browser sets the Content-Type with the form boundary
+export async function apiUpload(url: string, data: FormData): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    body: data,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
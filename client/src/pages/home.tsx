@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Search, User, Globe, TrendingUp } from "lucide-react";
+import { Search, User, Globe, TrendingUp, Network, FileCode, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import UrlInputForm from "@/components/url-input-form";
@@ -7,7 +7,11 @@ import UrlComparisonForm from "@/components/url-comparison-form";
 import AnalysisProgress from "@/components/analysis-progress";
 import AuditResults from "@/components/audit-results";
 import ComparisonResults from "@/components/comparison-results";
-import type { AuditReport, ComparisonResult } from "@shared/schema";
+import SiteCrawlForm from "@/components/site-crawl-form";
+import SiteCrawlResults from "@/components/site-crawl-results";
+import HtmlAuditForm from "@/components/html-audit-form";
+import FetchProfileManager from "@/components/fetch-profile-manager";
+import type { AuditReport, ComparisonResult, SiteCrawlResult } from "@shared/schema";
 
 export default function Home() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -16,6 +20,13 @@ export default function Home() {
   const [compareUrls, setCompareUrls] = useState({ url1: "", url2: "" });
   const [auditReport, setAuditReport] = useState<AuditReport | null>(null);
   const [comparisonResult, setComparisonResult] = useState<ComparisonResult | null>(null);
+  const [isCrawling, setIsCrawling] = useState(false);
+  const [crawlUrl, setCrawlUrl] = useState("");
+  const [crawlResult, setCrawlResult] = useState<SiteCrawlResult | null>(null);
+  const [isAuditingHtml, setIsAuditingHtml] = useState(false);
+  const [htmlAuditLabel, setHtmlAuditLabel] = useState("");
+  const [htmlReport, setHtmlReport] = useState<AuditReport | null>(null);
+  const [filesResult, setFilesResult] = useState<SiteCrawlResult | null>(null);
   const [activeTab, setActiveTab] = useState("analyze");
 
   const handleAnalysisStart = (url: string) => {
@@ -50,6 +61,42 @@ export default function Home() {
     setIsComparing(false);
   };
 
+  const handleCrawlStart = (url: string) => {
+    setCrawlUrl(url);
+    setIsCrawling(true);
+    setCrawlResult(null);
+  };
+
+  const handleCrawlComplete = (result: SiteCrawlResult) => {
+    setIsCrawling(false);
+    setCrawlResult(result);
+  };
+
+  const handleCrawlError = () => {
+    setIsCrawling(false);
+  };
+
+  const handleHtmlAuditStart = (label: string) => {
+    setHtmlAuditLabel(label);
+    setIsAuditingHtml(true);
+    setHtmlReport(null);
+    setFilesResult(null);
+  };
+
+  const handleHtmlAuditComplete = (report: AuditReport) => {
+    setIsAuditingHtml(false);
+    setHtmlReport(report);
+  };
+
+  const handleFilesAuditComplete = (result: SiteCrawlResult) => {
+    setIsAuditingHtml(false);
+    setFilesResult(result);
+  };
+
+  const handleHtmlAuditError = () => {
+    setIsAuditingHtml(false);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Header */}
@@ -77,7 +124,7 @@ export default function Home() {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-8">
+          <TabsList className="grid w-full grid-cols-5 mb-8">
             <TabsTrigger value="analyze" className="flex items-center">
               <Search className="h-4 w-4 mr-2" />
               Single Website Analysis
@@ -86,6 +133,18 @@ export default function Home() {
               <TrendingUp className="h-4 w-4 mr-2" />
               Website Comparison
             </TabsTrigger>
+            <TabsTrigger value="crawl" className="flex items-center">
+              <Network className="h-4 w-4 mr-2" />
+              Site Crawl
+            </TabsTrigger>
+            <TabsTrigger value="html" className="flex items-center">
+              <FileCode className="h-4 w-4 mr-2" />
+              Pre-launch Audit
+            </TabsTrigger>
+            <TabsTrigger value="profiles" className="flex items-center">
+              <KeyRound className="h-4 w-4 mr-2" />
+              Fetch Profiles
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="analyze" className="space-y-6">
@@ -121,6 +180,53 @@ export default function Home() {
             
             {comparisonResult && <ComparisonResults result={comparisonResult} />}
           </TabsContent>
+
+          <TabsContent value="crawl" className="space-y-6">
+            <SiteCrawlForm 
+              onCrawlStart={handleCrawlStart} 
+              onCrawlComplete={handleCrawlComplete} 
+              onCrawlError={handleCrawlError} 
+            />
+            
+            {isCrawling && (
+              <div className="text-center py-8">
+                <div className="inline-flex items-center space-x-2 text-primary">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  <span>Crawling website...</span>
+                </div>
+                <p className="text-sm text-slate-600 mt-2">
+                  Following internal links from {new URL(crawlUrl).hostname}. Larger sites can take a few minutes.
+                </p>
+              </div>
+            )}
+            
+            {crawlResult && <SiteCrawlResults result={crawlResult} />}
+          </TabsContent>
+
+          <TabsContent value="html" className="space-y-6">
+            <HtmlAuditForm 
+              onAuditStart={handleHtmlAuditStart} 
+              onHtmlAuditComplete={handleHtmlAuditComplete} 
+              onFilesAuditComplete={handleFilesAuditComplete} 
+              onAuditError={handleHtmlAuditError} 
+            />
+            
+            {isAuditingHtml && (
+              <div className="text-center py-8">
+                <div className="inline-flex items-center space-x-2 text-primary">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                  <span>Analyzing {htmlAuditLabel}...</span>
+                </div>
+              </div>
+            )}
+            
+            {htmlReport && <AuditResults report={htmlReport} />}
+            {filesResult && <SiteCrawlResults result={filesResult} />}
+          </TabsContent>
+
+          <TabsContent value="profiles" className="space-y-6">
+            <FetchProfileManager />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -3,78 +3,377 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { WebScraper } from "./services/web-scraper";
 import { SeoAnalyzer } from "./services/seo-analyzer";
-import { insertAuditReportSchema } from "@shared/schema";
+import { PerformanceAnalyzer } from "./services/performance-analyzer";
+import { MobileAnalyzer } from "./services/mobile-analyzer";
+import { AccessibilityAnalyzer } from "./services/accessibility-analyzer";
+import { SecurityAnalyzer } from "./services/security-analyzer";
+import { AiPolicyAnalyzer } from "./services/ai-policy-analyzer";
+import { SiteCrawler } from "./services/site-crawler";
+import { StaticSiteReader, UNPUBLISHED_BASE_URL } from "./services/static-site-reader";
+import { NetworkPolicyError } from "./services/network-policy";
+import { FetchProfileVault } from "./services/fetch-profiles";
+import { listScoringRules, resolveScoringProfile } from "./services/scoring-profiles";
+import { networkPolicy, type RequestProfile } from "./services/http-client";
+import { DEFAULT_PERFORMANCE_BUDGET, type AuditReport, type ContentSuggestions, type FetchProfileSummary, type PerformanceBudget, type PerformanceBudgetLimits, type ScoringProfile, type WebsiteData } from "@shared/schema";
 import { z } from "zod";
+import multer from "multer";
+
+// Overrides for individual performance budget limits (sizes in bytes); timing limits are scoring thresholds
+const performanceBudgetSchema = z.object({
+  renderBlockingResources: z.number().int().min(0),
+  scripts: z.number().int().min(0),
+  thirdPartyHosts: z.number().int().min(0),
+  inlineScriptBytes: z.number().int().min(0),
+  inlineStyleBytes: z.number().int().min(0),
+  scriptBytes: z.number().int().min(0),
+  stylesheetBytes: z.number().int().min(0),
+  pageWeightBytes: z.number().int().min(0),
+}).partial();
+
+const scoringProfileIdSchema = z.enum(["general", "blog", "ecommerce", "local-business", "saas-docs", "custom"]).default("general");
+
+// Changes to the chosen preset; sending any makes the audit use a custom profile
+const scoringOverridesSchema = z.object({
+  ruleWeights: z.record(z.number().min(0)).optional(),
+  excludedRules: z.array(z.string().min(1)).optional(),
+  thresholds: z.object({
+    titleMinLength: z.number().int().min(0),
+    titleMaxLength: z.number().int().min(1),
+    metaDescriptionMinLength: z.number().int().min(0),
+    metaDescriptionMaxLength: z.number().int().min(1),
+    loadTimeMs: z.number().int().min(0),
+    ttfbMs: z.number().int().min(0),
+    htmlBytes: z.number().int().min(0),
+    imageBytes: z.number().int().min(0),
+  }).partial().optional(),
+});
 
 const analyzeUrlSchema = z.object({
   url: z.string().url("Please enter a valid URL"),
   includeTraditionalSeo: z.boolean().default(true),
   includeGeo: z.boolean().default(true),
+  includeAccessibility: z.boolean().default(true),
   includeContentSuggestions: z.boolean().default(true),
+  checkLinks: z.boolean().default(false),
+  checkImages: z.boolean().default(true),
+  // Download scripts and stylesheets to measure total page weight
+  measureAssets: z.boolean().default(false),
+  // Download linked stylesheets for the mobile checks
+  checkStylesheets: z.boolean().default(true),
+  fetchProfileId: z.number().int().positive().optional(),
+  performanceBudget: performanceBudgetSchema.optional(),
+  scoringProfile: scoringProfileIdSchema,
+  scoringOverrides: scoringOverridesSchema.optional(),
 });
 
 const compareUrlSchema = z.object({
   url1: z.string().url("Please enter a valid URL for first website"),
   url2: z.string().url("Please enter a valid URL for second website"),
+  // Comparing one URL under two profiles (e.g. Googlebot vs GPTBot) reveals cloaking
+  fetchProfileId1: z.number().int().positive().optional(),
+  fetchProfileId2: z.number().int().positive().optional(),
+  includeTraditionalSeo: z.boolean().default(true),
+  includeGeo: z.boolean().default(true),
+  includeAccessibility: z.boolean().default(true),
+  includeContentSuggestions: z.boolean().default(true),
+  // Same scrape options and defaults as a single audit, so a page scores the same in both
+  checkLinks: z.boolean().default(false),
+  checkImages: z.boolean().default(true),
+  measureAssets: z.boolean().default(false),
+  checkStylesheets: z.boolean().default(true),
+  // Both pages are checked against the same budget
+  performanceBudget: performanceBudgetSchema.optional(),
+  scoringProfile: scoringProfileIdSchema,
+  scoringOverrides: scoringOverridesSchema.optional(),
+});
+
+const analyzeHtmlSchema = z.object({
+  html: z.string().min(1, "Please paste the page HTML"),
+  intendedUrl: z.string().url("Please enter a valid URL").optional(),
   includeTraditionalSeo: z.boolean().default(true),
   includeGeo: z.boolean().default(true),
+  includeAccessibility: z.boolean().default(true),
   includeContentSuggestions: z.boolean().default(true),
+  performanceBudget: performanceBudgetSchema.optional(),
+  scoringProfile: scoringProfileIdSchema,
+  scoringOverrides: scoringOverridesSchema.optional(),
+});
+
+// Multipart form fields arrive as strings
+const formBoolean = (defaultValue: boolean) =>
+  z.enum(["true", "false"]).default(defaultValue ? "true" : "false").transform(value => value === "true");
+
+// Objects in multipart forms are sent as JSON strings
+const formJson = <T extends z.ZodTypeAny>(schema: T) =>
+  z.string().transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid JSON" });
+      return z.NEVER;
+    }
+  }).pipe(schema);
+
+const analyzeFilesSchema = z.object({
+  intendedUrl: z.string().url("Please enter a valid URL").optional(),
+  includeTraditionalSeo: formBoolean(true),
+  includeGeo: formBoolean(true),
+  includeAccessibility: formBoolean(true),
+  includeContentSuggestions: formBoolean(false),
+  scoringProfile: scoringProfileIdSchema,
+  scoringOverrides: formJson(scoringOverridesSchema).optional(),
+});
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024, files: 100 },
 });
 
+const crawlSiteSchema = z.object({
+  url: z.string().url("Please enter a valid URL"),
+  maxDepth: z.number().int().min(0).max(5).default(2),
+  maxPages: z.number().int().min(1).max(100).default(20),
+  includePatterns: z.array(z.string().min(1)).default([]),
+  excludePatterns: z.array(z.string().min(1)).default([]),
+  respectRobotsTxt: z.boolean().default(true),
+  includeTraditionalSeo: z.boolean().default(true),
+  includeGeo: z.boolean().default(true),
+  includeAccessibility: z.boolean().default(true),
+  includeContentSuggestions: z.boolean().default(false),
+  fetchProfileId: z.number().int().positive().optional(),
+  performanceBudget: performanceBudgetSchema.optional(),
+  scoringProfile: scoringProfileIdSchema,
+  scoringOverrides: scoringOverridesSchema.optional(),
+});
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const fetchProfileSchema = z.object({
+  name: z.string().trim().min(1, "Please enter a profile name").max(100),
+  userAgent: z.string().trim().max(500).optional(),
+  acceptLanguage: z.string().trim().max(200).optional(),
+  timeoutMs: z.number().int().min(1000).max(120000).optional(),
+  headers: z.record(z.string().regex(/^[^\r\n]*$/, "Header values cannot contain line breaks"))
+    .refine(headers => Object.keys(headers).every(name => HEADER_NAME.test(name)), "Invalid header name")
+    .default({}),
+  cookies: z.record(z.string().regex(/^[^;\r\n]*$/, "Cookie values cannot contain semicolons or line breaks"))
+    .refine(cookies => Object.keys(cookies).every(name => HEADER_NAME.test(name)), "Invalid cookie name")
+    .default({}),
+  basicAuth: z.object({
+    username: z.string().min(1, "Please enter a username"),
+    password: z.string(),
+  }).optional(),
+  proxyUrl: z.string().url("Please enter a valid proxy URL")
+    .refine(url => /^https?:/i.test(url), "Proxy URL must start with http:// or https://")
+    .optional(),
+});
+
+interface AuditOptions {
+  includeTraditionalSeo: boolean;
+  includeGeo: boolean;
+  includeAccessibility: boolean;
+  includeContentSuggestions: boolean;
+  fetchProfile?: FetchProfileSummary | null;
+  performanceBudget?: Partial<PerformanceBudgetLimits>;
+  scoringProfile: ScoringProfile;
+}
+
+const emptyContentSuggestions: ContentSuggestions = {
+  missingKeywords: [],
+  blogTitles: [],
+  contentStructure: [],
+  faqs: [],
+  aiImprovements: []
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const webScraper = new WebScraper();
   const seoAnalyzer = new SeoAnalyzer();
+  const performanceAnalyzer = new PerformanceAnalyzer();
+  const mobileAnalyzer = new MobileAnalyzer();
+  const accessibilityAnalyzer = new AccessibilityAnalyzer();
+  const securityAnalyzer = new SecurityAnalyzer();
+  const aiPolicyAnalyzer = new AiPolicyAnalyzer();
+  const siteCrawler = new SiteCrawler(webScraper);
+  const staticSiteReader = new StaticSiteReader();
+  const fetchProfileVault = new FetchProfileVault();
+
+  // Loads a fetch profile for an audit of the given URL; credentials are only sent to that URL's host
+  const openFetchProfile = async (id: number | undefined, url: string): Promise<{
+    summary: FetchProfileSummary | null;
+    request?: RequestProfile;
+  }> => {
+    if (id === undefined) return { summary: null };
+
+    const profile = await storage.getFetchProfile(id);
+    if (!profile) {
+      throw new Error("Fetch profile not found");
+    }
+    return { summary: fetchProfileVault.summarize(profile), request: fetchProfileVault.open(profile, url) };
+  };
+
+  // Run the analyzers on scraped data and store the resulting report
+  const auditWebsite = async (url: string, websiteData: WebsiteData, options: AuditOptions): Promise<AuditReport> => {
+    const traditionalSeoAnalysis = options.includeTraditionalSeo 
+      ? seoAnalyzer.analyzeTraditionalSeo(websiteData, options.scoringProfile)
+      : { results: [], score: 0, breakdown: null };
+
+    // The performance estimate is part of the technical audit
+    const performanceBudget: PerformanceBudget = {
+      ...DEFAULT_PERFORMANCE_BUDGET,
+      ...options.performanceBudget,
+      ttfbMs: options.scoringProfile.thresholds.ttfbMs,
+      loadTimeMs: options.scoringProfile.thresholds.loadTimeMs,
+    };
+    const performanceAnalysis = options.includeTraditionalSeo
+      ? performanceAnalyzer.analyze(websiteData, performanceBudget)
+      : null;
+
+    const accessibilityAnalysis = options.includeAccessibility ? accessibilityAnalyzer.analyze(websiteData) : null;
+
+    const geoAnalysis = options.includeGeo 
+      ? seoAnalyzer.analyzeGeo(websiteData, options.scoringProfile)
+      : { results: [], score: 0, breakdown: null, analysis: null };
+
+    const contentSuggestions = options.includeContentSuggestions 
+      ? seoAnalyzer.generateContentSuggestions(websiteData, geoAnalysis.score)
+      : emptyContentSuggestions;
+
+    return storage.createAuditReport({
+      url,
+      seoScore: traditionalSeoAnalysis.score,
+      aiScore: geoAnalysis.score,
+      traditionalSeoResults: traditionalSeoAnalysis.results,
+      geoResults: geoAnalysis.results,
+      contentSuggestions,
+      fetchProfile: options.fetchProfile ?? null,
+      altText: options.includeTraditionalSeo ? seoAnalyzer.analyzeAltText(websiteData) : null,
+      performanceScore: performanceAnalysis?.score ?? null,
+      performanceResults: performanceAnalysis?.results ?? null,
+      performanceBudget: performanceAnalysis ? performanceBudget : null,
+      mobileResults: options.includeTraditionalSeo ? mobileAnalyzer.analyze(websiteData) : null,
+      securityResults: options.includeTraditionalSeo ? securityAnalyzer.analyze(websiteData).results : null,
+      accessibilityScore: accessibilityAnalysis?.score ?? null,
+      accessibilityResults: accessibilityAnalysis?.results ?? null,
+      aiAccessPolicy: options.includeGeo ? aiPolicyAnalyzer.summarize(websiteData) : null,
+      scoringProfile: options.scoringProfile,
+      seoScoreBreakdown: traditionalSeoAnalysis.breakdown,
+      aiScoreBreakdown: geoAnalysis.breakdown,
+      geoAnalysis: geoAnalysis.analysis,
+    });
+  };
 
   // Analyze website endpoint
   app.post("/api/analyze", async (req, res) => {
     try {
-      const { url, includeTraditionalSeo, includeGeo, includeContentSuggestions } = 
+      const { url, includeTraditionalSeo, includeGeo, includeAccessibility, includeContentSuggestions, checkLinks, checkImages, measureAssets, checkStylesheets, fetchProfileId, performanceBudget, scoringProfile, scoringOverrides } = 
         analyzeUrlSchema.parse(req.body);
+      const profile = resolveScoringProfile(scoringProfile, scoringOverrides);
+      const fetchProfile = await openFetchProfile(fetchProfileId, url);
 
       // Scrape website data
-      const websiteData = await webScraper.scrapeWebsite(url);
-
-      // Analyze traditional SEO
-      const traditionalSeoAnalysis = includeTraditionalSeo 
-        ? seoAnalyzer.analyzeTraditionalSeo(websiteData)
-        : { results: [], score: 0 };
-
-      // Analyze GEO
-      const geoAnalysis = includeGeo 
-        ? seoAnalyzer.analyzeGeo(websiteData)
-        : { results: [], score: 0 };
-
-      // Generate content suggestions
-      const contentSuggestions = includeContentSuggestions 
-        ? seoAnalyzer.generateContentSuggestions(websiteData, geoAnalysis.score)
-        : {
-            missingKeywords: [],
-            blogTitles: [],
-            contentStructure: [],
-            faqs: [],
-            aiVisibility: { chatgpt: 'low' as const, perplexity: 'low' as const, claude: 'low' as const, bard: 'low' as const },
-            aiImprovements: []
-          };
-
-      // Create audit report
-      const auditReport = await storage.createAuditReport({
-        url,
-        seoScore: traditionalSeoAnalysis.score,
-        aiScore: geoAnalysis.score,
-        traditionalSeoResults: traditionalSeoAnalysis.results,
-        geoResults: geoAnalysis.results,
-        contentSuggestions,
+      const websiteData = await webScraper.scrapeWebsite(url, {
+        checkLinks,
+        checkImages,
+        measureAssets,
+        checkStylesheets,
+        profile: fetchProfile.request,
+      });
+
+      // Analyze and store the audit report
+      const auditReport = await auditWebsite(url, websiteData, {
+        includeTraditionalSeo,
+        includeGeo,
+        includeAccessibility,
+        includeContentSuggestions,
+        fetchProfile: fetchProfile.summary,
+        performanceBudget,
+        scoringProfile: profile,
       });
 
       res.json(auditReport);
     } catch (error) {
       console.error("Analysis error:", error);
+      if (error instanceof NetworkPolicyError) {
+        return res.status(403).json({ message: error.message, code: error.code });
+      }
       res.status(400).json({ 
         message: error instanceof Error ? error.message : "Failed to analyze website" 
       });
     }
   });
 
+  // Analyze pasted HTML before it is published
+  app.post("/api/analyze/html", async (req, res) => {
+    try {
+      const { html, intendedUrl, scoringProfile, scoringOverrides, ...auditOptions } = analyzeHtmlSchema.parse(req.body);
+      const profile = resolveScoringProfile(scoringProfile, scoringOverrides);
+
+      const url = intendedUrl ?? UNPUBLISHED_BASE_URL;
+      const websiteData = webScraper.parseHtml(html, url);
+      const auditReport = await auditWebsite(url, websiteData, { ...auditOptions, scoringProfile: profile });
+
+      res.json(auditReport);
+    } catch (error) {
+      console.error("HTML analysis error:", error);
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze HTML" 
+      });
+    }
+  });
+
+  // Analyze uploaded .html files or a zipped static build as one site
+  app.post("/api/analyze/files", (req, res, next) => {
+    upload.array("files")(req, res, error => {
+      if (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Upload failed" });
+      }
+      next();
+    });
+  }, async (req, res) => {
+    try {
+      const { intendedUrl, scoringProfile, scoringOverrides, ...options } = analyzeFilesSchema.parse(req.body);
+      const auditOptions = { ...options, scoringProfile: resolveScoringProfile(scoringProfile, scoringOverrides) };
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Please upload at least one .html or .zip file" });
+      }
+
+      const baseUrl = intendedUrl ?? UNPUBLISHED_BASE_URL;
+      const { pages, skippedPages } = staticSiteReader.read(
+        files.map(file => ({ name: file.originalname, data: file.buffer })),
+        baseUrl,
+      );
+      if (pages.length === 0) {
+        return res.status(400).json({ message: skippedPages[0]?.details || "No HTML files found in the upload" });
+      }
+
+      const pageReports: AuditReport[] = [];
+      for (const page of pages) {
+        pageReports.push(await auditWebsite(page.url, webScraper.parseHtml(page.html, page.url, page.encoding), auditOptions));
+      }
+
+      const settings = { maxDepth: 0, maxPages: pages.length, includePatterns: [], excludePatterns: [], respectRobotsTxt: false };
+      const crawledPages = pageReports.map(report => ({
+        url: report.url,
+        depth: 0,
+        reportId: report.id,
+        seoScore: report.seoScore,
+        aiScore: report.aiScore,
+      }));
+      const crawlReport = await storage.createSiteCrawlReport(
+        siteCrawler.summarize(baseUrl, settings, crawledPages, pageReports, skippedPages),
+      );
+
+      res.json({ ...crawlReport, pageReports });
+    } catch (error) {
+      console.error("File analysis error:", error);
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze files" 
+      });
+    }
+  });
+
   // Get audit report
   app.get("/api/reports/:id", async (req, res) => {
     try {
@@ -104,105 +403,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Compare two websites
   app.post("/api/compare", async (req, res) => {
     try {
-      const { url1, url2, includeTraditionalSeo, includeGeo, includeContentSuggestions } = 
+      const { url1, url2, fetchProfileId1, fetchProfileId2, includeTraditionalSeo, includeGeo, includeAccessibility, includeContentSuggestions, checkLinks, checkImages, measureAssets, checkStylesheets, performanceBudget, scoringProfile, scoringOverrides } = 
         compareUrlSchema.parse(req.body);
+      const profile = resolveScoringProfile(scoringProfile, scoringOverrides);
+      const [fetchProfile1, fetchProfile2] = await Promise.all([
+        openFetchProfile(fetchProfileId1, url1),
+        openFetchProfile(fetchProfileId2, url2),
+      ]);
 
       // Scrape both websites
+      const scrapeOptions = { checkLinks, checkImages, measureAssets, checkStylesheets };
       const [websiteData1, websiteData2] = await Promise.all([
-        webScraper.scrapeWebsite(url1),
-        webScraper.scrapeWebsite(url2)
+        webScraper.scrapeWebsite(url1, { ...scrapeOptions, profile: fetchProfile1.request }),
+        webScraper.scrapeWebsite(url2, { ...scrapeOptions, profile: fetchProfile2.request })
       ]);
 
-      // Analyze first website
-      const traditionalSeoAnalysis1 = includeTraditionalSeo 
-        ? seoAnalyzer.analyzeTraditionalSeo(websiteData1)
-        : { results: [], score: 0 };
-      
-      const geoAnalysis1 = includeGeo 
-        ? seoAnalyzer.analyzeGeo(websiteData1)
-        : { results: [], score: 0 };
-
-      const contentSuggestions1 = includeContentSuggestions 
-        ? seoAnalyzer.generateContentSuggestions(websiteData1, geoAnalysis1.score)
-        : {
-            missingKeywords: [],
-            blogTitles: [],
-            contentStructure: [],
-            faqs: [],
-            aiVisibility: { chatgpt: 'low' as const, perplexity: 'low' as const, claude: 'low' as const, bard: 'low' as const },
-            aiImprovements: []
-          };
-
-      // Analyze second website
-      const traditionalSeoAnalysis2 = includeTraditionalSeo 
-        ? seoAnalyzer.analyzeTraditionalSeo(websiteData2)
-        : { results: [], score: 0 };
-      
-      const geoAnalysis2 = includeGeo 
-        ? seoAnalyzer.analyzeGeo(websiteData2)
-        : { results: [], score: 0 };
-
-      const contentSuggestions2 = includeContentSuggestions 
-        ? seoAnalyzer.generateContentSuggestions(websiteData2, geoAnalysis2.score)
-        : {
-            missingKeywords: [],
-            blogTitles: [],
-            contentStructure: [],
-            faqs: [],
-            aiVisibility: { chatgpt: 'low' as const, perplexity: 'low' as const, claude: 'low' as const, bard: 'low' as const },
-            aiImprovements: []
-          };
-
-      // Create audit reports
+      // Analyze both websites and store their reports
+      const auditOptions = { includeTraditionalSeo, includeGeo, includeAccessibility, includeContentSuggestions, performanceBudget, scoringProfile: profile };
       const [url1Report, url2Report] = await Promise.all([
-        storage.createAuditReport({
-          url: url1,
-          seoScore: traditionalSeoAnalysis1.score,
-          aiScore: geoAnalysis1.score,
-          traditionalSeoResults: traditionalSeoAnalysis1.results,
-          geoResults: geoAnalysis1.results,
-          contentSuggestions: contentSuggestions1,
-        }),
-        storage.createAuditReport({
-          url: url2,
-          seoScore: traditionalSeoAnalysis2.score,
-          aiScore: geoAnalysis2.score,
-          traditionalSeoResults: traditionalSeoAnalysis2.results,
-          geoResults: geoAnalysis2.results,
-          contentSuggestions: contentSuggestions2,
-        })
+        auditWebsite(url1, websiteData1, { ...auditOptions, fetchProfile: fetchProfile1.summary }),
+        auditWebsite(url2, websiteData2, { ...auditOptions, fetchProfile: fetchProfile2.summary }),
       ]);
 
-      // Analyze AI Platform Visibility for both websites
-      const [url1AiVisibility, url2AiVisibility] = [
-        seoAnalyzer.analyzeAiPlatformVisibility(websiteData1),
-        seoAnalyzer.analyzeAiPlatformVisibility(websiteData2)
-      ];
-
-      // Generate comparison analysis
+      // Generate comparison analysis; GEO factors are on the reports
       const differences = seoAnalyzer.compareWebsites(
         websiteData1, url1Report, 
-        websiteData2, url2Report,
-        url1AiVisibility, url2AiVisibility
+        websiteData2, url2Report
       );
 
       const comparisonResult = {
         url1Report,
         url2Report,
-        url1AiVisibility,
-        url2AiVisibility,
         differences
       };
 
       res.json(comparisonResult);
     } catch (error) {
       console.error("Comparison error:", error);
+      if (error instanceof NetworkPolicyError) {
+        return res.status(403).json({ message: error.message, code: error.code });
+      }
       res.status(400).json({ 
         message: error instanceof Error ? error.message : "Failed to compare websites" 
       });
     }
   });
 
+  // Crawl a site from a seed URL and audit every page found
+  app.post("/api/crawl", async (req, res) => {
+    try {
+      const { url, includeTraditionalSeo, includeGeo, includeAccessibility, includeContentSuggestions, fetchProfileId, performanceBudget, scoringProfile, scoringOverrides, ...settings } =
+        crawlSiteSchema.parse(req.body);
+      const profile = resolveScoringProfile(scoringProfile, scoringOverrides);
+      const fetchProfile = await openFetchProfile(fetchProfileId, url);
+
+      const auditOptions = {
+        includeTraditionalSeo,
+        includeGeo,
+        includeAccessibility,
+        includeContentSuggestions,
+        fetchProfile: fetchProfile.summary,
+        performanceBudget,
+        scoringProfile: profile,
+      };
+      const { report, pageReports } = await siteCrawler.crawl(
+        url,
+        settings,
+        (pageUrl, websiteData) => auditWebsite(pageUrl, websiteData, auditOptions),
+        fetchProfile.request,
+      );
+
+      const crawlReport = await storage.createSiteCrawlReport(report);
+      res.json({ ...crawlReport, pageReports });
+    } catch (error) {
+      console.error("Crawl error:", error);
+      if (error instanceof NetworkPolicyError) {
+        return res.status(403).json({ message: error.message, code: error.code });
+      }
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to crawl website" 
+      });
+    }
+  });
+
+  // Get all site crawl reports
+  app.get("/api/crawls", async (req, res) => {
+    try {
+      const reports = await storage.getAllSiteCrawlReports();
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching crawl reports:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch crawl reports" 
+      });
+    }
+  });
+
+  // Get a site crawl report with its page reports
+  app.get("/api/crawls/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid crawl ID" });
+      }
+      const crawlReport = await storage.getSiteCrawlReport(id);
+      if (!crawlReport) {
+        return res.status(404).json({ message: "Crawl report not found" });
+      }
+      const pageReports = await storage.getAuditReportsByIds(crawlReport.pages.map(page => page.reportId));
+      res.json({ ...crawlReport, pageReports });
+    } catch (error) {
+      console.error("Error fetching crawl report:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to fetch crawl report" 
+      });
+    }
+  });
+
   // Get all audit reports
   app.get("/api/audit-reports", async (req, res) => {
     try {
@@ -253,6 +570,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rules and default weights for the custom scoring profile editor
+  app.get("/api/scoring-rules", (req, res) => {
+    res.json(listScoringRules());
+  });
+
+  // Fetch profiles; secrets are never returned, only header and cookie names
+  app.get("/api/fetch-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.getAllFetchProfiles();
+      res.json(profiles.map(profile => fetchProfileVault.summarize(profile)));
+    } catch (error) {
+      console.error("Error fetching fetch profiles:", error);
+      res.status(500).json({ message: "Failed to fetch profiles" });
+    }
+  });
+
+  app.post("/api/fetch-profiles", async (req, res) => {
+    try {
+      const input = fetchProfileSchema.parse(req.body);
+      // The proxy must pass the same network policy as the sites it is used to reach
+      if (input.proxyUrl) {
+        await networkPolicy.checkUrl(input.proxyUrl);
+      }
+      const existing = await storage.getAllFetchProfiles();
+      if (existing.some(profile => profile.name === input.name)) {
+        return res.status(400).json({ message: `A fetch profile named "${input.name}" already exists` });
+      }
+
+      const profile = await storage.createFetchProfile(fetchProfileVault.seal(input));
+      res.json(fetchProfileVault.summarize(profile));
+    } catch (error) {
+      console.error("Error creating fetch profile:", error instanceof Error ? error.message : error);
+      res.status(400).json({ 
+        message: error instanceof Error ? error.message : "Failed to create fetch profile" 
+      });
+    }
+  });
+
+  app.delete("/api/fetch-profiles/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid fetch profile ID" });
+      }
+
+      const deleted = await storage.deleteFetchProfile(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Fetch profile not found" });
+      }
+      res.json({ id });
+    } catch (error) {
+      console.error("Error deleting fetch profile:", error);
+      res.status(500).json({ message: "Failed to delete fetch profile" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,211 @@
+import type { WebsiteData, TraditionalSeoResult, AccessibilityFinding } from '@shared/schema';
+
+// BCP 47: a 2-3 letter language with optional script, region and variant subtags
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+interface FindingCheck {
+  finding: AccessibilityFinding;
+  type: 'error' | 'warning';
+  title: string;
+  description: string;
+  // Points per occurrence and the most one check can cost
+  perItem: number;
+  max: number;
+}
+
+export class AccessibilityAnalyzer {
+  // Scores the facts the AccessibilityInspector read from the DOM; starts at 100 and deducts per problem
+  analyze(data: WebsiteData): { results: TraditionalSeoResult[]; score: number } {
+    const results: TraditionalSeoResult[] = [];
+    const report = data.accessibility;
+    let score = 100;
+
+    // Document language
+    if (!data.head.lang) {
+      results.push({
+        type: 'error',
+        title: 'Missing document language',
+        description: 'Without <html lang> screen readers guess the language and may read the page with the wrong pronunciation.',
+      });
+      score -= 10;
+    } else if (!LANGUAGE_TAG.test(data.head.lang)) {
+      results.push({
+        type: 'warning',
+        title: 'Invalid document language',
+        description: 'The lang attribute should be a language tag such as "en" or "en-GB".',
+        details: `lang="${data.head.lang}"`,
+      });
+      score -= 5;
+    } else {
+      results.push({
+        type: 'success',
+        title: 'Document language declared',
+        description: 'Screen readers know which language to read the page in.',
+        details: `lang="${data.head.lang}"`,
+      });
+    }
+
+    // Landmark regions
+    const { landmarks } = report;
+    const landmarkProblems = [
+      landmarks.main === 0 && 'no <main> region',
+      landmarks.main > 1 && `${landmarks.main} <main> regions`,
+      landmarks.navigation === 0 && data.links.length >= 10 && 'no <nav> region',
+    ].filter((problem): problem is string => Boolean(problem));
+    if (landmarkProblems.length > 0) {
+      results.push({
+        type: 'warning',
+        title: 'Landmark regions incomplete',
+        description: 'Screen reader users jump between landmarks (<main>, <nav>, <header>, <footer>) to skip repeated content. Every page needs exactly one <main>.',
+        details: landmarkProblems.join(', '),
+        metrics: { 'Main': landmarks.main, 'Navigation': landmarks.navigation, 'Banner': landmarks.banner, 'Content info': landmarks.contentinfo },
+      });
+      score -= landmarks.main === 0 ? 8 : 4;
+    } else {
+      results.push({
+        type: 'success',
+        title: 'Landmark regions present',
+        description: 'The page has a main region for screen reader users to jump to.',
+        metrics: { 'Main': landmarks.main, 'Navigation': landmarks.navigation, 'Banner': landmarks.banner, 'Content info': landmarks.contentinfo },
+      });
+    }
+
+    const missingAlt = data.images.filter(image => !image.hasAlt && !image.decorative);
+    const checks: FindingCheck[] = [
+      {
+        finding: report.headingSkips,
+        type: 'warning',
+        title: 'Heading levels skipped',
+        description: 'Headings should go down one level at a time (h2 then h3), so the outline screen reader users navigate by has no gaps.',
+        perItem: 2,
+        max: 8,
+      },
+      {
+        finding: report.emptyHeadings,
+        type: 'warning',
+        title: 'Empty headings',
+        description: 'Headings without text are announced as blank headings. Remove them or add text.',
+        perItem: 2,
+        max: 6,
+      },
+      {
+        finding: { count: missingAlt.length, samples: missingAlt.slice(0, 5).map(image => image.src) },
+        type: 'error',
+        title: 'Images without alt attribute',
+        description: 'Screen readers read out the file name instead. Describe the image in alt, or use alt="" if it is decorative.',
+        perItem: 3,
+        max: 15,
+      },
+      {
+        finding: report.unlabeledInputs,
+        type: 'error',
+        title: 'Form fields without labels',
+        description: 'Screen reader users hear only "edit text" for these fields. Add a <label for> or aria-label; a placeholder disappears while typing and is not a label.',
+        perItem: 4,
+        max: 15,
+      },
+      {
+        finding: report.unnamedButtons,
+        type: 'error',
+        title: 'Buttons without an accessible name',
+        description: 'Icon-only buttons are announced as just "button". Add text, aria-label or alt text on the icon.',
+        perItem: 4,
+        max: 15,
+      },
+      {
+        finding: report.unnamedLinks,
+        type: 'error',
+        title: 'Links without an accessible name',
+        description: 'These links have no text, so screen readers announce the URL or nothing. Add link text, aria-label or alt text on the image inside.',
+        perItem: 3,
+        max: 12,
+      },
+      {
+        finding: report.duplicateIds,
+        type: 'warning',
+        title: 'Duplicate IDs',
+        description: 'Labels and ARIA references point at the first element with an id, so duplicates break them.',
+        perItem: 1,
+        max: 8,
+      },
+      {
+        finding: report.invalidRoles,
+        type: 'warning',
+        title: 'Invalid ARIA roles',
+        description: 'Unknown roles are ignored, so these elements are announced by their tag instead of the intended role.',
+        perItem: 3,
+        max: 9,
+      },
+      {
+        finding: report.invalidAriaAttributes,
+        type: 'warning',
+        title: 'Unknown ARIA attributes',
+        description: 'These aria-* attributes are not part of WAI-ARIA and have no effect, often because of a typo.',
+        perItem: 2,
+        max: 6,
+      },
+      {
+        finding: report.brokenAriaReferences,
+        type: 'warning',
+        title: 'ARIA references to missing IDs',
+        description: 'aria-labelledby, aria-describedby and aria-controls must name ids that exist on the page; otherwise the label or relationship is lost.',
+        perItem: 3,
+        max: 9,
+      },
+      {
+        finding: report.hiddenFocusable,
+        type: 'error',
+        title: 'Focusable content hidden from screen readers',
+        description: 'aria-hidden="true" hides these from screen readers, but keyboard users can still tab into them and hear nothing. Add tabindex="-1" or remove aria-hidden.',
+        perItem: 4,
+        max: 12,
+      },
+      {
+        finding: report.tablesWithoutHeaders,
+        type: 'warning',
+        title: 'Data tables without header cells',
+        description: 'Without <th> cells screen readers cannot tell which column or row a value belongs to. Use <th scope="col"> for headers, or role="presentation" for layout tables.',
+        perItem: 4,
+        max: 10,
+      },
+      {
+        finding: report.videosWithoutCaptions,
+        type: 'error',
+        title: 'Videos without captions',
+        description: 'Deaf and hard-of-hearing visitors need captions. Add a <track kind="captions"> file.',
+        perItem: 5,
+        max: 10,
+      },
+      {
+        finding: report.audioWithoutTranscript,
+        type: 'warning',
+        title: 'Audio without a transcript',
+        description: 'Provide a text transcript of the audio on the page or linked next to the player.',
+        perItem: 3,
+        max: 6,
+      },
+    ];
+
+    checks.forEach(check => {
+      if (check.finding.count === 0) return;
+      results.push({
+        type: check.type,
+        title: check.title,
+        description: check.description,
+        details: check.finding.samples.join(' · ') + (check.finding.count > check.finding.samples.length ? ` and ${check.finding.count - check.finding.samples.length} more` : ''),
+        metrics: { 'Found': check.finding.count },
+      });
+      score -= Math.min(check.max, check.finding.count * check.perItem);
+    });
+
+    if (checks.every(check => check.finding.count === 0)) {
+      results.push({
+        type: 'success',
+        title: 'No markup accessibility problems found',
+        description: 'Headings, images, forms, buttons, links, IDs, ARIA, tables and media passed the automated checks. Keyboard use and color contrast still need a manual review.',
+      });
+    }
+
+    return { results, score: Math.max(0, Math.round(score)) };
+  }
+}
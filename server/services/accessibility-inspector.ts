@@ -0,0 +1,223 @@
+import type { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { AccessibilityFinding, AccessibilityReport } from '@shared/schema';
+
+const MAX_SAMPLES = 5;
+
+// WAI-ARIA 1.2 roles; DPUB (doc-*) and graphics (graphics-*) roles are accepted by prefix
+const ARIA_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell', 'checkbox', 'code',
+  'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion', 'dialog', 'directory', 'document',
+  'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion', 'link', 'list',
+  'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+  'meter', 'navigation', 'none', 'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region',
+  'row', 'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status', 'strong',
+  'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar',
+  'tooltip', 'tree', 'treegrid', 'treeitem',
+]);
+
+const ARIA_ATTRIBUTES = new Set([
+  'activedescendant', 'atomic', 'autocomplete', 'braillelabel', 'brailleroledescription', 'busy', 'checked', 'colcount',
+  'colindex', 'colindextext', 'colspan', 'controls', 'current', 'describedby', 'description', 'details', 'disabled',
+  'dropeffect', 'errormessage', 'expanded', 'flowto', 'grabbed', 'haspopup', 'hidden', 'invalid', 'keyshortcuts', 'label',
+  'labelledby', 'level', 'live', 'modal', 'multiline', 'multiselectable', 'orientation', 'owns', 'placeholder', 'posinset',
+  'pressed', 'readonly', 'relevant', 'required', 'roledescription', 'rowcount', 'rowindex', 'rowindextext', 'rowspan',
+  'selected', 'setsize', 'sort', 'valuemax', 'valuemin', 'valuenow', 'valuetext',
+]);
+
+// Attributes whose value is a list of ids
+const ID_REFERENCE_ATTRIBUTES = ['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant', 'aria-errormessage', 'aria-details', 'aria-flowto'];
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([type="hidden" i]):not([disabled]), select:not([disabled]), textarea:not([disabled]), iframe, [tabindex]:not([tabindex^="-"]), [contenteditable="true"]';
+// Input types that get their name from a label; buttons are checked separately
+const LABELABLE_INPUTS = 'input:not([type="hidden" i]):not([type="submit" i]):not([type="reset" i]):not([type="button" i]):not([type="image" i]), select, textarea';
+
+export class AccessibilityInspector {
+  // Reads the accessibility-relevant facts from the DOM; the AccessibilityAnalyzer turns them into results and a score
+  inspect($: CheerioAPI): AccessibilityReport {
+    const elementsById = new Map<string, Element[]>();
+    $('[id]').each((_, element) => {
+      const id = $(element).attr('id')!;
+      elementsById.set(id, [...(elementsById.get(id) ?? []), element]);
+    });
+    const name = (element: Element) => this.accessibleName($, element, elementsById);
+    const snippet = (element: Element) => markupSnippet($, element);
+    const visible = (element: Element) => !isHidden($, element);
+
+    return {
+      landmarks: this.countLandmarks($),
+      ...this.inspectHeadings($),
+      unlabeledInputs: collect($(LABELABLE_INPUTS).toArray().filter(visible).filter(element => !this.hasLabel($, element, elementsById)), element =>
+        snippet(element) + ($(element).attr('placeholder') ? ' (placeholder only)' : '')),
+      unnamedButtons: collect($('button, [role="button"], input[type="button" i], input[type="image" i]').toArray()
+        .filter(visible)
+        .filter(element => !name(element)), snippet),
+      unnamedLinks: collect($('a[href], [role="link"]').toArray()
+        .filter(visible)
+        .filter(element => !name(element)), snippet),
+      duplicateIds: collect(Array.from(elementsById.entries()).filter(([, elements]) => elements.length > 1), ([id, elements]) =>
+        `#${id} (${elements.length}×)`),
+      ...this.inspectAria($, elementsById),
+      tablesWithoutHeaders: collect($('table').toArray().filter(element => this.isDataTableWithoutHeaders($, element)), element =>
+        `<table> starting "${$(element).find('tr').first().children().toArray().map(cell => $(cell).text().trim()).join(' | ').slice(0, 60)}"`),
+      ...this.inspectMedia($),
+    };
+  }
+
+  private countLandmarks($: CheerioAPI): AccessibilityReport['landmarks'] {
+    // Headers and footers of articles and sections belong to that content, not the page
+    const pageLevel = (selector: string) => $(selector).filter((_, element) => $(element).parents('article, aside, main, nav, section').length === 0).length;
+    return {
+      main: $('main, [role="main"]').length,
+      navigation: $('nav, [role="navigation"]').length,
+      banner: pageLevel('header') + $('[role="banner"]').not('header').length,
+      contentinfo: pageLevel('footer') + $('[role="contentinfo"]').not('footer').length,
+      complementary: $('aside, [role="complementary"]').length,
+      search: $('search, [role="search"]').length,
+    };
+  }
+
+  private inspectHeadings($: CheerioAPI): Pick<AccessibilityReport, 'headingSkips' | 'emptyHeadings'> {
+    const skips: string[] = [];
+    const empty: Element[] = [];
+    let previousLevel = 0;
+    $('h1, h2, h3, h4, h5, h6').each((_, element) => {
+      const level = parseInt(element.tagName.charAt(1));
+      const text = $(element).text().replace(/\s+/g, ' ').trim() || $(element).find('img[alt]').attr('alt')?.trim() || '';
+      if (!text) {
+        empty.push(element);
+        return;
+      }
+      // Going down more than one level at a time leaves a gap in the outline; going back up is fine
+      if (previousLevel > 0 && level > previousLevel + 1) {
+        skips.push(`h${previousLevel} → h${level}: "${text.slice(0, 60)}"`);
+      }
+      previousLevel = level;
+    });
+    return {
+      headingSkips: collect(skips, skip => skip),
+      emptyHeadings: collect(empty, element => markupSnippet($, element)),
+    };
+  }
+
+  private inspectAria($: CheerioAPI, elementsById: Map<string, Element[]>): Pick<AccessibilityReport, 'invalidRoles' | 'invalidAriaAttributes' | 'brokenAriaReferences' | 'hiddenFocusable'> {
+    const invalidRoles: string[] = [];
+    $('[role]').each((_, element) => {
+      // The first recognized token wins; the rest are fallbacks
+      const roles = ($(element).attr('role') || '').toLowerCase().split(/\s+/).filter(Boolean);
+      if (roles.length > 0 && !roles.some(role => ARIA_ROLES.has(role) || /^(doc|graphics)-[a-z]+$/.test(role))) {
+        invalidRoles.push(`role="${roles.join(' ')}" on ${markupSnippet($, element)}`);
+      }
+    });
+
+    const invalidAttributes: string[] = [];
+    const brokenReferences: string[] = [];
+    $('*').toArray().filter((node): node is Element => 'attribs' in node).forEach(element => {
+      Object.keys(element.attribs).forEach(attribute => {
+        const lower = attribute.toLowerCase();
+        if (!lower.startsWith('aria-')) return;
+        if (!ARIA_ATTRIBUTES.has(lower.slice(5))) {
+          invalidAttributes.push(`${attribute} on ${markupSnippet($, element)}`);
+        } else if (ID_REFERENCE_ATTRIBUTES.includes(lower)) {
+          const missing = element.attribs[attribute].split(/\s+/).filter(id => id && !elementsById.has(id));
+          if (missing.length > 0) brokenReferences.push(`${attribute}="${missing.join(' ')}" on ${markupSnippet($, element)}`);
+        }
+      });
+    });
+
+    // Screen readers skip these, but keyboard users can still tab into them and land on nothing
+    const hiddenFocusable = $('[aria-hidden="true"]').toArray().filter(element => $(element).is(FOCUSABLE) || $(element).find(FOCUSABLE).length > 0);
+
+    return {
+      invalidRoles: collect(invalidRoles, text => text),
+      invalidAriaAttributes: collect(invalidAttributes, text => text),
+      brokenAriaReferences: collect(brokenReferences, text => text),
+      hiddenFocusable: collect(hiddenFocusable, element => markupSnippet($, element)),
+    };
+  }
+
+  private inspectMedia($: CheerioAPI): Pick<AccessibilityReport, 'videosWithoutCaptions' | 'audioWithoutTranscript'> {
+    const source = (element: Element) => $(element).attr('src') || $(element).find('source[src]').attr('src') || `<${element.tagName}>`;
+    // Muted autoplaying videos without controls are background decoration, not content
+    const videos = $('video').toArray().filter(element => {
+      const attribute = (name: string) => $(element).attr(name) !== undefined;
+      const decorative = attribute('autoplay') && attribute('muted') && !attribute('controls');
+      return !decorative && $(element).find('track[kind="captions" i], track[kind="subtitles" i]').length === 0;
+    });
+
+    // Audio cannot carry captions, so a transcript has to be on the page
+    const hasTranscript = /\btranscript/i.test($('body').text());
+    const audio = hasTranscript ? [] : $('audio').toArray().filter(element => $(element).find('track').length === 0);
+
+    return {
+      videosWithoutCaptions: collect(videos, source),
+      audioWithoutTranscript: collect(audio, source),
+    };
+  }
+
+  // aria-labelledby, aria-label, a <label>, or a title
+  private hasLabel($: CheerioAPI, element: Element, elementsById: Map<string, Element[]>): boolean {
+    const $element = $(element);
+    if (referencedText($, $element.attr('aria-labelledby'), elementsById) || $element.attr('aria-label')?.trim() || $element.attr('title')?.trim()) {
+      return true;
+    }
+    const id = $element.attr('id');
+    const explicit = id ? $('label[for]').filter((_, label) => $(label).attr('for') === id).text().trim() : '';
+    return Boolean(explicit || $element.closest('label').text().trim());
+  }
+
+  // A simplified accessible name computation: labelledby, label, text content (with image alts), then title
+  private accessibleName($: CheerioAPI, element: Element, elementsById: Map<string, Element[]>): string {
+    const $element = $(element);
+    const fromAttributes = referencedText($, $element.attr('aria-labelledby'), elementsById) || $element.attr('aria-label')?.trim();
+    if (fromAttributes) return fromAttributes;
+
+    if (element.tagName === 'input') {
+      return ($element.attr('type')?.toLowerCase() === 'image' ? $element.attr('alt') : $element.attr('value'))?.trim() || $element.attr('title')?.trim() || '';
+    }
+
+    const text = $element.text().replace(/\s+/g, ' ').trim();
+    const alts = $element.find('img[alt], [aria-label]').toArray()
+      .map(child => ($(child).attr('alt') ?? $(child).attr('aria-label') ?? '').trim())
+      .join(' ')
+      .trim();
+    return text || alts || $element.attr('title')?.trim() || '';
+  }
+
+  // Real tables with more than one row and column, but no header cells
+  private isDataTableWithoutHeaders($: CheerioAPI, element: Element): boolean {
+    const $table = $(element);
+    const role = ($table.attr('role') || '').toLowerCase();
+    if (role === 'presentation' || role === 'none') return false;
+    const rows = $table.find('tr').filter((_, row) => $(row).closest('table').is($table));
+    const columns = Math.max(0, ...rows.toArray().map(row => $(row).children('td, th').length));
+    if (rows.length < 2 || columns < 2) return false;
+    return $table.find('th, [role="columnheader"], [role="rowheader"]').length === 0;
+  }
+}
+
+function collect<T>(items: T[], describe: (item: T) => string): AccessibilityFinding {
+  return { count: items.length, samples: items.slice(0, MAX_SAMPLES).map(describe) };
+}
+
+function referencedText($: CheerioAPI, ids: string | undefined, elementsById: Map<string, Element[]>): string {
+  return (ids || '').split(/\s+/)
+    .map(id => elementsById.get(id)?.[0])
+    .filter((element): element is Element => element !== undefined)
+    .map(element => $(element).text().replace(/\s+/g, ' ').trim())
+    .join(' ')
+    .trim();
+}
+
+// Hidden by an attribute or inline style on the element or an ancestor; CSS classes are not evaluated
+function isHidden($: CheerioAPI, element: Element): boolean {
+  if ($(element).closest('[hidden], [aria-hidden="true"], template, noscript').length > 0) return true;
+  return $(element).parents().addBack().toArray().some(node => /display\s*:\s*none|visibility\s*:\s*hidden/i.test($(node).attr('style') || ''));
+}
+
+// Opening tag only, shortened, e.g. '<a href="/cart" class="icon">'
+function markupSnippet($: CheerioAPI, element: Element): string {
+  const html = ($.html(element) || '').replace(/\s+/g, ' ');
+  const openingTag = html.slice(0, html.indexOf('>') + 1) || html;
+  return openingTag.length > 120 ? openingTag.slice(0, 117) + '…' : openingTag;
+}
@@ -0,0 +1,217 @@
+import type { WebsiteData, AiAccessPolicy, AiPolicySignal, AiPolicyStance, CrawlerAccess } from '@shared/schema';
+import { pathMatches } from './robots-txt';
+
+const STANCE_LABELS: Record<AiAccessPolicy['training'], string> = {
+  allow: 'allowed',
+  restrict: 'blocked',
+  partial: 'partly allowed',
+  unset: 'not stated',
+  mixed: 'stated inconsistently',
+};
+
+const listCrawlers = (crawlers: CrawlerAccess[]) => crawlers.map(crawler => crawler.crawler).join(', ');
+
+// Blocked when none may crawl, partial when only some may
+function crawlerStance(crawlers: CrawlerAccess[]): AiPolicyStance {
+  const blocked = crawlers.filter(crawler => !crawler.allowed).length;
+  if (blocked === 0) return 'allow';
+  return blocked === crawlers.length ? 'restrict' : 'partial';
+}
+
+export class AiPolicyAnalyzer {
+  // Reads robots.txt, llms.txt, ai.txt, noai directives and TDMRep together and lists where they disagree
+  summarize(data: WebsiteData): AiAccessPolicy {
+    const signals: AiPolicySignal[] = [
+      ...this.robotsTxtSignals(data),
+      this.noaiSignal(data),
+      ...this.tdmSignals(data),
+      ...this.fileSignals(data),
+    ];
+
+    const overall = (scope: AiPolicySignal['scope']): AiAccessPolicy['training'] => {
+      const stances = Array.from(new Set(signals
+        .filter(signal => signal.scope === scope && signal.stance !== 'unset')
+        .map(signal => signal.stance)));
+      if (stances.length === 0) return 'unset';
+      return stances.length === 1 ? stances[0] : 'mixed';
+    };
+    const training = overall('training');
+    const answers = overall('answers');
+
+    return {
+      training,
+      answers,
+      summary: `AI training ${STANCE_LABELS[training]}; AI search and assistants ${STANCE_LABELS[answers]}.`,
+      signals,
+      conflicts: this.findConflicts(data, signals),
+    };
+  }
+
+  private robotsTxtSignals(data: WebsiteData): AiPolicySignal[] {
+    const { robotsTxt } = data;
+    // Pasted HTML has no site to read robots.txt from
+    if (!robotsTxt) return [];
+
+    if (robotsTxt.status === 'unreachable') {
+      const detail = 'robots.txt could not be fetched, so crawlers treat the whole site as disallowed';
+      return [
+        { source: 'robots.txt', scope: 'training', stance: 'restrict', detail },
+        { source: 'robots.txt', scope: 'answers', stance: 'restrict', detail },
+      ];
+    }
+
+    const describe = (crawlers: CrawlerAccess[]) => {
+      if (robotsTxt.status === 'not_found') return 'No robots.txt, so every crawler may fetch the page';
+      const allowed = crawlers.filter(crawler => crawler.allowed);
+      const blocked = crawlers.filter(crawler => !crawler.allowed);
+      const parts = [
+        blocked.length > 0 && `blocks ${listCrawlers(blocked)}`,
+        allowed.length > 0 && `allows ${listCrawlers(allowed)}`,
+      ].filter(Boolean).join(' · ');
+      return parts.charAt(0).toUpperCase() + parts.slice(1);
+    };
+
+    const trainingCrawlers = robotsTxt.crawlers.filter(crawler => crawler.purpose === 'ai-training');
+    const answerCrawlers = robotsTxt.crawlers.filter(crawler => crawler.purpose === 'ai-search' || crawler.purpose === 'ai-assistant');
+    return [
+      { source: 'robots.txt', scope: 'training', stance: crawlerStance(trainingCrawlers), detail: describe(trainingCrawlers) },
+      { source: 'robots.txt', scope: 'answers', stance: crawlerStance(answerCrawlers), detail: describe(answerCrawlers) },
+    ];
+  }
+
+  // noai and noimageai are read from robots meta tags and the X-Robots-Tag header
+  private noaiSignal(data: WebsiteData): AiPolicySignal {
+    const places: Array<{ place: string; directives: string[] }> = [
+      ...data.head.robotsMeta.map(meta => ({ place: `<meta name="${meta.name}">`, directives: meta.content.toLowerCase().split(/[\s,]+/) })),
+      { place: 'X-Robots-Tag header', directives: (data.http?.xRobotsTag ?? '').toLowerCase().split(/[\s,:]+/) },
+    ];
+    const noai = places.filter(place => place.directives.includes('noai'));
+    const noimageai = places.filter(place => place.directives.includes('noimageai'));
+
+    if (noai.length > 0) {
+      return {
+        source: 'noai directive',
+        scope: 'training',
+        stance: 'restrict',
+        detail: `noai${noimageai.length > 0 ? ', noimageai' : ''} in ${noai.map(place => place.place).join(' and ')}`,
+      };
+    }
+    if (noimageai.length > 0) {
+      return {
+        source: 'noai directive',
+        scope: 'training',
+        stance: 'partial',
+        detail: `noimageai (images only) in ${noimageai.map(place => place.place).join(' and ')}`,
+      };
+    }
+    return { source: 'noai directive', scope: 'training', stance: 'unset', detail: 'No noai or noimageai directive' };
+  }
+
+  private tdmSignals(data: WebsiteData): AiPolicySignal[] {
+    const signals: AiPolicySignal[] = [];
+    const stanceOf = (reservation: string | number): AiPolicyStance => String(reservation) === '1' ? 'restrict' : String(reservation) === '0' ? 'allow' : 'unset';
+    const describe = (reservation: string | number, policy: string) => String(reservation) === '1'
+      ? `Text and data mining rights reserved${policy ? `; licence terms at ${policy}` : ''}`
+      : 'Text and data mining rights not reserved';
+
+    // The HTTP header takes precedence over the meta tag
+    const fromHeader = Boolean(data.http?.tdmReservation);
+    const reservation = (data.http?.tdmReservation || data.head.tdmReservation).trim();
+    const policy = (fromHeader ? data.http?.tdmPolicy : data.head.tdmPolicy) ?? '';
+    if (reservation) {
+      const stance = stanceOf(reservation);
+      signals.push({
+        source: fromHeader ? 'TDM-Reservation header' : 'tdm-reservation meta tag',
+        scope: 'training',
+        stance,
+        detail: stance === 'unset' ? `Unrecognized value "${reservation}" (use 1 or 0)` : describe(reservation, policy),
+      });
+    } else {
+      signals.push({ source: 'TDM-Reservation header', scope: 'training', stance: 'unset', detail: 'No TDM-Reservation header or meta tag' });
+    }
+
+    const tdmRep = data.aiPolicyFiles?.tdmRep;
+    if (tdmRep) {
+      const path = new URL(data.http?.finalUrl ?? data.url).pathname;
+      const entry = tdmRep.entries.find(rule => pathMatches(rule.location, path));
+      signals.push({
+        source: 'tdmrep.json',
+        scope: 'training',
+        stance: entry ? stanceOf(entry.reservation) : 'unset',
+        detail: entry
+          ? `${describe(entry.reservation, entry.policy)} (rule for ${entry.location})`
+          : tdmRep.status !== 'found' ? 'No /.well-known/tdmrep.json' : tdmRep.error ?? 'No rule covers this page',
+      });
+    }
+
+    return signals;
+  }
+
+  private fileSignals(data: WebsiteData): AiPolicySignal[] {
+    const files = data.aiPolicyFiles;
+    if (!files) return [];
+
+    const { aiTxt, llmsTxt, llmsFullTxt } = files;
+    const optsOutEverything = aiTxt.allowed.length === 0 && aiTxt.disallowed.some(path => path === '/' || path === '*' || path === '/*');
+    const aiTxtSignal: AiPolicySignal = aiTxt.status !== 'found'
+      ? { source: 'ai.txt', scope: 'training', stance: 'unset', detail: 'No /ai.txt' }
+      : aiTxt.disallowed.length === 0
+        ? { source: 'ai.txt', scope: 'training', stance: 'allow', detail: 'Allows AI training on all content' }
+        : {
+          source: 'ai.txt',
+          scope: 'training',
+          stance: optsOutEverything ? 'restrict' : 'partial',
+          detail: optsOutEverything
+            ? 'Disallows AI training on all content'
+            : `Disallows ${aiTxt.disallowed.slice(0, 5).join(', ')}${aiTxt.allowed.length > 0 ? ` · allows ${aiTxt.allowed.slice(0, 5).join(', ')}` : ''}`,
+        };
+
+    return [
+      aiTxtSignal,
+      llmsTxt.status === 'found'
+        ? {
+          source: 'llms.txt',
+          scope: 'answers',
+          stance: 'allow',
+          detail: `${llmsTxt.title ? `"${llmsTxt.title}": ` : ''}${llmsTxt.linkCount} ${llmsTxt.linkCount === 1 ? 'link' : 'links'} in ${llmsTxt.sections.length} ${llmsTxt.sections.length === 1 ? 'section' : 'sections'}${llmsTxt.problems.length > 0 ? ` · ${llmsTxt.problems.length} format ${llmsTxt.problems.length === 1 ? 'problem' : 'problems'}` : ''}`,
+        }
+        : { source: 'llms.txt', scope: 'answers', stance: 'unset', detail: 'No /llms.txt' },
+      llmsFullTxt.status === 'found'
+        ? { source: 'llms-full.txt', scope: 'answers', stance: 'allow', detail: `${Math.round(llmsFullTxt.bytes / 1024)} KB of documentation for LLMs` }
+        : { source: 'llms-full.txt', scope: 'answers', stance: 'unset', detail: 'No /llms-full.txt' },
+    ];
+  }
+
+  private findConflicts(data: WebsiteData, signals: AiPolicySignal[]): string[] {
+    const conflicts: string[] = [];
+    const crawlers = data.robotsTxt?.status === 'found' || data.robotsTxt?.status === 'not_found' ? data.robotsTxt.crawlers : [];
+    const trainingCrawlers = crawlers.filter(crawler => crawler.purpose === 'ai-training');
+    const answerCrawlers = crawlers.filter(crawler => crawler.purpose === 'ai-search' || crawler.purpose === 'ai-assistant');
+
+    const training = signals.filter(signal => signal.scope === 'training');
+    const robots = training.find(signal => signal.source === 'robots.txt');
+    const optOuts = training.filter(signal => signal.source !== 'robots.txt' && signal.stance === 'restrict');
+    const optIns = training.filter(signal => signal.source !== 'robots.txt' && signal.stance === 'allow');
+
+    // Opt-outs only work for crawlers that read them; the others are only stopped by robots.txt
+    const stillCrawling = trainingCrawlers.filter(crawler => crawler.allowed);
+    if (optOuts.length > 0 && stillCrawling.length > 0) {
+      conflicts.push(`${optOuts.map(signal => signal.source).join(' and ')} ${optOuts.length === 1 ? 'opts' : 'opt'} out of AI training, but robots.txt still lets ${listCrawlers(stillCrawling)} crawl the page. Block them in robots.txt too.`);
+    }
+    if (robots?.stance === 'restrict') {
+      optIns.forEach(signal => conflicts.push(`robots.txt blocks AI training crawlers, but ${signal.source} permits training (${signal.detail.toLowerCase()}).`));
+    }
+    optOuts.forEach(optOut => optIns.forEach(optIn => {
+      conflicts.push(`${optOut.source} reserves the content from AI training, but ${optIn.source} permits it.`);
+    }));
+
+    // llms.txt invites AI tools to use the site, which they cannot do if robots.txt shuts their fetchers out
+    const invitations = signals.filter(signal => signal.scope === 'answers' && signal.source !== 'robots.txt' && signal.stance === 'allow');
+    const blockedAnswers = answerCrawlers.filter(crawler => !crawler.allowed);
+    if (invitations.length > 0 && blockedAnswers.length > 0) {
+      conflicts.push(`${invitations.map(signal => signal.source).join(' and ')} ${invitations.length === 1 ? 'offers' : 'offer'} the site to AI tools, but robots.txt blocks ${listCrawlers(blockedAnswers)}, which ${blockedAnswers.length === 1 ? 'fetches' : 'fetch'} pages for AI answers.`);
+    }
+
+    return conflicts;
+  }
+}
@@ -0,0 +1,205 @@
+import type { AiPolicyFiles, AiTxtReport, LlmsTxtReport, PolicyFileStatus, TdmRepEntry, TdmRepReport } from '@shared/schema';
+import { fetchWithRedirects, readPrefix, type RequestProfile } from './http-client';
+import { RobotsTxt } from './robots-txt';
+
+const TIMEOUT_MS = 10000;
+// llms-full.txt inlines whole documentation sites; the structure check only needs the start
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_PROBLEMS = 10;
+
+const LINK_ITEM = /^[-*+]\s+\[([^\]]+)\]\(([^)\s]+)\)(\s*:.*)?$/;
+const LIST_ITEM = /^[-*+]\s+/;
+
+interface FetchedFile {
+  status: PolicyFileStatus;
+  body: string;
+}
+
+export class AiPolicyFileLoader {
+  // Fetches the site-wide AI usage files next to robots.txt; they belong to the host, so a crawl loads them once
+  async load(url: string, profile?: RequestProfile): Promise<AiPolicyFiles> {
+    const [llmsTxt, llmsFullTxt, aiTxt, tdmRep] = await Promise.all([
+      this.fetchFile(new URL('/llms.txt', url).toString(), profile),
+      this.fetchFile(new URL('/llms-full.txt', url).toString(), profile),
+      this.fetchFile(new URL('/ai.txt', url).toString(), profile),
+      this.fetchFile(new URL('/.well-known/tdmrep.json', url).toString(), profile),
+    ]);
+
+    return {
+      llmsTxt: { ...llmsTxt.status, ...parseLlmsTxt(llmsTxt.body, false) },
+      llmsFullTxt: { ...llmsFullTxt.status, ...parseLlmsTxt(llmsFullTxt.body, true) },
+      aiTxt: { ...aiTxt.status, ...parseAiTxt(aiTxt.body) },
+      tdmRep: { ...tdmRep.status, ...parseTdmRep(tdmRep.status.status === 'found' ? tdmRep.body : null) },
+    };
+  }
+
+  private async fetchFile(url: string, profile?: RequestProfile): Promise<FetchedFile> {
+    try {
+      const { response } = await fetchWithRedirects(url, {
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }, profile);
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        const status = response.status >= 400 && response.status < 500 && response.status !== 429 ? 'not_found' : 'unreachable';
+        return { status: { url, status, statusCode: response.status }, body: '' };
+      }
+
+      const body = (await readPrefix(response, MAX_FILE_BYTES)).bytes.toString('utf8');
+      // Many sites answer every path with their HTML app shell or a "page not found" page
+      if (/html/i.test(response.headers.get('content-type') || '') || /^\s*</.test(body)) {
+        return { status: { url, status: 'not_found', statusCode: response.status }, body: '' };
+      }
+      return { status: { url, status: 'found', statusCode: response.status }, body };
+    } catch (error) {
+      return { status: { url, status: 'unreachable' }, body: '' };
+    }
+  }
+}
+
+// Checks a llms.txt against the llmstxt.org format; llms-full.txt has no fixed layout beyond the opening title
+export function parseLlmsTxt(body: string, full: boolean): Omit<LlmsTxtReport, keyof PolicyFileStatus> {
+  const report: Omit<LlmsTxtReport, keyof PolicyFileStatus> = {
+    bytes: Buffer.byteLength(body),
+    title: '',
+    summary: '',
+    sections: [],
+    linkCount: 0,
+    problems: [],
+  };
+  if (!body.trim()) return report;
+
+  const problem = (text: string) => {
+    if (report.problems.length < MAX_PROBLEMS) report.problems.push(text);
+  };
+
+  const lines = body.split(/\r\n|\r|\n/);
+  const firstIndex = lines.findIndex(line => line.trim());
+  const firstLine = lines[firstIndex].trim();
+  if (/^#\s+\S/.test(firstLine)) {
+    report.title = firstLine.replace(/^#\s+/, '');
+  } else {
+    problem('The file does not start with an H1 title ("# Project name")');
+  }
+  if (full) return report;
+
+  let inCodeBlock = false;
+  let beforeSections = true;
+  let summaryAllowed = true;
+  let badItems = 0;
+  let badItemSample = '';
+  const headings: string[] = [];
+
+  for (const rawLine of lines.slice(firstIndex + 1)) {
+    const line = rawLine.trim();
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || !line) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      summaryAllowed = false;
+      if (level === 1) {
+        problem(`More than one H1 title: "${heading[2]}"`);
+      } else if (level === 2) {
+        beforeSections = false;
+        report.sections.push({ title: heading[2].trim(), links: 0 });
+      } else if (beforeSections) {
+        headings.push(heading[0]);
+      }
+      continue;
+    }
+
+    // The summary is the blockquote straight after the title
+    if (line.startsWith('>')) {
+      if (summaryAllowed) {
+        report.summary = (report.summary + ' ' + line.replace(/^>\s*/, '')).trim();
+      }
+      continue;
+    }
+    summaryAllowed = false;
+
+    const section = report.sections[report.sections.length - 1];
+    if (!section || !LIST_ITEM.test(line)) continue;
+
+    const link = line.match(LINK_ITEM);
+    if (!link) {
+      badItems++;
+      badItemSample = badItemSample || line;
+      continue;
+    }
+    try {
+      new URL(link[2], 'https://example.com/');
+      section.links++;
+      report.linkCount++;
+    } catch {
+      problem(`Invalid link URL: ${link[2]}`);
+    }
+  }
+
+  if (report.title && !report.summary) {
+    problem('No "> summary" blockquote after the title');
+  }
+  if (headings.length > 0) {
+    problem(`Headings before the first H2 section are not allowed: ${headings.slice(0, 3).join(', ')}`);
+  }
+  if (report.sections.length === 0) {
+    problem('No "## Section" headings with link lists');
+  }
+  report.sections
+    .filter(section => section.links === 0)
+    .forEach(section => problem(`Section "${section.title}" has no links`));
+  if (badItems > 0) {
+    problem(`${badItems} list ${badItems === 1 ? 'item is not a' : 'items are not'} "[name](url): notes" ${badItems === 1 ? 'link' : 'links'}, e.g. ${badItemSample}`);
+  }
+
+  return report;
+}
+
+// ai.txt uses robots.txt syntax; the rules of the * group apply to every AI crawler
+export function parseAiTxt(body: string): Omit<AiTxtReport, keyof PolicyFileStatus> {
+  const group = RobotsTxt.parse(body).groups.find(group => group.userAgents.includes('*'));
+  const rules = group?.rules.filter(rule => rule.path) ?? [];
+  return {
+    disallowed: rules.filter(rule => rule.type === 'disallow').map(rule => rule.path),
+    allowed: rules.filter(rule => rule.type === 'allow').map(rule => rule.path),
+  };
+}
+
+// tdmrep.json is an array of { location, tdm-reservation, tdm-policy } rules
+export function parseTdmRep(body: string | null): Omit<TdmRepReport, keyof PolicyFileStatus> {
+  if (body === null) return { entries: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { entries: [], error: 'The file is not valid JSON' };
+  }
+  if (!Array.isArray(parsed)) {
+    return { entries: [], error: 'The file must contain a JSON array of rules' };
+  }
+
+  const entries: TdmRepEntry[] = [];
+  let invalid = 0;
+  parsed.forEach(item => {
+    const rule = item as Record<string, unknown>;
+    const reservation = Number(rule?.['tdm-reservation']);
+    if (typeof rule?.location !== 'string' || (reservation !== 0 && reservation !== 1)) {
+      invalid++;
+      return;
+    }
+    entries.push({
+      location: rule.location,
+      reservation,
+      policy: typeof rule['tdm-policy'] === 'string' ? rule['tdm-policy'] : '',
+    });
+  });
+
+  return invalid > 0
+    ? { entries, error: `${invalid} ${invalid === 1 ? 'rule lacks' : 'rules lack'} a location or a tdm-reservation of 0 or 1` }
+    : { entries };
+}
@@ -0,0 +1,145 @@
+import type { AltTextImage, AltTextIssue, AltTextReport, ImageElement } from '@shared/schema';
+import { tokenize } from './text-language';
+
+// Screen readers announce long alt text in one breath; around 125 characters is the usual limit
+const MAX_ALT_LENGTH = 125;
+// The same alt text on this many different files means it was copied rather than written per image
+const DUPLICATE_THRESHOLD = 3;
+const MAX_FLAGGED_IMAGES = 50;
+const WORD = new RegExp('^\\p{L}{2,}$', 'u');
+
+// Alt values that say nothing about the image, in the languages we see most
+const GENERIC_ALT = new Set([
+  'image', 'img', 'picture', 'pic', 'photo', 'photograph', 'graphic', 'icon', 'logo', 'banner', 'thumbnail', 'thumb',
+  'placeholder', 'spacer', 'untitled', 'alt', 'alt text', 'default', 'hero', 'header', 'slider', 'slide', 'image 1',
+  'click here', 'read more', 'more', 'foto', 'imagen', 'bild', 'grafik', 'immagine', 'imagem', 'छवि', 'तस्वीर', '画像', '图片',
+]);
+
+// Screen readers already say "image", so these openings repeat it
+const REDUNDANT_PREFIX = /^(an?\s+)?(image|picture|photo|photograph|graphic|icon)\s+(of|showing|with)\s+/i;
+
+// Camera and screenshot names, or anything with a file extension
+const FILENAME_ALT = [
+  /\.(jpe?g|png|gif|webp|avif|svg|bmp|tiff?|heic)$/i,
+  /^(img|image|dsc|dscn|dscf|pxl|photo|screenshot|screen shot|whatsapp image|capture)[\s_-]*\d/i,
+  /^[\w-]*\d{3,}[\w-]*$/,
+  /^[a-z0-9]+([_-][a-z0-9]+){2,}$/i,
+];
+
+export class AltTextAnalyzer {
+  analyze(images: ImageElement[]): AltTextReport {
+    const contentImages = images.filter(image => !image.decorative);
+
+    // Count distinct files per alt text to find text pasted across images
+    const filesByAlt = new Map<string, Set<string>>();
+    contentImages.filter(image => image.hasAlt).forEach(image => {
+      const key = normalize(image.alt);
+      filesByAlt.set(key, (filesByAlt.get(key) ?? new Set()).add(image.src));
+    });
+
+    const reviewed = contentImages.map(image => this.review(image, (filesByAlt.get(normalize(image.alt))?.size ?? 0) >= DUPLICATE_THRESHOLD));
+    const flagged = reviewed.filter(image => image.issues.length > 0);
+
+    const issueCounts: AltTextReport['issueCounts'] = {};
+    flagged.forEach(image => image.issues.forEach(issue => {
+      issueCounts[issue] = (issueCounts[issue] ?? 0) + 1;
+    }));
+
+    return {
+      totalImages: images.length,
+      decorativeImages: images.length - contentImages.length,
+      contentImages: contentImages.length,
+      flaggedImages: flagged.slice(0, MAX_FLAGGED_IMAGES),
+      flaggedCount: flagged.length,
+      issueCounts,
+    };
+  }
+
+  private review(image: ImageElement, duplicated: boolean): AltTextImage {
+    const alt = image.alt.replace(/\s+/g, ' ').trim();
+    const issues: AltTextIssue[] = [];
+
+    if (!image.hasAlt) {
+      issues.push('missing');
+    } else {
+      if (isFilenameLike(alt, image.src)) issues.push('filename');
+      else if (GENERIC_ALT.has(normalize(alt))) issues.push('generic');
+      if (REDUNDANT_PREFIX.test(alt)) issues.push('redundant_prefix');
+      if (duplicated) issues.push('duplicate');
+      if (alt.length > MAX_ALT_LENGTH) issues.push('too_long');
+      if (isStuffed(alt)) issues.push('stuffed');
+    }
+
+    return {
+      src: image.src.startsWith('data:') ? image.src.slice(0, 40) + '…' : image.src,
+      alt,
+      issues,
+      suggestion: issues.length > 0 ? this.suggest(image, alt, issues) : '',
+    };
+  }
+
+  // Prefers text written by a person for this image (caption, title), then a readable file name, then the heading it sits under
+  private suggest(image: ImageElement, alt: string, issues: AltTextIssue[]): string {
+    // Alt text that only has a redundant opening or is too long can be fixed in place
+    const fixable = issues.every(issue => issue === 'redundant_prefix' || issue === 'too_long');
+    if (fixable) {
+      return shorten(capitalize(alt.replace(REDUNDANT_PREFIX, '')));
+    }
+
+    const candidates = [image.caption, image.title, describeFileName(image.src), image.heading]
+      .map(text => text.replace(/\s+/g, ' ').trim())
+      .filter(text => text && !isFilenameLike(text, image.src) && !GENERIC_ALT.has(normalize(text)) && normalize(text) !== normalize(alt));
+    return candidates.length > 0 ? shorten(capitalize(candidates[0])) : '';
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function isFilenameLike(alt: string, src: string): boolean {
+  const baseName = fileBaseName(src);
+  if (baseName && normalize(alt) === normalize(baseName)) return true;
+  return FILENAME_ALT.some(pattern => pattern.test(alt)) && !/\s\S+\s/.test(alt);
+}
+
+// Repeated words or a bare list of search terms
+function isStuffed(alt: string): boolean {
+  const words = tokenize(alt).filter(word => word.length > 2);
+  const counts = new Map<string, number>();
+  words.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+  if (Array.from(counts.values()).some(count => count >= 3)) return true;
+
+  const parts = alt.split(/\s*[,|;]\s*/).filter(Boolean);
+  const averageWords = parts.reduce((sum, part) => sum + part.split(/\s+/).length, 0) / Math.max(parts.length, 1);
+  return parts.length >= 4 && averageWords <= 3;
+}
+
+function fileBaseName(src: string): string {
+  if (src.startsWith('data:')) return '';
+  const path = src.split(/[?#]/)[0];
+  try {
+    return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1)).replace(/\.[a-z0-9]+$/i, '');
+  } catch {
+    return '';
+  }
+}
+
+// "red-running-shoes_800x600.jpg" → "red running shoes"; names made of codes and numbers give nothing
+function describeFileName(src: string): string {
+  const words = fileBaseName(src)
+    .split(/[\s_\-.+]+/)
+    .filter(word => WORD.test(word) && !/^(img|dsc|dscn|pxl|image|photo|final|copy|edit|web|large|small|thumb|scaled)$/i.test(word));
+  return words.length >= 2 ? words.join(' ').toLowerCase() : '';
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Cuts at the last word boundary before the limit
+function shorten(text: string): string {
+  if (text.length <= MAX_ALT_LENGTH) return text;
+  const cut = text.slice(0, MAX_ALT_LENGTH);
+  return cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : MAX_ALT_LENGTH).replace(/[\s,;:.-]+$/, '');
+}
@@ -0,0 +1,53 @@
+import type { AssetWeight, PageResource } from '@shared/schema';
+import { fetchWithRedirects, readBody, describeFetchError, mapWithConcurrency, type RequestProfile } from './http-client';
+
+const MAX_ASSETS = 60;
+const CONCURRENCY = 6;
+const TIMEOUT_MS = 10000;
+
+export class AssetMeter {
+  // Measures the scripts and stylesheets a page loads; HEAD is enough when the server sends Content-Length
+  async measure(resources: PageResource[], profile?: RequestProfile): Promise<AssetWeight[]> {
+    const unique = resources.filter((resource, index) => resources.findIndex(other => other.url === resource.url) === index);
+    const weights: AssetWeight[] = unique.slice(0, MAX_ASSETS).map(resource => ({
+      url: resource.url,
+      type: resource.type,
+      statusCode: null,
+      bytes: null,
+    }));
+
+    await mapWithConcurrency(weights, CONCURRENCY, weight => this.measureAsset(weight, profile));
+
+    return weights;
+  }
+
+  private async measureAsset(weight: AssetWeight, profile?: RequestProfile): Promise<void> {
+    try {
+      const head = await fetchWithRedirects(weight.url, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }, profile);
+      await head.response.body?.cancel();
+
+      const contentLength = parseInt(head.response.headers.get('content-length') || '');
+      if (head.response.ok && !isNaN(contentLength)) {
+        weight.statusCode = head.response.status;
+        weight.bytes = contentLength;
+        return;
+      }
+
+      // No size in the headers (or HEAD not supported): download the file and count
+      const { response } = await fetchWithRedirects(weight.url, {
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }, profile);
+      weight.statusCode = response.status;
+      if (response.ok) {
+        weight.bytes = (await readBody(response)).length;
+      } else {
+        await response.body?.cancel();
+      }
+    } catch (error) {
+      weight.error = describeFetchError(error);
+    }
+  }
+}
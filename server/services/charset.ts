@@ -0,0 +1,73 @@
+import type { EncodingDetails } from '@shared/schema';
+
+// Browsers only look for <meta charset> in the first 1024 bytes
+const META_PRESCAN_BYTES = 1024;
+
+// Decodes an HTML document the way browsers pick its encoding: byte order mark, then the
+// Content-Type charset, then <meta charset>, falling back to UTF-8 (or windows-1252 when the bytes are not valid UTF-8)
+export function decodeHtml(bytes: Uint8Array, contentType: string | null): { html: string; encoding: EncodingDetails } {
+  const headerCharset = contentType?.match(/charset\s*=\s*["']?([^"';\s]+)/i)?.[1] ?? null;
+  const metaCharset = findMetaCharset(bytes);
+  const details = { headerCharset, metaCharset, decodeErrors: 0 };
+
+  const bom = detectBom(bytes);
+  if (bom) {
+    return decodeWith(bytes.subarray(bom.length), bom.charset, 'bom', details);
+  }
+
+  const fromHeader = headerCharset && normalizeCharset(headerCharset);
+  if (fromHeader) {
+    return decodeWith(bytes, fromHeader, 'content-type', details);
+  }
+
+  // A <meta> claiming UTF-16 cannot be right, since it was readable as ASCII
+  const fromMeta = metaCharset && normalizeCharset(metaCharset);
+  if (fromMeta) {
+    return decodeWith(bytes, fromMeta.startsWith('utf-16') ? 'utf-8' : fromMeta, 'meta', details);
+  }
+
+  try {
+    const html = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { html, encoding: { charset: 'utf-8', source: 'default', ...details } };
+  } catch {
+    return decodeWith(bytes, 'windows-1252', 'default', details);
+  }
+}
+
+// Returns the canonical encoding name for a label ("Shift_JIS" → "shift_jis", "latin1" → "windows-1252"), or null if unknown
+export function normalizeCharset(label: string): string | null {
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+function decodeWith(
+  bytes: Uint8Array,
+  charset: string,
+  source: EncodingDetails['source'],
+  details: Pick<EncodingDetails, 'headerCharset' | 'metaCharset' | 'decodeErrors'>,
+): { html: string; encoding: EncodingDetails } {
+  const html = new TextDecoder(charset).decode(bytes);
+  // Bytes that are invalid in the chosen encoding come out as U+FFFD; a few of them usually mean a wrong declaration
+  const decodeErrors = (html.match(/�/g) || []).length;
+  return { html, encoding: { charset, source, ...details, decodeErrors } };
+}
+
+function detectBom(bytes: Uint8Array): { charset: string; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { charset: 'utf-8', length: 3 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { charset: 'utf-16be', length: 2 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { charset: 'utf-16le', length: 2 };
+  return null;
+}
+
+// <meta charset="..."> or <meta http-equiv="Content-Type" content="text/html; charset=...">
+function findMetaCharset(bytes: Uint8Array): string | null {
+  const head = Buffer.from(bytes.subarray(0, META_PRESCAN_BYTES)).toString('latin1');
+  for (const tag of head.match(/<meta\b[^>]*>/gi) || []) {
+    const charset = tag.match(/\bcharset\s*=\s*["']?([^"'\s;/>]+)/i);
+    if (charset) return charset[1];
+  }
+  return null;
+}
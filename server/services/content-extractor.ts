@@ -0,0 +1,285 @@
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import type { ContentBlock, StructureCounts } from '@shared/schema';
+
+// Elements whose text is never part of the readable content
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'head', 'select', 'option']);
+
+// Elements that start a new block; anything else is treated as inline text
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul', 'br',
+]);
+
+// Class or id fragments used by navigation, cookie/consent banners and other page chrome
+const BOILERPLATE_PATTERN = /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|footer|header|masthead|sidebar|widget|cookie|consent|gdpr|banner|popup|modal|newsletter|subscribe|share|sharing|social|related|comments?|advert|ads?|promo|skip-link)([\s_-]|$)/i;
+
+// Landmarks that hold page chrome rather than content
+const BOILERPLATE_SELECTOR = 'nav, footer, aside, header, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="dialog"], [aria-hidden="true"], [hidden]';
+
+// Elements whose text is scored when looking for the main content container
+const SCORED_TEXT_SELECTOR = 'p, pre, td, blockquote, li, dd';
+
+export interface MainContent {
+  root: Cheerio<Element>;
+  // Where the content was found, e.g. "main", "article" or "div#content"
+  source: string;
+}
+
+export class ContentExtractor {
+  // Body text without scripts, styles and other non-readable elements
+  extractFullText($: CheerioAPI): string {
+    const body = $('body').clone();
+    body.find(Array.from(IGNORED_TAGS).join(', ')).remove();
+    return body.length > 0 ? normalizeText(this.inlineText($, body.get(0)!)) : '';
+  }
+
+  // Finds the element holding the page's main content, with navigation, footers and banners stripped
+  findMainContent($: CheerioAPI): MainContent {
+    const body = $('body').clone();
+    body.find(Array.from(IGNORED_TAGS).join(', ')).remove();
+
+    // Landmark elements are the strongest signal, as long as they hold real text
+    const landmark = this.pickLandmark($, body);
+    if (landmark) {
+      this.removeBoilerplate($, landmark.root);
+      return landmark;
+    }
+
+    this.removeBoilerplate($, body);
+
+    // Score containers by the text of their paragraphs, discounted by link density
+    const scores = new Map<Element, number>();
+    body.find(SCORED_TEXT_SELECTOR).each((_, element) => {
+      const text = normalizeText($(element).text());
+      if (text.length < 25) return;
+
+      const contentScore = 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+      const parent = element.parent as Element | null;
+      const grandparent = parent?.parent as Element | null;
+      if (parent?.type === 'tag') scores.set(parent, (scores.get(parent) ?? 0) + contentScore);
+      if (grandparent?.type === 'tag') scores.set(grandparent, (scores.get(grandparent) ?? 0) + contentScore / 2);
+    });
+
+    const ranked = Array.from(scores.entries())
+      .map(([element, score]) => ({ element, score: score * (1 - this.linkDensity($, $(element))) }))
+      .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0 || ranked[0].score <= 0) {
+      return { root: body, source: 'body' };
+    }
+
+    return { root: $(ranked[0].element), source: describeElement(ranked[0].element) };
+  }
+
+  // Share of a container's text that sits inside links; navigation is almost all links
+  linkDensity($: CheerioAPI, root: Cheerio<AnyNode>): number {
+    const textLength = normalizeText(root.text()).length;
+    if (textLength === 0) return 1;
+    const linkLength = root.find('a').toArray().reduce((sum, link) => sum + normalizeText($(link).text()).length, 0);
+    return Math.min(1, linkLength / textLength);
+  }
+
+  private pickLandmark($: CheerioAPI, body: Cheerio<Element>): MainContent | null {
+    const hasEnoughText = (element: Element) => {
+      const words = normalizeText($(element).text()).split(' ').filter(Boolean).length;
+      return words >= 100 && this.linkDensity($, $(element)) < 0.5;
+    };
+
+    const main = body.find('main, [role="main"]').toArray().filter(hasEnoughText);
+    if (main.length === 1) {
+      return { root: $(main[0]), source: describeElement(main[0]) };
+    }
+
+    // Several articles usually means a listing page; take the longest one only if it dominates
+    const articles = body.find('article').toArray().filter(hasEnoughText);
+    if (articles.length > 0) {
+      const lengths = articles.map(article => normalizeText($(article).text()).length);
+      const longest = lengths.indexOf(Math.max(...lengths));
+      const total = lengths.reduce((sum, length) => sum + length, 0);
+      if (articles.length === 1 || lengths[longest] / total > 0.6) {
+        return { root: $(articles[longest]), source: describeElement(articles[longest]) };
+      }
+    }
+
+    return null;
+  }
+
+  private removeBoilerplate($: CheerioAPI, root: Cheerio<Element>): void {
+    root.find(BOILERPLATE_SELECTOR).each((_, element) => {
+      // Article headers and footers hold the title, byline and date, which are content
+      const tag = element.tagName.toLowerCase();
+      if ((tag === 'header' || tag === 'footer') && $(element).closest('article, main').length > 0) return;
+      $(element).remove();
+    });
+
+    root.find('[class], [id]').each((_, element) => {
+      const $element = $(element);
+      const tag = element.tagName.toLowerCase();
+      if (tag === 'main' || tag === 'article' || tag === 'body') return;
+      if ($element.find('main, article, h1').length > 0) return;
+
+      const identity = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+      if (BOILERPLATE_PATTERN.test(identity)) {
+        $element.remove();
+      }
+    });
+
+    root.find('[style]').each((_, element) => {
+      if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test($(element).attr('style') || '')) {
+        $(element).remove();
+      }
+    });
+  }
+
+  // Walks the DOM in document order and returns the readable content as typed blocks
+  extractBlocks($: CheerioAPI, root: Cheerio<AnyNode>): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+    root.each((_, node) => this.walk($, node, blocks, null));
+    return blocks;
+  }
+
+  countStructures(root: Cheerio<AnyNode>): StructureCounts {
+    return {
+      unorderedLists: root.find('ul').length,
+      orderedLists: root.find('ol').length,
+      tables: root.find('table').length,
+      definitionLists: root.find('dl').length,
+    };
+  }
+
+  private walk($: CheerioAPI, node: AnyNode, blocks: ContentBlock[], listType: ContentBlock['listType'] | null): void {
+    let buffer = '';
+
+    // Loose text directly inside containers (e.g. <div>Some text</div>) becomes a paragraph
+    const flush = () => {
+      const text = normalizeText(buffer);
+      if (text) blocks.push({ type: 'paragraph', text });
+      buffer = '';
+    };
+
+    for (const child of $(node).contents().toArray()) {
+      if (child.type === 'text') {
+        buffer += child.data;
+        continue;
+      }
+      if (child.type !== 'tag') continue;
+
+      const tag = child.tagName.toLowerCase();
+      if (IGNORED_TAGS.has(tag)) continue;
+
+      if (!BLOCK_TAGS.has(tag)) {
+        buffer += ' ' + this.inlineText($, child);
+        continue;
+      }
+
+      flush();
+      this.visitBlock($, child, tag, blocks, listType);
+    }
+
+    flush();
+  }
+
+  private visitBlock($: CheerioAPI, element: Element, tag: string, blocks: ContentBlock[], listType: ContentBlock['listType'] | null): void {
+    const $element = $(element);
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = normalizeText(this.inlineText($, element));
+      if (text) blocks.push({ type: 'heading', text, level: parseInt(tag.charAt(1)) });
+      return;
+    }
+
+    switch (tag) {
+      case 'p':
+      case 'figcaption':
+      case 'summary':
+      case 'address': {
+        const text = normalizeText(this.inlineText($, element));
+        if (text) blocks.push({ type: 'paragraph', text });
+        return;
+      }
+      case 'ul':
+        this.walk($, element, blocks, 'unordered');
+        return;
+      case 'ol':
+        this.walk($, element, blocks, 'ordered');
+        return;
+      case 'dl':
+        this.walk($, element, blocks, 'definition');
+        return;
+      case 'li':
+      case 'dt':
+      case 'dd': {
+        // Nested lists become their own list items, so they are left out of this item's text
+        const clone = $element.clone();
+        clone.find('ul, ol, dl').remove();
+        const text = normalizeText(this.inlineText($, clone.get(0)!));
+        if (text) {
+          blocks.push({ type: 'list_item', text, listType: tag === 'li' ? (listType ?? 'unordered') : 'definition' });
+        }
+        $element.find('> ul, > ol, > dl').each((_, nested) => this.visitBlock($, nested, nested.tagName.toLowerCase(), blocks, listType));
+        return;
+      }
+      case 'table': {
+        const rows = $element.find('tr').toArray();
+        const text = rows
+          .map(row => $(row).find('th, td').toArray().map(cell => normalizeText($(cell).text())).join(' | '))
+          .filter(Boolean)
+          .join('\n');
+        if (text) {
+          blocks.push({
+            type: 'table',
+            text,
+            rows: rows.length,
+            columns: Math.max(0, ...rows.map(row => $(row).find('th, td').length)),
+            hasHeader: $element.find('th').length > 0,
+          });
+        }
+        return;
+      }
+      case 'blockquote': {
+        const text = normalizeText(this.inlineText($, element));
+        if (text) blocks.push({ type: 'blockquote', text });
+        return;
+      }
+      case 'pre': {
+        const text = $element.text().trim();
+        if (text) blocks.push({ type: 'code', text });
+        return;
+      }
+      case 'hr':
+      case 'br':
+        return;
+      default:
+        this.walk($, element, blocks, listType);
+    }
+  }
+
+  // Text of an element, skipping scripts and styles and keeping words in adjacent elements apart
+  private inlineText($: CheerioAPI, element: Element): string {
+    let text = '';
+    for (const child of $(element).contents().toArray()) {
+      if (child.type === 'text') {
+        text += child.data;
+      } else if (child.type === 'tag' && !IGNORED_TAGS.has(child.tagName.toLowerCase())) {
+        const inner = this.inlineText($, child);
+        text += BLOCK_TAGS.has(child.tagName.toLowerCase()) ? ` ${inner} ` : inner;
+      }
+    }
+    return text;
+  }
+}
+
+function describeElement(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const id = element.attribs.id;
+  const className = element.attribs.class?.trim().split(/\s+/)[0];
+  if (id) return `${tag}#${id}`;
+  if (className) return `${tag}.${className}`;
+  return tag;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
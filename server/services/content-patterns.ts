@@ -0,0 +1,34 @@
+import type { WebsiteData, ContentBlock } from '@shared/schema';
+
+// Question headings ("What is...?", "How to ...") and the block that answers them
+export function findQuestionAnswerPairs(data: WebsiteData): Array<{ question: ContentBlock; answer: ContentBlock }> {
+  const questionPattern = /\?$|^(what|how|why|when|where|which|who|can|does|is|are|should)\b/i;
+  const pairs: Array<{ question: ContentBlock; answer: ContentBlock }> = [];
+
+  data.blocks.forEach((block, i) => {
+    if (block.type !== 'heading' || !questionPattern.test(block.text)) return;
+    const next = data.blocks[i + 1];
+    if (next && (next.type === 'paragraph' || next.type === 'list_item' || next.type === 'table')) {
+      pairs.push({ question: block, answer: next });
+    }
+  });
+
+  return pairs;
+}
+
+// Summary headings, plus TL;DR text at the top and conclusions at the bottom of the content
+export function findSummaryBlocks(data: WebsiteData): { headings: ContentBlock[]; leadSummary: boolean; closingSummary: boolean } {
+  const summaryPattern = /tl;?dr|summary|key takeaways|key points|takeaways|in short|at a glance|conclusion|to summarize/i;
+  const headings = data.blocks.filter(b => b.type === 'heading' && summaryPattern.test(b.text));
+
+  const leadSummary = data.blocks
+    .slice(0, 6)
+    .some(b => b.type !== 'heading' && /^(tl;?dr|summary|in short|key takeaways?)\b/i.test(b.text));
+
+  const closingStart = Math.floor(data.blocks.length * 0.75);
+  const closingSummary = data.blocks
+    .slice(closingStart)
+    .some(b => summaryPattern.test(b.text) && /conclusion|to summarize|in summary|in short|takeaways/i.test(b.text));
+
+  return { headings, leadSummary, closingSummary };
+}
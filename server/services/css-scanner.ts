@@ -0,0 +1,195 @@
+import type { CssDeclarationSample, CssSummary } from '@shared/schema';
+
+// Wider than any phone in portrait; a fixed width above this forces horizontal scrolling
+export const MAX_MOBILE_WIDTH_PX = 480;
+// Google's mobile guidance: text below 12px is hard to read without zooming
+const MIN_FONT_SIZE_PX = 12;
+const MAX_SAMPLES = 10;
+const MAX_MEDIA_QUERIES = 20;
+
+const RESPONSIVE_CONDITION = /(min|max)-(device-)?(width|aspect-ratio)|\bwidth\s*[<>]|orientation|pointer|hover/i;
+const EMBED_SELECTOR = /(^|[\s>+~,(])(iframe|embed|object|video)\b|\.(embed|video|iframe)/i;
+
+interface Block {
+  kind: 'media' | 'group' | 'skip';
+  condition: string;
+}
+
+interface ScanState {
+  summary: CssSummary;
+  fixedWidths: CssDeclarationSample[];
+  // Selectors whose width is set again inside a responsive media query
+  resized: Set<string>;
+}
+
+// A small scanner rather than a full CSS parser: it understands nested @media/@supports blocks and plain rules,
+// which is all the mobile checks need. Strings containing braces are rare enough to ignore
+export function scanCss(css: string): CssSummary {
+  const state: ScanState = { summary: emptyCssSummary(), fixedWidths: [], resized: new Set() };
+  const mediaQueries = new Set<string>();
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const stack: Block[] = [];
+  let prelude = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '{') {
+      const header = prelude.trim();
+      prelude = '';
+
+      if (header.startsWith('@')) {
+        const name = header.match(/^@([\w-]+)/)?.[1].toLowerCase() ?? '';
+        const condition = header.slice(name.length + 1).trim();
+        if (name === 'media') {
+          if (RESPONSIVE_CONDITION.test(condition) && mediaQueries.size < MAX_MEDIA_QUERIES) {
+            mediaQueries.add(condition.replace(/\s+/g, ' ').toLowerCase());
+          }
+          stack.push({ kind: 'media', condition });
+        } else {
+          // Keyframes and font faces hold no layout rules
+          stack.push({ kind: /keyframes|font-face|page|counter-style/.test(name) ? 'skip' : 'group', condition });
+        }
+        continue;
+      }
+
+      // A style rule: read its declarations in one go
+      const end = source.indexOf('}', i + 1);
+      const body = source.slice(i + 1, end === -1 ? source.length : end);
+      if (!stack.some(block => block.kind === 'skip')) {
+        scanRule(header, body, stack, state);
+      }
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (char === '}') {
+      stack.pop();
+      prelude = '';
+    } else if (char === ';' && prelude.trim().startsWith('@')) {
+      // Statement at-rules such as @import and @charset
+      prelude = '';
+    } else {
+      prelude += char;
+    }
+  }
+
+  // A fixed width is only a problem when no media query replaces it on small screens
+  const { summary } = state;
+  const fixedWidths = state.fixedWidths.filter(sample => !state.resized.has(sample.selector));
+  summary.fixedWidths = fixedWidths.slice(0, MAX_SAMPLES);
+  summary.fixedWidthCount = fixedWidths.length;
+  summary.responsiveMediaQueries = Array.from(mediaQueries);
+  return summary;
+}
+
+export function emptyCssSummary(): CssSummary {
+  return {
+    responsiveMediaQueries: [],
+    fixedWidths: [],
+    fixedWidthCount: 0,
+    tinyFonts: [],
+    tinyFontCount: 0,
+    fluidEmbeds: false,
+    fixedOverlays: [],
+  };
+}
+
+// Combines the summaries of several stylesheets, keeping the sample limits
+export function mergeCssSummaries(summaries: CssSummary[]): CssSummary {
+  const merged = emptyCssSummary();
+  summaries.forEach(summary => {
+    summary.responsiveMediaQueries.forEach(query => {
+      if (!merged.responsiveMediaQueries.includes(query) && merged.responsiveMediaQueries.length < MAX_MEDIA_QUERIES) {
+        merged.responsiveMediaQueries.push(query);
+      }
+    });
+    merged.fixedWidths.push(...summary.fixedWidths.slice(0, MAX_SAMPLES - merged.fixedWidths.length));
+    merged.fixedWidthCount += summary.fixedWidthCount;
+    merged.tinyFonts.push(...summary.tinyFonts.slice(0, MAX_SAMPLES - merged.tinyFonts.length));
+    merged.tinyFontCount += summary.tinyFontCount;
+    merged.fluidEmbeds = merged.fluidEmbeds || summary.fluidEmbeds;
+    merged.fixedOverlays.push(...summary.fixedOverlays.filter(selector => !merged.fixedOverlays.includes(selector)));
+  });
+  return merged;
+}
+
+function scanRule(selector: string, body: string, stack: Block[], state: ScanState): void {
+  const { summary } = state;
+  const media = stack.filter(block => block.kind === 'media').map(block => block.condition.toLowerCase());
+  // Print and speech styles never reach a phone screen
+  if (media.some(condition => /^(only\s+)?(print|speech)\b/.test(condition))) return;
+  const responsive = media.some(condition => RESPONSIVE_CONDITION.test(condition));
+
+  const declarations = new Map<string, string>();
+  body.split(';').forEach(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) return;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase();
+    if (property && value) declarations.set(property, value);
+  });
+  const name = selector.replace(/\s+/g, ' ').trim().slice(0, 80);
+  const sample = (property: string): CssDeclarationSample => ({ selector: name, value: `${property}: ${declarations.get(property)}` });
+  const widthProperties = ['width', 'min-width', 'max-width'].filter(property => declarations.has(property));
+
+  // Rules inside a width query were written for one screen size, so only unconditional widths count
+  if (responsive) {
+    if (widthProperties.length > 0) state.resized.add(name);
+  } else {
+    widthProperties.filter(property => property !== 'max-width').forEach(property => {
+      const pixels = toPixels(declarations.get(property));
+      if (pixels !== null && pixels > MAX_MOBILE_WIDTH_PX) state.fixedWidths.push(sample(property));
+    });
+  }
+
+  const fontProperty = declarations.has('font-size') ? 'font-size' : declarations.has('font') ? 'font' : null;
+  if (fontProperty) {
+    const value = declarations.get(fontProperty)!;
+    // The font shorthand puts the size before an optional "/line-height"
+    const size = fontProperty === 'font' ? value.match(/(?:^|\s)([\d.]+(?:px|pt|rem|em))(?:\/|\s)/)?.[1] : value;
+    const pixels = toPixels(size);
+    // Zero-size text is an accessibility hiding trick, not body copy
+    if (pixels !== null && pixels > 0 && pixels < MIN_FONT_SIZE_PX) {
+      summary.tinyFontCount++;
+      if (summary.tinyFonts.length < MAX_SAMPLES) summary.tinyFonts.push(sample(fontProperty));
+    }
+  }
+
+  if (EMBED_SELECTOR.test(selector) && [declarations.get('width'), declarations.get('max-width')].includes('100%')) {
+    summary.fluidEmbeds = true;
+  }
+
+  if (declarations.get('position') === 'fixed' && coversViewport(declarations) && !isHidden(declarations)) {
+    summary.fixedOverlays.push(name);
+  }
+}
+
+// Absolute lengths only; em and rem assume the 16px browser default
+function toPixels(value: string | undefined): number | null {
+  const match = value?.match(/^(-?[\d.]+)(px|pt|rem|em)$/);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'pt':
+      return number * 4 / 3;
+    case 'rem':
+    case 'em':
+      return number * 16;
+    default:
+      return number;
+  }
+}
+
+function coversViewport(declarations: Map<string, string>): boolean {
+  const full = (value: string | undefined) => value === '100%' || value === '100vw' || value === '100vh' || value === '100dvh';
+  const zero = (value: string | undefined) => value === '0' || value === '0px';
+  const inset = declarations.get('inset');
+  return (inset !== undefined && /^0(px)?$/.test(inset))
+    || (full(declarations.get('width')) && full(declarations.get('height')))
+    || ['top', 'right', 'bottom', 'left'].every(side => zero(declarations.get(side)));
+}
+
+function isHidden(declarations: Map<string, string>): boolean {
+  return declarations.get('display') === 'none' || declarations.get('visibility') === 'hidden' || declarations.get('opacity') === '0';
+}
@@ -0,0 +1,76 @@
+import type { FetchProfile, FetchProfileSecrets, FetchProfileSummary, InsertFetchProfile } from '@shared/schema';
+import type { RequestProfile } from './http-client';
+import { SecretBox } from './secret-box';
+
+export interface FetchProfileInput {
+  name: string;
+  userAgent?: string;
+  acceptLanguage?: string;
+  timeoutMs?: number;
+  headers: Record<string, string>;
+  cookies: Record<string, string>;
+  basicAuth?: { username: string; password: string };
+  proxyUrl?: string;
+}
+
+// Converts between profile input, the stored (encrypted) record, its redacted summary and the request settings
+export class FetchProfileVault {
+  constructor(private secretBox = new SecretBox()) {}
+
+  seal(input: FetchProfileInput): InsertFetchProfile {
+    const secrets: FetchProfileSecrets = {
+      headers: input.headers,
+      cookies: input.cookies,
+      basicAuth: input.basicAuth ?? null,
+      proxyUrl: input.proxyUrl ?? null,
+    };
+    const hasSecrets = Object.keys(secrets.headers).length > 0 || Object.keys(secrets.cookies).length > 0
+      || secrets.basicAuth !== null || secrets.proxyUrl !== null;
+
+    return {
+      name: input.name,
+      userAgent: input.userAgent || null,
+      acceptLanguage: input.acceptLanguage || null,
+      timeoutMs: input.timeoutMs ?? null,
+      headerNames: Object.keys(input.headers),
+      cookieNames: Object.keys(input.cookies),
+      basicAuthUsername: input.basicAuth?.username ?? null,
+      proxyHost: input.proxyUrl ? new URL(input.proxyUrl).host : null,
+      encryptedSecrets: hasSecrets ? this.secretBox.encrypt(JSON.stringify(secrets)) : null,
+    };
+  }
+
+  summarize(profile: FetchProfile): FetchProfileSummary {
+    const { encryptedSecrets, ...summary } = profile;
+    return summary;
+  }
+
+  // Credentials are scoped to the origin being audited
+  open(profile: FetchProfile, auditUrl: string): RequestProfile {
+    const secrets: FetchProfileSecrets = profile.encryptedSecrets
+      ? JSON.parse(this.secretBox.decrypt(profile.encryptedSecrets))
+      : { headers: {}, cookies: {}, basicAuth: null, proxyUrl: null };
+
+    const headers: Record<string, string> = {};
+    if (profile.userAgent) headers['User-Agent'] = profile.userAgent;
+    if (profile.acceptLanguage) headers['Accept-Language'] = profile.acceptLanguage;
+
+    const credentialHeaders: Record<string, string> = { ...secrets.headers };
+    const cookies = Object.entries(secrets.cookies).map(([name, value]) => `${name}=${value}`);
+    if (cookies.length > 0) {
+      credentialHeaders['Cookie'] = cookies.join('; ');
+    }
+    if (secrets.basicAuth) {
+      const { username, password } = secrets.basicAuth;
+      credentialHeaders['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    }
+
+    return {
+      headers,
+      credentialHeaders,
+      credentialOrigin: new URL(auditUrl).origin,
+      proxyUrl: secrets.proxyUrl,
+      timeoutMs: profile.timeoutMs,
+    };
+  }
+}
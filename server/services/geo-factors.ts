@@ -0,0 +1,520 @@
+import type { WebsiteData, CrawlerAccess, ContentBlock } from '@shared/schema';
+import { getLanguageRules, countWords, tokenize } from './text-language';
+import { findQuestionAnswerPairs, findSummaryBlocks } from './content-patterns';
+import { SecurityAnalyzer } from './security-analyzer';
+
+const securityAnalyzer = new SecurityAnalyzer();
+
+// The GEO factors, each scored from 0 to 100 with the evidence the score was based on.
+// GEO rules turn them into the weighted AI score.
+
+export interface JavascriptContent {
+  // 'key': the raw HTML is an app shell with next to no text; 'some': part of the page is mounted by scripts
+  dependence: 'key' | 'some' | 'none';
+  // What the estimate rests on, for evidence lines
+  summary: string;
+}
+
+// How much of the page most AI crawlers miss because they do not run scripts, estimated from the raw HTML
+export function measureJavascriptContent(data: WebsiteData): JavascriptContent {
+  const { appRoot, appRootWords, scripts, noscriptWarning } = data.scriptShell;
+  if (scripts === 0) return { dependence: 'none', summary: 'No scripts on the page' };
+
+  const shell = [
+    appRoot && appRootWords < 20 ? `empty ${appRoot} mount point` : '',
+    noscriptWarning ? '<noscript> asks for JavaScript' : '',
+  ].filter(Boolean);
+  const summary = [...shell, `${data.fullWordCount} words and ${scripts} scripts in the raw HTML`].join(', ');
+
+  // An empty mount point on an otherwise bare page is an app shell; next to real content it is only a widget
+  if ((shell.length > 0 && data.fullWordCount < 150) || (data.fullWordCount < 50 && data.headings.length === 0)) {
+    return { dependence: 'key', summary };
+  }
+  return { dependence: shell.length > 0 ? 'some' : 'none', summary };
+}
+
+export function assessCrawlability(data: WebsiteData, evidence: string[]): number {
+  let score = 100;
+  const { robotsTxt } = data;
+
+  // Crawlers that fetch pages to answer or cite in AI responses matter most,
+  // search engines feed AI Overviews and Copilot, training-only bots matter least
+  const penalties: Record<CrawlerAccess['purpose'], number> = {
+    'ai-search': 20,
+    'ai-assistant': 15,
+    'search': 15,
+    'ai-training': 5,
+  };
+
+  const blocked = (robotsTxt?.crawlers ?? []).filter(crawler => !crawler.allowed);
+  blocked.forEach(crawler => {
+    score -= penalties[crawler.purpose];
+  });
+  evidence.push(blocked.length > 0
+    ? `Blocked in robots.txt: ${blocked.map(crawler => crawler.crawler).join(', ')}`
+    : robotsTxt ? 'robots.txt blocks none of the checked crawlers' : 'No robots.txt checked');
+
+  // Error pages are not worth crawling, whatever robots.txt says
+  if (data.title && (data.title.toLowerCase().includes('404') || data.title.toLowerCase().includes('error'))) {
+    score -= 30;
+    evidence.push(`Title looks like an error page: "${data.title}"`);
+  }
+
+  // Allowed crawlers still only see the raw HTML
+  const javascript = measureJavascriptContent(data);
+  if (javascript.dependence === 'key') {
+    score -= 30;
+    evidence.push(`Key content only appears after JavaScript runs (${javascript.summary})`);
+  } else if (javascript.dependence === 'some') {
+    score -= 10;
+    evidence.push(`Some content is added by JavaScript (${javascript.summary})`);
+  }
+
+  return Math.max(0, Math.min(100, score));
+}
+
+export function assessHtmlStructure(data: WebsiteData, evidence: string[]): number {
+  let score = 0;
+  
+  // Check for single H1
+  const h1Count = data.headings.filter(h => h.level === 1).length;
+  if (h1Count === 1) score += 25;
+  else if (h1Count === 0) score += 0;
+  else score += 10; // Multiple H1s are not ideal
+  
+  // Check for proper heading hierarchy
+  const hasH2 = data.headings.some(h => h.level === 2);
+  const hasH3 = data.headings.some(h => h.level === 3);
+  if (hasH2) score += 25;
+  if (hasH3) score += 10;
+
+  // Headings should not skip levels (e.g. H2 followed directly by H4)
+  const headingLevels = data.blocks.filter(b => b.type === 'heading').map(b => b.level || 1);
+  const skippedLevels = headingLevels.filter((level, i) => i > 0 && level > headingLevels[i - 1] + 1).length;
+  if (headingLevels.length > 0 && skippedLevels === 0) score += 10;
+  evidence.push(`H1: ${h1Count} · H2: ${hasH2 ? 'yes' : 'no'} · H3: ${hasH3 ? 'yes' : 'no'} · Skipped heading levels: ${skippedLevels}`);
+  
+  // Basic structure bonus
+  if (data.title && data.title.length > 10) score += 15;
+  if (data.metaDescription && data.metaDescription.length > 50) score += 15;
+  evidence.push(`Title: ${data.title.length} characters · Meta description: ${data.metaDescription.length} characters`);
+  
+  return Math.min(100, score);
+}
+
+export function assessContentClarity(data: WebsiteData, evidence: string[]): number {
+  let score = 10; // Base score
+  const paragraphs = getParagraphs(data);
+  
+  // Check the opening paragraphs for a clear introduction or definition
+  const introPatterns = ['what is', ' is a ', ' is an ', 'refers to', 'introduction', 'overview', 'in this article', 'this guide'];
+  const opening = paragraphs.slice(0, 3).map(p => ` ${p.text.toLowerCase()} `).join(' ');
+  const introPattern = introPatterns.find(pattern => opening.includes(pattern));
+  if (introPattern) {
+    score += 20;
+    evidence.push(`Introduction found ("${introPattern.trim()}")`);
+  }
+  
+  // Question headings that are directly followed by an answer
+  const answeredQuestions = findQuestionAnswerPairs(data).length;
+  score += Math.min(answeredQuestions * 8, 25);
+  evidence.push(`Answered question headings: ${answeredQuestions}`);
+  
+  // Definitions in paragraphs or definition lists
+  const definitionPatterns = ['definition', 'means', 'refers to', 'is defined as', 'can be defined'];
+  const foundDefinitions = data.structureCounts.definitionLists > 0 ||
+    paragraphs.some(p => definitionPatterns.some(pattern => p.text.toLowerCase().includes(pattern)));
+  if (foundDefinitions) {
+    score += 15;
+    evidence.push('Definitions found');
+  }
+  
+  // Content length scoring (more granular)
+  if (data.wordCount > 500 && data.wordCount < 2000) {
+    score += 25;
+  } else if (data.wordCount >= 2000 && data.wordCount < 4000) {
+    score += 20;
+  } else if (data.wordCount >= 300 && data.wordCount <= 500) {
+    score += 15;
+  } else if (data.wordCount < 300) {
+    score += 5;
+  }
+  
+  // Check for topic consistency (title relevance)
+  if (data.title) {
+    const content = data.mainContent.toLowerCase();
+    const titleWords = data.title.toLowerCase().split(' ').filter(word => word.length > 3);
+    const contentMentions = titleWords.filter(word => content.includes(word)).length;
+    const relevanceRatio = contentMentions / Math.max(titleWords.length, 1);
+    score += Math.round(relevanceRatio * 15);
+    evidence.push(`Title words mentioned in the content: ${contentMentions} of ${titleWords.length}`);
+  }
+  evidence.push(`Word count: ${data.wordCount}`);
+  
+  return Math.min(100, score);
+}
+
+export function assessScanability(data: WebsiteData, evidence: string[]): number {
+  let score = 5; // Base score
+  const paragraphs = getParagraphs(data);
+  
+  // Average paragraph length in words
+  if (paragraphs.length > 0) {
+    const paragraphWords = paragraphs.map(p => countWords(p.text));
+    const avgParagraphWords = paragraphWords.reduce((sum, words) => sum + words, 0) / paragraphs.length;
+    
+    if (avgParagraphWords < 40) score += 30; // Very short paragraphs
+    else if (avgParagraphWords < 70) score += 25; // Short paragraphs
+    else if (avgParagraphWords < 100) score += 15; // Medium paragraphs
+    else score += 5; // Long paragraphs
+
+    // Walls of text are hard to scan even if most paragraphs are short
+    const longParagraphs = paragraphWords.filter(words => words > 150).length;
+    if (longParagraphs / paragraphs.length < 0.1) score += 10;
+    evidence.push(`Average paragraph: ${Math.round(avgParagraphWords)} words · Paragraphs over 150 words: ${longParagraphs}`);
+  }
+  
+  // Real list items from <ul>/<ol>/<dl>
+  const listItems = data.blocks.filter(b => b.type === 'list_item').length;
+  if (listItems > 10) score += 25;
+  else if (listItems > 5) score += 20;
+  else if (listItems > 2) score += 15;
+  else if (listItems > 0) score += 10;
+  
+  // Heading distribution analysis
+  const headingCount = data.headings.length;
+  const contentWords = data.wordCount;
+  const headingRatio = headingCount / Math.max(contentWords / 200, 1); // Headings per ~200 words
+  
+  if (headingRatio > 0.8) score += 25; // Good heading distribution
+  else if (headingRatio > 0.5) score += 20;
+  else if (headingRatio > 0.3) score += 15;
+  else if (headingRatio > 0.1) score += 10;
+  
+  // Tables present information at a glance
+  if (data.structureCounts.tables > 0) score += 10;
+  evidence.push(`List items: ${listItems} · Headings: ${headingCount} · Tables: ${data.structureCounts.tables}`);
+  
+  return Math.min(100, score);
+}
+
+export function assessSummarySections(data: WebsiteData, evidence: string[]): number {
+  let score = 0;
+  const { headings, leadSummary, closingSummary } = findSummaryBlocks(data);
+  
+  // A dedicated summary / key takeaways / conclusion section
+  if (headings.length > 0) {
+    score += 40;
+    evidence.push(`Summary heading: "${headings[0].text}"`);
+  }
+  
+  // A TL;DR at the top is what AI tools quote first
+  if (leadSummary) {
+    score += 30;
+    evidence.push('TL;DR at the top of the content');
+  }
+  
+  // Takeaways as a list are the easiest to extract
+  const summaryIndex = data.blocks.findIndex(b => headings.includes(b));
+  if (summaryIndex !== -1 && data.blocks[summaryIndex + 1]?.type === 'list_item') score += 15;
+  
+  // Conclusion near the end of the content
+  if (closingSummary) {
+    score += 15;
+    evidence.push('Conclusion near the end of the content');
+  }
+  if (score === 0) evidence.push('No summary, TL;DR or conclusion found');
+  
+  return Math.min(100, score);
+}
+
+export function assessQaFormat(data: WebsiteData, evidence: string[]): number {
+  let score = 0;
+  const pairs = findQuestionAnswerPairs(data);
+  
+  // Question headings followed by an answer block
+  if (pairs.length >= 3) score += 50;
+  else if (pairs.length > 0) score += 30;
+  evidence.push(pairs.length > 0
+    ? `${pairs.length} answered question headings, e.g. "${pairs[0].question.text}"`
+    : 'No question headings followed by an answer');
+  
+  // Answers that get to the point in the first sentence are easiest to quote
+  const directAnswers = pairs.filter(pair => countWords(pair.answer.text.split(/(?<=[.!?])\s/)[0]) <= 40).length;
+  if (pairs.length > 0 && directAnswers / pairs.length >= 0.5) score += 20;
+  if (pairs.length > 0) evidence.push(`Answers starting with a short sentence: ${directAnswers} of ${pairs.length}`);
+  
+  // A dedicated FAQ section
+  const hasFaqHeading = data.blocks.some(b =>
+    b.type === 'heading' && /\bfaqs?\b|frequently asked/i.test(b.text)
+  );
+  if (hasFaqHeading) {
+    score += 20;
+    evidence.push('FAQ section heading');
+  }
+  
+  // Q:/A: paragraphs or question terms in definition lists
+  const hasInlineQa = data.blocks.some(b =>
+    (b.type === 'paragraph' && /^(q:|question:)/i.test(b.text)) ||
+    (b.type === 'list_item' && b.listType === 'definition' && b.text.endsWith('?'))
+  );
+  if (hasInlineQa) {
+    score += 10;
+    evidence.push('Q:/A: paragraphs or question terms');
+  }
+  
+  return Math.min(100, score);
+}
+
+export function assessSchemaMarkup(data: WebsiteData, evidence: string[]): number {
+  const { structuredData } = data;
+  if (!data.hasSchema) {
+    evidence.push('No structured data');
+    return 0;
+  }
+
+  let score = 30;
+  evidence.push(`Types: ${data.schemaTypes.join(', ')}`);
+
+  if (structuredData.validatedEntities > 0) {
+    // Share of entities without errors, then completeness of recommended properties
+    const warnings = structuredData.issues.filter(issue => issue.severity === 'warning').length;
+    score += 50 * (structuredData.validEntities / structuredData.validatedEntities);
+    score += 20 * Math.max(0, 1 - warnings / (structuredData.validatedEntities * 3));
+    evidence.push(`Valid entities: ${structuredData.validEntities} of ${structuredData.validatedEntities} · Missing recommended properties: ${warnings}`);
+  } else {
+    // Only types we have no rules for
+    score += 20;
+  }
+
+  score -= 15 * structuredData.parseErrors.length;
+  if (structuredData.parseErrors.length > 0) evidence.push(`Invalid JSON-LD scripts: ${structuredData.parseErrors.length}`);
+
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+export function assessTrustedEntities(data: WebsiteData, evidence: string[]): number {
+  let score = 5; // Base score
+  const content = data.mainContent.toLowerCase();
+  
+  // Authority domain references (more comprehensive)
+  const authorityDomains = ['wikipedia', '.gov', '.edu', '.org', 'reuters', 'bbc', 'cnn', 'nytimes', 'wsj'];
+  const authorityMatches = authorityDomains.filter(domain => content.includes(domain));
+  const foundAuthority = authorityMatches.length;
+  score += Math.min(foundAuthority * 12, 35);
+  if (foundAuthority > 0) evidence.push(`Authority sources: ${authorityMatches.join(', ')}`);
+  
+  // Academic and research indicators
+  const researchTerms = ['research', 'study', 'university', 'journal', 'published', 'peer review', 'academic'];
+  const researchMatches = researchTerms.filter(term => content.includes(term));
+  const foundResearch = researchMatches.length;
+  score += Math.min(foundResearch * 8, 25);
+  if (foundResearch > 0) evidence.push(`Research terms: ${researchMatches.join(', ')}`);
+  
+  // Industry authority terms
+  const industryTerms = ['according to', 'expert', 'specialist', 'authority', 'leader in', 'established'];
+  const industryMatches = industryTerms.filter(term => content.includes(term));
+  const foundIndustry = industryMatches.length;
+  score += Math.min(foundIndustry * 5, 20);
+  if (foundIndustry > 0) evidence.push(`Authority phrases: ${industryMatches.join(', ')}`);
+  
+  // External links analysis (more sophisticated)
+  const externalLinks = data.links.filter(link => !link.isInternal);
+  const linkScore = Math.min(externalLinks.length * 3, 20);
+  score += linkScore;
+  evidence.push(`External links: ${externalLinks.length}`);
+  
+  // Check for citations, references or quoted sources
+  if (content.includes('source:') || content.includes('reference') || content.includes('citation') ||
+      data.blocks.some(b => b.type === 'blockquote')) {
+    score += 15;
+    evidence.push('Citations, references or quotes');
+  }
+  
+  // Brand mentions and entities
+  const entityPatterns = ['inc.', 'corp.', 'ltd.', 'company', 'organization', 'institute'];
+  const entityMatches = entityPatterns.filter(pattern => content.includes(pattern));
+  score += Math.min(entityMatches.length * 4, 15);
+  if (entityMatches.length > 0) evidence.push(`Organization mentions: ${entityMatches.join(', ')}`);
+  
+  return Math.min(100, score);
+}
+
+export function assessDataFormats(data: WebsiteData, evidence: string[]): number {
+  let score = 5; // Conservative base score
+  const { orderedLists, tables, definitionLists } = data.structureCounts;
+  const listItems = data.blocks.filter(b => b.type === 'list_item');
+  
+  // Bullet and numbered lists
+  if (listItems.length > 10) score += 25;
+  else if (listItems.length > 5) score += 20;
+  else if (listItems.length > 2) score += 15;
+  else if (listItems.length > 0) score += 10;
+  
+  // Numbered lists for steps and rankings
+  const orderedItems = listItems.filter(b => b.listType === 'ordered').length;
+  if (orderedLists > 0) {
+    if (orderedItems > 4) score += 15;
+    else if (orderedItems > 1) score += 10;
+    else score += 5;
+  }
+  
+  // Tables, ideally with header cells so columns have meaning
+  const tableBlocks = data.blocks.filter(b => b.type === 'table');
+  if (tableBlocks.some(b => b.hasHeader)) score += 20;
+  else if (tables > 0) score += 10;
+  evidence.push(`List items: ${listItems.length} (${orderedItems} numbered) · Tables: ${tables} (${tableBlocks.filter(b => b.hasHeader).length} with headers)`);
+  
+  // Enhanced statistical data detection
+  const content = data.mainContent;
+  const statPatterns = [
+    /\d+%/g, // Percentages
+    /\$\d+(?:,\d{3})*/g, // Currency
+    /\d+,\d{3}/g, // Large numbers with commas
+    /\d+\.\d+/g, // Decimal numbers
+    /\d+\s?(?:million|billion|thousand)/gi, // Scale indicators
+    /\d+\s?(?:hours?|days?|weeks?|months?|years?)/gi, // Time periods
+    /\d+\s?(?:people|users|customers|companies)/gi // Quantities
+  ];
+  
+  let statCount = 0;
+  statPatterns.forEach(pattern => {
+    const matches = content.match(pattern);
+    if (matches) statCount += matches.length;
+  });
+  
+  evidence.push(`Numbers and statistics: ${statCount}`);
+  if (statCount > 15) score += 25;
+  else if (statCount > 8) score += 20;
+  else if (statCount > 4) score += 15;
+  else if (statCount > 1) score += 10;
+  
+  // Definition lists and code blocks are also cleanly extractable
+  if (definitionLists > 0) score += 5;
+  if (data.blocks.some(b => b.type === 'code')) score += 5;
+  
+  return Math.min(100, score);
+}
+
+export function assessReadability(data: WebsiteData, evidence: string[]): number {
+  let score = 30; // Lower base score for better differentiation
+  const paragraphs = getParagraphs(data);
+  const prose = paragraphs.map(p => p.text).join(' ');
+  const proseWords = countWords(prose);
+  // Thresholds depend on the language, e.g. Japanese sentences are measured in characters
+  const rules = getLanguageRules(data.language.detected);
+  
+  // Sentence length analysis over real paragraphs
+  const sentences = prose.split(rules.sentenceEnd).filter(s => s.trim().length > (rules.unit === 'words' ? 10 : 5));
+  if (sentences.length > 0) {
+    const sentenceLength = rules.unit === 'words' ? proseWords : prose.replace(/\s/g, '').length;
+    const avgSentenceLength = sentenceLength / sentences.length;
+    const easy = rules.easySentenceLength;
+    evidence.push(`Average sentence: ${Math.round(avgSentenceLength)} ${rules.unit} (easy below ${easy})`);
+    
+    if (avgSentenceLength < easy) score += 30; // Easy to read
+    else if (avgSentenceLength < easy * 4 / 3) score += 20; // Moderate
+    else if (avgSentenceLength < easy * 5 / 3) score += 10; // Getting complex
+    else score += 5; // Too complex
+  }
+  
+  // Complex word analysis (long words), where word length says something about difficulty
+  if (rules.longWordLength === null) {
+    score += 15;
+  } else {
+    const words = tokenize(prose);
+    const complexWords = words.filter(word => word.length > rules.longWordLength!);
+    const complexWordRatio = complexWords.length / Math.max(words.length, 1);
+    evidence.push(`Long words: ${Math.round(complexWordRatio * 100)}%`);
+    
+    if (complexWordRatio < 0.15) score += 20; // Low complexity
+    else if (complexWordRatio < 0.25) score += 15; // Moderate complexity
+    else if (complexWordRatio < 0.35) score += 10; // High complexity
+    else score += 5; // Very high complexity
+  }
+  
+  // Paragraph length assessment
+  if (paragraphs.length > 0) {
+    const avgParagraphWords = proseWords / paragraphs.length;
+    if (avgParagraphWords < 50) score += 15; // Short paragraphs
+    else if (avgParagraphWords < 100) score += 10; // Medium paragraphs
+    else score += 5; // Long paragraphs
+  }
+  
+  // Readability indicators
+  const foundTerms = rules.plainLanguageTerms.filter(term => prose.toLowerCase().includes(term));
+  score += Math.min(foundTerms.length * 5, 15);
+  if (foundTerms.length > 0) evidence.push(`Plain-language phrases: ${foundTerms.join(', ')}`);
+  
+  return Math.max(10, Math.min(100, score));
+}
+
+export function assessFreshness(data: WebsiteData, evidence: string[]): number {
+  let score = 10; // Base score
+  const content = data.mainContent.toLowerCase();
+  const currentYear = new Date().getFullYear();
+  
+  // Current year references (weighted by frequency)
+  const currentYearMatches = (content.match(new RegExp(currentYear.toString(), 'g')) || []).length;
+  score += Math.min(currentYearMatches * 15, 30);
+  
+  // Previous year (less weight)
+  const lastYearMatches = (content.match(new RegExp((currentYear - 1).toString(), 'g')) || []).length;
+  score += Math.min(lastYearMatches * 10, 20);
+  evidence.push(`Mentions of ${currentYear}: ${currentYearMatches} · of ${currentYear - 1}: ${lastYearMatches}`);
+  
+  // Freshness indicators with varying weights
+  const freshnessTerms = {
+    'updated': 15,
+    'revised': 12,
+    'latest': 10,
+    'current': 8,
+    'recent': 8,
+    'new': 6,
+    'today': 12,
+    'this year': 10,
+    'recently': 8
+  };
+  
+  let freshnessScore = 0;
+  const foundFreshnessTerms: string[] = [];
+  Object.entries(freshnessTerms).forEach(([term, weight]) => {
+    if (content.includes(term)) {
+      freshnessScore += weight;
+      foundFreshnessTerms.push(term);
+    }
+  });
+  score += Math.min(freshnessScore, 25);
+  if (foundFreshnessTerms.length > 0) evidence.push(`Freshness terms: ${foundFreshnessTerms.join(', ')}`);
+  
+  // Month references (indicates recent content)
+  const months = ['january', 'february', 'march', 'april', 'may', 'june', 
+                 'july', 'august', 'september', 'october', 'november', 'december'];
+  const monthMentions = months.filter(month => content.includes(month)).length;
+  score += Math.min(monthMentions * 3, 15);
+  
+  // Version indicators
+  const versionPatterns = ['version', 'v.', 'update', 'release'];
+  const versionMentions = versionPatterns.filter(pattern => content.includes(pattern)).length;
+  score += Math.min(versionMentions * 5, 15);
+  
+  // Penalty for old years
+  const oldYears = ['2020', '2019', '2018', '2017'];
+  const oldYearMatches = oldYears.filter(year => content.includes(year));
+  score -= Math.min(oldYearMatches.length * 5, 20);
+  if (oldYearMatches.length > 0) evidence.push(`Outdated years: ${oldYearMatches.join(', ')}`);
+  
+  return Math.max(5, Math.min(100, score));
+}
+
+// Answer engines prefer sources that are served securely
+export function assessCredibility(data: WebsiteData, evidence: string[]): number {
+  const security = securityAnalyzer.analyze(data);
+  evidence.push(...security.results.map(result => result.title));
+  return security.score;
+}
+
+// Paragraph blocks long enough to be real prose rather than labels or buttons
+function getParagraphs(data: WebsiteData): ContentBlock[] {
+  return data.blocks.filter(b => b.type === 'paragraph' && countWords(b.text) >= 5);
+}
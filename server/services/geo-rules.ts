@@ -0,0 +1,484 @@
+import type { WebsiteData, GeoResult, GeoFactor, CrawlerAccess, RuleCategory } from '@shared/schema';
+import { always, type AuditRule, type RuleOutcome } from './rule-engine';
+import { AiPolicyAnalyzer } from './ai-policy-analyzer';
+import {
+  assessCrawlability,
+  assessHtmlStructure,
+  assessContentClarity,
+  assessScanability,
+  assessSummarySections,
+  assessQaFormat,
+  assessSchemaMarkup,
+  assessTrustedEntities,
+  assessDataFormats,
+  assessReadability,
+  assessFreshness,
+  assessCredibility,
+  measureJavascriptContent,
+} from './geo-factors';
+
+type Result = Omit<GeoResult, 'ruleId'>;
+
+const aiPolicyAnalyzer = new AiPolicyAnalyzer();
+
+const pass = (...results: Result[]): RuleOutcome<GeoResult> => ({ score: 1, results });
+const fail = (...results: Result[]): RuleOutcome<GeoResult> => ({ score: 0, results });
+const withEvidence = (outcome: RuleOutcome<GeoResult>, ...evidence: string[]) => ({ ...outcome, evidence });
+
+const describeCrawlers = (crawlers: CrawlerAccess[]) => crawlers
+  .map(c => `${c.crawler}: ${c.allowed ? 'allowed' : 'blocked'}${c.matchedRule ? ` (${c.matchedRule})` : ''}`)
+  .join(' · ');
+const crawlersFor = (data: WebsiteData, purposes: CrawlerAccess['purpose'][]) =>
+  data.robotsTxt!.crawlers.filter(c => purposes.includes(c.purpose));
+// Crawler rules are meaningless when robots.txt could not be read at all
+const robotsTxtRead = (data: WebsiteData) => !!data.robotsTxt && data.robotsTxt.status !== 'unreachable';
+
+// Factors weigh the same unless the scoring profile says otherwise
+const FACTOR_WEIGHT = 10;
+
+export interface GeoFactorRule extends AuditRule<GeoResult> {
+  // What the factor measures, shown beside its score
+  description: string;
+}
+
+interface FactorDefinition {
+  id: string;
+  name: string;
+  category: RuleCategory;
+  description: string;
+  assess: (data: WebsiteData, evidence: string[]) => number;
+  passed: Pick<Result, 'title' | 'description'>;
+  failed: Pick<Result, 'title' | 'description'>;
+}
+
+export const factorStatus = (score: number): GeoFactor['status'] => score >= 80 ? 'pass' : score >= 50 ? 'warning' : 'fail';
+
+// A factor scored from 0 to 100 earns that share of its weight and reports one result for its status
+const factorRule = ({ assess, passed, failed, ...definition }: FactorDefinition): GeoFactorRule => ({
+  ...definition,
+  severity: 'major',
+  weight: FACTOR_WEIGHT,
+  appliesTo: always,
+  evaluate: data => {
+    const evidence: string[] = [];
+    const score = assess(data, evidence);
+    const status = factorStatus(score);
+    return {
+      score: score / 100,
+      results: [status === 'pass'
+        ? { type: 'success', ...passed }
+        : { type: status === 'warning' ? 'warning' : 'error', ...failed }],
+      evidence,
+    };
+  },
+});
+
+// The factors behind the AI score, in the order reports show them
+export const GEO_FACTOR_RULES: GeoFactorRule[] = [
+  factorRule({
+    id: 'geo.crawlability',
+    name: 'Public Crawlability',
+    category: 'ai-access',
+    description: 'robots.txt access for search engines and AI crawlers, and content they see without JavaScript',
+    assess: assessCrawlability,
+    passed: {
+      title: 'Open to search and AI crawlers',
+      description: 'Search engines and AI crawlers may fetch this page, and its content is in the raw HTML they read.',
+    },
+    failed: {
+      title: 'AI crawlers are blocked or miss content',
+      description: 'robots.txt blocks search or AI crawlers, or the content depends on JavaScript that most AI crawlers do not run.',
+    },
+  }),
+  factorRule({
+    id: 'geo.heading-structure',
+    name: 'HTML Structure',
+    category: 'ai-content',
+    description: 'Clean semantic HTML with proper heading hierarchy',
+    assess: assessHtmlStructure,
+    passed: {
+      title: 'Content structured with clear headings',
+      description: 'Good use of heading structure that AI engines can easily parse and understand.',
+    },
+    failed: {
+      title: 'Poor heading structure for AI',
+      description: 'Use a single H1 and add H2 and H3 headings without skipping levels to improve AI readability and content parsing.',
+    },
+  }),
+  factorRule({
+    id: 'geo.content-clarity',
+    name: 'Content Clarity',
+    category: 'ai-content',
+    description: 'Clear introduction, topic definition, and direct question answers',
+    assess: assessContentClarity,
+    passed: {
+      title: 'Clear, focused content',
+      description: 'The content introduces its topic, defines its terms and stays on the subject of the title.',
+    },
+    failed: {
+      title: 'Topic not clearly introduced',
+      description: 'Add a clear introduction, definitions and direct answers so AI tools can tell what the page is about.',
+    },
+  }),
+  factorRule({
+    id: 'geo.scannability',
+    name: 'Content Scannability',
+    category: 'ai-content',
+    description: 'Short paragraphs and easy-to-summarize content structure',
+    assess: assessScanability,
+    passed: {
+      title: 'Content is easy to scan',
+      description: 'Short paragraphs, lists and frequent headings make the content easy to summarize.',
+    },
+    failed: {
+      title: 'Content is hard to scan',
+      description: 'Break up long paragraphs and use lists, tables and more headings so AI tools can pick out the key points.',
+    },
+  }),
+  factorRule({
+    id: 'geo.summary',
+    name: 'TL;DR & Summary',
+    category: 'ai-content',
+    description: 'Quick summary sections at top or bottom of content',
+    assess: assessSummarySections,
+    passed: {
+      title: 'Summary content present',
+      description: 'Content includes summary sections that AI tools can easily extract.',
+    },
+    failed: {
+      title: 'No clear TL;DR summary',
+      description: 'AI tools prefer concise summaries. Add a TL;DR section to improve AI-driven content discovery.',
+    },
+  }),
+  factorRule({
+    id: 'geo.question-answer',
+    name: 'Q&A Format',
+    category: 'ai-content',
+    description: 'Structured question-answer blocks that AI can easily extract',
+    assess: assessQaFormat,
+    passed: {
+      title: 'Question-answer format detected',
+      description: 'Content addresses user questions directly, improving AI platform visibility.',
+    },
+    failed: {
+      title: 'Limited question-answer format',
+      description: 'Content doesn\'t directly answer user intent queries. Consider restructuring with Q&A sections.',
+    },
+  }),
+  factorRule({
+    id: 'geo.schema',
+    name: 'Schema Markup',
+    category: 'structured-data',
+    description: 'Valid, complete structured data (JSON-LD, Microdata or RDFa)',
+    assess: assessSchemaMarkup,
+    passed: {
+      title: 'Schema markup enhances AI understanding',
+      description: 'Structured data helps AI platforms understand content relationships and context.',
+    },
+    failed: {
+      title: 'Missing or incomplete schema markup',
+      description: 'Structured data is missing or has errors. Schema markup helps AI engines understand your content context.',
+    },
+  }),
+  factorRule({
+    id: 'geo.entities',
+    name: 'Trusted Entities',
+    category: 'ai-content',
+    description: 'References to organizations, authority sources, and credible links',
+    assess: assessTrustedEntities,
+    passed: {
+      title: 'Good entity and source references',
+      description: 'Content names organizations and authoritative sources and links to them, which improves AI understanding.',
+    },
+    failed: {
+      title: 'Few trusted entities or sources',
+      description: 'Cite research and authoritative sources, name the organizations involved and link to them to improve AI understanding.',
+    },
+  }),
+  factorRule({
+    id: 'geo.data-extraction',
+    name: 'Data Extraction',
+    category: 'ai-content',
+    description: 'Bullet lists, tables, statistics, and structured information',
+    assess: assessDataFormats,
+    passed: {
+      title: 'Facts in extractable formats',
+      description: 'Lists, tables and specific numbers give AI tools facts they can quote.',
+    },
+    failed: {
+      title: 'Little extractable data',
+      description: 'Present key facts as lists, tables and specific numbers that AI tools can quote.',
+    },
+  }),
+  factorRule({
+    id: 'geo.readability',
+    name: 'Readability Level',
+    category: 'ai-content',
+    description: '8th-grade reading level, minimal jargon and marketing fluff',
+    assess: assessReadability,
+    passed: {
+      title: 'Easy to read',
+      description: 'Short sentences and plain language are easy for AI tools to restate accurately.',
+    },
+    failed: {
+      title: 'Hard to read',
+      description: 'Use shorter sentences and simpler vocabulary so AI tools can restate the content accurately.',
+    },
+  }),
+  factorRule({
+    id: 'geo.freshness',
+    name: 'Content Freshness',
+    category: 'ai-content',
+    description: 'Updated dates, current year references, and freshness indicators',
+    assess: assessFreshness,
+    passed: {
+      title: 'Content looks current',
+      description: 'Recent dates and update markers show AI platforms that the content is up to date.',
+    },
+    failed: {
+      title: 'Few freshness signals',
+      description: 'Show when the content was last updated and reference current dates. AI platforms prefer up-to-date sources.',
+    },
+  }),
+  factorRule({
+    id: 'geo.credibility',
+    name: 'Credibility Markers',
+    category: 'server',
+    description: 'HTTPS, a valid certificate, no mixed content, secure forms and security headers',
+    assess: assessCredibility,
+    passed: {
+      title: 'Served securely',
+      description: 'HTTPS, a valid certificate and security headers make this a source answer engines can safely link to.',
+    },
+    failed: {
+      title: 'Security issues undermine credibility',
+      description: 'Fix the issues under Security & Trust. Answer engines and browsers are less likely to send visitors to insecure pages.',
+    },
+  }),
+];
+
+// Every check of the GEO audit, in the order results are shown. Only the factors are scored;
+// the other checks explain them (e.g. which crawler is blocked) without adding points of their own
+export const GEO_RULES: AuditRule<GeoResult>[] = [
+  ...GEO_FACTOR_RULES,
+  {
+    // Share of the page that is navigation, footers and banners rather than content
+    id: 'geo.boilerplate',
+    name: 'Main content extraction',
+    category: 'ai-content',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: always,
+    evaluate: data => {
+      const details = `${Math.round(data.boilerplateRatio * 100)}% boilerplate · ${data.wordCount} of ${data.fullWordCount} words in <${data.mainContentSource}>`;
+      return data.boilerplateRatio > 0.6
+        ? fail({
+          type: 'warning',
+          title: 'Main content buried in boilerplate',
+          description: 'Most of the page text is navigation, footers or banners. AI tools may quote your menu instead of your content.',
+          details,
+        })
+        : pass({
+          type: 'success',
+          title: 'Main content clearly separated',
+          description: 'The main content stands out from navigation and footers, so AI tools can extract it cleanly.',
+          details,
+        });
+    },
+  },
+  {
+    // robots.txt only exists for fetched pages; failing it still caps the score, since nothing can be crawled
+    id: 'geo.robots-txt-reachable',
+    name: 'robots.txt reachable',
+    category: 'ai-access',
+    severity: 'critical',
+    weight: 0,
+    appliesTo: data => !!data.robotsTxt,
+    evaluate: data => {
+      const robotsTxt = data.robotsTxt!;
+      if (robotsTxt.status !== 'unreachable') {
+        return withEvidence(pass(), robotsTxt.statusCode ? `${robotsTxt.url} returned HTTP ${robotsTxt.statusCode}` : robotsTxt.url);
+      }
+      return fail({
+        type: 'error',
+        title: 'robots.txt could not be fetched',
+        description: 'Crawlers treat an unreachable robots.txt (server error or timeout) as "disallow everything", so AI platforms will skip this site.',
+        details: robotsTxt.statusCode ? `${robotsTxt.url} returned HTTP ${robotsTxt.statusCode}` : `${robotsTxt.url} did not respond`,
+      });
+    },
+  },
+  {
+    id: 'geo.search-crawlers',
+    name: 'Search engine crawlers',
+    category: 'ai-access',
+    severity: 'major',
+    weight: 0,
+    appliesTo: robotsTxtRead,
+    evaluate: data => {
+      const searchCrawlers = crawlersFor(data, ['search']);
+      const blocked = searchCrawlers.filter(c => !c.allowed);
+      if (blocked.length === 0) return withEvidence(pass(), describeCrawlers(searchCrawlers));
+      return fail({
+        type: 'error',
+        title: 'Search engine crawlers blocked',
+        description: 'robots.txt blocks search engine crawlers from this page. Google AI Overviews and Copilot answers are built from these indexes.',
+        details: describeCrawlers(blocked),
+      });
+    },
+  },
+  {
+    id: 'geo.ai-search-crawlers',
+    name: 'AI search crawlers',
+    category: 'ai-access',
+    severity: 'major',
+    weight: 0,
+    appliesTo: robotsTxtRead,
+    evaluate: data => {
+      const answerCrawlers = crawlersFor(data, ['ai-search', 'ai-assistant']);
+      const blocked = answerCrawlers.filter(c => !c.allowed);
+      if (blocked.length > 0) {
+        return fail({
+          type: 'error',
+          title: 'AI search crawlers blocked',
+          description: 'robots.txt blocks the bots that ChatGPT search and Perplexity use to fetch and cite pages in their answers.',
+          details: describeCrawlers(blocked),
+        });
+      }
+      return pass({
+        type: 'success',
+        title: 'AI search crawlers allowed',
+        description: 'ChatGPT search and Perplexity bots can fetch this page and cite it in answers.',
+        details: describeCrawlers(answerCrawlers),
+      });
+    },
+  },
+  {
+    // Keeping content out of training is a legitimate choice, so it is reported without scoring
+    id: 'geo.ai-training-crawlers',
+    name: 'AI training crawlers',
+    category: 'ai-access',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: robotsTxtRead,
+    evaluate: data => {
+      const trainingCrawlers = crawlersFor(data, ['ai-training']);
+      const blocked = trainingCrawlers.filter(c => !c.allowed);
+      if (blocked.length > 0) {
+        return fail({
+          type: 'warning',
+          title: 'AI training crawlers blocked',
+          description: 'Some AI training bots are blocked. This keeps your content out of model training, but models will know less about your brand.',
+          details: describeCrawlers(blocked),
+        });
+      }
+      return pass({
+        type: 'success',
+        title: 'AI training crawlers allowed',
+        description: 'AI training bots can read this page, so models can learn about your brand and content.',
+        details: describeCrawlers(trainingCrawlers),
+      });
+    },
+  },
+  {
+    // robots.txt, noai, TDMRep, ai.txt and llms.txt read together; the summary is stored on the report
+    id: 'geo.ai-usage-signals',
+    name: 'AI usage signals',
+    category: 'ai-access',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: always,
+    evaluate: data => {
+      const policy = aiPolicyAnalyzer.summarize(data);
+      if (policy.conflicts.length > 0) {
+        return fail({
+          type: 'warning',
+          title: 'AI usage signals contradict each other',
+          description: 'robots.txt, meta tags, headers and policy files say different things about AI use. AI companies follow whichever signal they read, so make them agree.',
+          details: policy.conflicts.join(' · '),
+        });
+      }
+      if (!policy.signals.some(signal => signal.source !== 'robots.txt' && signal.stance !== 'unset')) return pass();
+      return pass({
+        type: 'success',
+        title: 'AI usage signals agree',
+        description: policy.summary,
+      });
+    },
+  },
+  {
+    id: 'geo.llms-txt',
+    name: 'llms.txt',
+    category: 'ai-access',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: data => data.aiPolicyFiles?.llmsTxt.status === 'found',
+    evaluate: data => {
+      const { llmsTxt } = data.aiPolicyFiles!;
+      if (llmsTxt.problems.length > 0) {
+        return fail({
+          type: 'warning',
+          title: 'llms.txt does not follow the format',
+          description: 'LLM tools expect an H1 title, a "> summary" line and H2 sections listing [name](url) links. Fix the structure so they can find the pages it points to.',
+          details: llmsTxt.problems.join(' · '),
+        });
+      }
+      return pass({
+        type: 'success',
+        title: 'Valid llms.txt',
+        description: 'The site offers LLM tools a curated list of its key pages.',
+        details: `${llmsTxt.linkCount} links in ${llmsTxt.sections.length} sections`,
+      });
+    },
+  },
+  {
+    id: 'geo.tdmrep',
+    name: 'tdmrep.json',
+    category: 'ai-access',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: data => !!data.aiPolicyFiles?.tdmRep.error,
+    evaluate: data => fail({
+      type: 'warning',
+      title: 'Invalid tdmrep.json',
+      description: 'Mining crawlers cannot read the text and data mining reservation in /.well-known/tdmrep.json.',
+      details: data.aiPolicyFiles!.tdmRep.error,
+    }),
+  },
+  {
+    // Most AI crawlers read the raw HTML only, so anything added by scripts is invisible to them
+    id: 'geo.javascript-content',
+    name: 'Content without JavaScript',
+    category: 'ai-access',
+    severity: 'major',
+    weight: 0,
+    appliesTo: always,
+    evaluate: data => {
+      const { dependence, summary } = measureJavascriptContent(data);
+      if (dependence === 'key') {
+        return fail({
+          type: 'error',
+          title: 'Key content only appears after JavaScript runs',
+          description: 'The raw HTML is an empty app shell. ChatGPT, Claude and Perplexity crawlers do not execute JavaScript, so they see no content. Render it on the server or pre-render the page.',
+          details: summary,
+        });
+      }
+      if (dependence === 'some') {
+        return {
+          score: 0.75,
+          results: [{
+            type: 'warning',
+            title: 'Some content is added by JavaScript',
+            description: 'Part of the page is mounted by scripts into an empty element and is invisible to most AI crawlers.',
+            details: summary,
+          }],
+        };
+      }
+      return pass({
+        type: 'success',
+        title: 'Content does not depend on JavaScript',
+        description: 'The raw HTML already contains the page content, so AI crawlers see the full page.',
+        details: summary,
+      });
+    },
+  },
+];
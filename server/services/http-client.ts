@@ -0,0 +1,189 @@
+import { Agent, ProxyAgent, fetch, type Dispatcher, type RequestInit, type Response } from 'undici';
+import type { RedirectHop } from '@shared/schema';
+import { NetworkPolicy, NetworkPolicyError } from './network-policy';
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)';
+const MAX_REDIRECTS = 10;
+
+// Every outgoing request of the scraper goes through this policy and agent
+export const networkPolicy = new NetworkPolicy();
+const agent = new Agent({ connect: { lookup: networkPolicy.lookup } });
+
+export type { Response };
+
+// Request settings from a fetch profile, ready to be sent
+export interface RequestProfile {
+  // User agent and Accept-Language, sent with every request
+  headers: Record<string, string>;
+  // Cookies, basic auth and custom headers, only sent to credentialOrigin (scheme, host and port) so they never
+  // reach third parties or travel over plain http after a downgrade
+  credentialHeaders: Record<string, string>;
+  credentialOrigin: string;
+  proxyUrl: string | null;
+  timeoutMs: number | null;
+}
+
+const proxyAgents = new Map<string, ProxyAgent>();
+
+export interface FetchResult {
+  response: Response;
+  redirects: RedirectHop[];
+  finalUrl: string;
+}
+
+// fetch() that follows redirects itself so that every hop (status and Location) is recorded
+// and checked against the network policy before it is requested
+export async function fetchWithRedirects(url: string, init: RequestInit = {}, profile?: RequestProfile): Promise<FetchResult> {
+  const redirects: RedirectHop[] = [];
+  let currentUrl = url;
+
+  // The total time cap covers all hops and, since the signal stays attached, reading the body
+  const timeLimit = Math.min(profile?.timeoutMs ?? Infinity, networkPolicy.config.maxFetchMs);
+  const deadline = AbortSignal.timeout(timeLimit);
+  const signal = init.signal ? AbortSignal.any([init.signal as AbortSignal, deadline]) : deadline;
+  const dispatcher = await getDispatcher(profile);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await networkPolicy.checkUrl(currentUrl);
+
+    let response: Response;
+    try {
+      response = await fetch(currentUrl, {
+        ...init,
+        headers: {
+          'User-Agent': USER_AGENT,
+          ...profile?.headers,
+          ...(profile && new URL(currentUrl).origin === profile.credentialOrigin ? profile.credentialHeaders : {}),
+          ...init.headers,
+        },
+        redirect: 'manual',
+        signal,
+        dispatcher,
+      });
+    } catch (error) {
+      throw unwrapPolicyError(error, currentUrl, deadline.aborted, timeLimit);
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, redirects, finalUrl: currentUrl };
+    }
+
+    // Only the final response body is read
+    await response.body?.cancel();
+    const nextUrl = new URL(location, currentUrl).toString();
+    redirects.push({ url: currentUrl, statusCode: response.status, location: nextUrl });
+
+    if (redirects.some(redirect => redirect.url === nextUrl)) {
+      throw new Error(`Redirect loop detected at ${nextUrl}`);
+    }
+    currentUrl = nextUrl;
+  }
+
+  throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+}
+
+// Calls fn for every item with at most `limit` calls in flight, so pages with many targets do not flood hosts;
+// results keep the order of the items
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Reads a response body, giving up once it exceeds maxBytes instead of buffering it all
+export async function readBody(response: Response, maxBytes: number = networkPolicy.config.maxBodyBytes): Promise<Buffer> {
+  const declared = parseInt(response.headers.get('content-length') || '');
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new NetworkPolicyError('body_too_large', `Response is larger than ${formatBytes(maxBytes)}`, response.url);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new NetworkPolicyError('body_too_large', `Response is larger than ${formatBytes(maxBytes)}`, response.url);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    throw unwrapPolicyError(error, response.url, true, networkPolicy.config.maxFetchMs);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+// Reads at most the first maxBytes of a body and discards the rest, e.g. to sniff a file's format
+export async function readPrefix(response: Response, maxBytes: number): Promise<{ bytes: Buffer; complete: boolean }> {
+  if (!response.body) return { bytes: Buffer.alloc(0), complete: true };
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  try {
+    while (size < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) return { bytes: Buffer.concat(chunks), complete: true };
+      size += value.byteLength;
+      chunks.push(value);
+    }
+    await reader.cancel();
+  } catch (error) {
+    throw unwrapPolicyError(error, response.url, true, networkPolicy.config.maxFetchMs);
+  }
+
+  return { bytes: Buffer.concat(chunks).subarray(0, maxBytes), complete: false };
+}
+
+// fetch() reports network failures as "fetch failed"; the useful reason (ECONNREFUSED, ENOTFOUND, ...) is in the cause
+export function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error)) return 'Request failed';
+  if (error.name === 'TimeoutError') return 'Timed out';
+  const cause = error.cause as { code?: string; message?: string } | undefined;
+  return cause?.code ?? cause?.message ?? error.message;
+}
+
+// Policy rejections from the connect-time lookup and the total time cap arrive wrapped in fetch errors
+function unwrapPolicyError(error: unknown, url: string, deadlinePassed: boolean, timeLimit: number): unknown {
+  if (error instanceof NetworkPolicyError) return error;
+  if (error instanceof Error && error.cause instanceof NetworkPolicyError) {
+    return new NetworkPolicyError(error.cause.code, error.cause.message, url);
+  }
+  if (deadlinePassed && error instanceof Error && error.name === 'TimeoutError') {
+    return new NetworkPolicyError('timeout', `Request did not finish within ${timeLimit / 1000}s`, url);
+  }
+  return error;
+}
+
+// Requests through a profile's proxy share one agent per proxy; the proxy itself must pass the network policy,
+// and connections to it resolve through the policy's lookup like direct requests do
+async function getDispatcher(profile?: RequestProfile): Promise<Dispatcher> {
+  if (!profile?.proxyUrl) return agent;
+
+  await networkPolicy.checkUrl(profile.proxyUrl);
+  let proxyAgent = proxyAgents.get(profile.proxyUrl);
+  if (!proxyAgent) {
+    proxyAgent = new ProxyAgent({ uri: profile.proxyUrl, proxyTls: { lookup: networkPolicy.lookup } });
+    proxyAgents.set(profile.proxyUrl, proxyAgent);
+  }
+  return proxyAgent;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
@@ -0,0 +1,114 @@
+export interface ImageHeader {
+  format: string;
+  width: number | null;
+  height: number | null;
+}
+
+// Reads the format and intrinsic size from the first bytes of an image file, or null if the format is not recognized
+export function readImageHeader(bytes: Buffer): ImageHeader | null {
+  if (bytes.length < 12) return readSvg(bytes);
+
+  if (bytes.readUInt32BE(0) === 0x89504e47) {
+    return bytes.length >= 24 ? { format: 'png', width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) } : { format: 'png', width: null, height: null };
+  }
+  if (bytes.toString('ascii', 0, 4) === 'GIF8') {
+    return { format: 'gif', width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return { format: 'jpeg', ...readJpegSize(bytes) };
+  }
+  if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') {
+    return { format: 'webp', ...readWebpSize(bytes) };
+  }
+  if (bytes.toString('ascii', 4, 8) === 'ftyp') {
+    return readIsoMedia(bytes);
+  }
+  if (bytes.toString('ascii', 0, 2) === 'BM' && bytes.length >= 26) {
+    return { format: 'bmp', width: bytes.readInt32LE(18), height: Math.abs(bytes.readInt32LE(22)) };
+  }
+  if (bytes.readUInt32BE(0) === 0x00000100) {
+    // 0 in an ICO directory entry means 256 pixels
+    return { format: 'ico', width: bytes[6] || 256, height: bytes[7] || 256 };
+  }
+  return readSvg(bytes);
+}
+
+// The size is in the first start-of-frame segment; every other segment is skipped by its length
+function readJpegSize(bytes: Buffer): { width: number | null; height: number | null } {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return { width: null, height: null };
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Markers without a payload
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: bytes.readUInt16BE(offset + 5), width: bytes.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return { width: null, height: null };
+}
+
+function readWebpSize(bytes: Buffer): { width: number | null; height: number | null } {
+  if (bytes.length < 30) return { width: null, height: null };
+  switch (bytes.toString('ascii', 12, 16)) {
+    case 'VP8 ':
+      return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = bytes.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+    default:
+      return { width: null, height: null };
+  }
+}
+
+// AVIF and HEIC are ISO media files; the size is in an "ispe" property box (the largest one, since thumbnails have their own)
+function readIsoMedia(bytes: Buffer): ImageHeader | null {
+  const brands = bytes.toString('ascii', 8, Math.min(bytes.readUInt32BE(0), bytes.length));
+  const format = /avi[fs]/.test(brands) ? 'avif' : /hei[cxms]|mif1/.test(brands) ? 'heic' : null;
+  if (!format) return null;
+
+  let width: number | null = null;
+  let height: number | null = null;
+  for (let offset = bytes.indexOf('ispe'); offset !== -1 && offset + 16 <= bytes.length; offset = bytes.indexOf('ispe', offset + 4)) {
+    // Box type, then 4 bytes of version and flags, then width and height
+    const boxWidth = bytes.readUInt32BE(offset + 8);
+    const boxHeight = bytes.readUInt32BE(offset + 12);
+    if (width === null || boxWidth > width) {
+      width = boxWidth;
+      height = boxHeight;
+    }
+  }
+  return { format, width, height };
+}
+
+function readSvg(bytes: Buffer): ImageHeader | null {
+  const text = bytes.toString('utf8');
+  const svg = text.match(/<svg\b[^>]*>/i)?.[0];
+  if (!svg || !/^\s*(<\?xml|<!--|<!doctype|<svg)/i.test(text.replace(/^\uFEFF/, ''))) return null;
+
+  // Only absolute pixel sizes count; percentages and em depend on where the image is used
+  const attribute = (name: string) => {
+    const value = svg.match(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(px)?\\s*["']`, 'i'))?.[1];
+    return value ? Math.round(parseFloat(value)) : null;
+  };
+  const viewBox = svg.match(/\sviewBox\s*=\s*["']([^"']+)["']/i)?.[1].trim().split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox?.length === 4 && viewBox.every(value => !isNaN(value));
+
+  return {
+    format: 'svg',
+    width: attribute('width') ?? (hasViewBox ? Math.round(viewBox![2]) : null),
+    height: attribute('height') ?? (hasViewBox ? Math.round(viewBox![3]) : null),
+  };
+}
@@ -0,0 +1,119 @@
+import type { ImageAsset, ImageElement } from '@shared/schema';
+import { fetchWithRedirects, readPrefix, describeFetchError, mapWithConcurrency, type RequestProfile } from './http-client';
+import { readImageHeader } from './image-header';
+
+const MAX_IMAGES = 100;
+const CONCURRENCY = 6;
+const TIMEOUT_MS = 10000;
+// Enough for the header of every supported format, including JPEGs with large EXIF blocks
+const PREFIX_BYTES = 64 * 1024;
+// What browsers send, so servers that negotiate WebP/AVIF answer as they would for visitors
+const IMAGE_ACCEPT = 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8';
+
+export interface SrcsetCandidate {
+  url: string;
+  // "800w", "2x" or empty
+  descriptor: string;
+}
+
+export class ImageInspector {
+  // Fetches the start of every image the page references (src, srcset and <picture> sources) to learn its size and format
+  async inspect(pageUrl: string, images: ImageElement[], profile?: RequestProfile): Promise<ImageAsset[]> {
+    // Every src comes before srcset candidates, so the limit drops alternates before main images
+    const urls = new Set<string>();
+    const add = (href: string) => {
+      const url = resolveImageUrl(href, pageUrl);
+      if (url && urls.size < MAX_IMAGES) urls.add(url);
+    };
+    images.forEach(image => add(image.src));
+    images.forEach(image => {
+      parseSrcset(image.srcset).forEach(candidate => add(candidate.url));
+      image.sources.forEach(source => parseSrcset(source.srcset).forEach(candidate => add(candidate.url)));
+    });
+
+    return mapWithConcurrency(Array.from(urls), CONCURRENCY, async url =>
+      url.startsWith('data:') ? this.inspectDataUri(url) : this.fetchAsset(url, profile));
+  }
+
+  private async fetchAsset(url: string, profile?: RequestProfile): Promise<ImageAsset> {
+    const asset: ImageAsset = { url, statusCode: null, bytes: null, mimeType: '', format: null, width: null, height: null };
+
+    try {
+      // A range request avoids downloading large files; servers that ignore it send the whole file, which is cut off below
+      const { response } = await fetchWithRedirects(url, {
+        headers: { Accept: IMAGE_ACCEPT, Range: `bytes=0-${PREFIX_BYTES - 1}` },
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }, profile);
+
+      asset.statusCode = response.status;
+      asset.mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+      if (!response.ok) {
+        await response.body?.cancel();
+        return asset;
+      }
+
+      const { bytes, complete } = await readPrefix(response, PREFIX_BYTES);
+      const totalFromRange = response.headers.get('content-range')?.match(/\/(\d+)$/)?.[1];
+      const contentLength = parseInt(response.headers.get('content-length') || '');
+      if (totalFromRange) {
+        asset.bytes = parseInt(totalFromRange);
+      } else if (response.status === 200 && !isNaN(contentLength)) {
+        asset.bytes = contentLength;
+      } else if (complete) {
+        asset.bytes = bytes.length;
+      }
+
+      Object.assign(asset, readImageHeader(bytes));
+    } catch (error) {
+      asset.error = describeFetchError(error);
+    }
+
+    return asset;
+  }
+
+  // Inline images are part of the HTML, so they are measured without a request
+  private inspectDataUri(url: string): ImageAsset {
+    const invalid: ImageAsset = { url, statusCode: null, bytes: null, mimeType: '', format: null, width: null, height: null, error: 'Invalid data URI' };
+    const match = url.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/);
+    if (!match) return invalid;
+
+    let data: Buffer;
+    try {
+      data = match[2].includes(';base64') ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]));
+    } catch {
+      return invalid;
+    }
+    return {
+      url,
+      statusCode: null,
+      bytes: data.length,
+      mimeType: match[1].toLowerCase(),
+      format: null,
+      width: null,
+      height: null,
+      ...readImageHeader(data),
+    };
+  }
+}
+
+// "a.jpg 480w, b.jpg 800w" → [{ url: "a.jpg", descriptor: "480w" }, ...]
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+  const candidates: SrcsetCandidate[] = [];
+  const pattern = /\s*([^\s,][^\s]*?)(?:\s+([\d.]+[wxh]))?\s*(?:,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(srcset)) !== null && match[0] !== '') {
+    candidates.push({ url: match[1], descriptor: match[2] || '' });
+  }
+  return candidates;
+}
+
+export function resolveImageUrl(href: string, pageUrl: string): string | null {
+  if (!href.trim()) return null;
+  if (href.startsWith('data:')) return href;
+  try {
+    const url = new URL(href, pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,105 @@
+import type { LinkCheckResult, WebsiteData } from '@shared/schema';
+import { fetchWithRedirects, describeFetchError, mapWithConcurrency, type RequestProfile } from './http-client';
+
+const MAX_LINKS = 200;
+const CONCURRENCY = 8;
+const PER_HOST_CONCURRENCY = 2;
+const PER_HOST_DELAY_MS = 250;
+const TIMEOUT_MS = 10000;
+
+// Servers that reject HEAD requests answer with one of these; the link is then retried with GET
+const HEAD_UNSUPPORTED = new Set([400, 403, 405, 406, 501]);
+
+export class LinkChecker {
+  private activeByHost = new Map<string, number>();
+  private lastRequestByHost = new Map<string, number>();
+
+  async checkLinks(pageUrl: string, links: WebsiteData['links'], profile?: RequestProfile): Promise<LinkCheckResult[]> {
+    const pageHost = new URL(pageUrl).hostname;
+    const targets = new Map<string, LinkCheckResult>();
+
+    for (const link of links) {
+      const url = this.resolveLink(link.href, pageUrl);
+      if (!url || targets.has(url)) continue;
+      if (targets.size >= MAX_LINKS) break;
+
+      targets.set(url, {
+        url,
+        href: link.href,
+        text: link.text,
+        isInternal: new URL(url).hostname === pageHost,
+        statusCode: null,
+        redirects: [],
+        finalUrl: url,
+        method: 'HEAD',
+      });
+    }
+
+    await mapWithConcurrency(Array.from(targets.values()), CONCURRENCY, result => this.check(result, profile));
+
+    return Array.from(targets.values());
+  }
+
+  private async check(result: LinkCheckResult, profile?: RequestProfile): Promise<void> {
+    const host = new URL(result.url).hostname;
+    await this.acquireHost(host);
+
+    try {
+      let { response, redirects, finalUrl } = await fetchWithRedirects(result.url, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }, profile);
+
+      if (HEAD_UNSUPPORTED.has(response.status)) {
+        ({ response, redirects, finalUrl } = await fetchWithRedirects(result.url, {
+          method: 'GET',
+          signal: AbortSignal.timeout(TIMEOUT_MS),
+        }, profile));
+        await response.body?.cancel();
+        result.method = 'GET';
+      }
+
+      result.statusCode = response.status;
+      result.redirects = redirects;
+      result.finalUrl = finalUrl;
+    } catch (error) {
+      result.error = describeFetchError(error);
+    } finally {
+      this.releaseHost(host);
+    }
+  }
+
+  // Waits until the host has a free slot and enough time has passed since its last request
+  private async acquireHost(host: string): Promise<void> {
+    while ((this.activeByHost.get(host) ?? 0) >= PER_HOST_CONCURRENCY) {
+      await sleep(PER_HOST_DELAY_MS);
+    }
+    this.activeByHost.set(host, (this.activeByHost.get(host) ?? 0) + 1);
+
+    const wait = (this.lastRequestByHost.get(host) ?? 0) + PER_HOST_DELAY_MS - Date.now();
+    this.lastRequestByHost.set(host, Date.now() + Math.max(wait, 0));
+    if (wait > 0) {
+      await sleep(wait);
+    }
+  }
+
+  private releaseHost(host: string): void {
+    this.activeByHost.set(host, (this.activeByHost.get(host) ?? 1) - 1);
+  }
+
+  private resolveLink(href: string, pageUrl: string): string | null {
+    if (href.startsWith('#')) return null;
+    try {
+      const url = new URL(href, pageUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
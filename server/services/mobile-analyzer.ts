@@ -0,0 +1,172 @@
+import type { WebsiteData, TraditionalSeoResult, CssDeclarationSample, InterstitialCandidate } from '@shared/schema';
+import { mergeCssSummaries, MAX_MOBILE_WIDTH_PX } from './css-scanner';
+
+// Lighthouse treats a maximum-scale below 5 as blocking zoom
+const MIN_MAXIMUM_SCALE = 5;
+
+export class MobileAnalyzer {
+  // Checks what can be seen without a phone: the viewport, the CSS and the markup of embeds and overlays
+  analyze(data: WebsiteData): TraditionalSeoResult[] {
+    const results: TraditionalSeoResult[] = [];
+    const css = mergeCssSummaries([
+      data.mobile.inlineCss,
+      ...(data.stylesheets ?? []).flatMap(stylesheet => (stylesheet.summary ? [stylesheet.summary] : [])),
+    ]);
+    const linkedStylesheets = data.resources.resources.filter(resource => resource.type === 'stylesheet').length;
+    // Without the linked stylesheets, missing media queries may just be in a file that was not read
+    const allCssRead = linkedStylesheets === 0 || data.stylesheets !== undefined;
+    // Unstyled HTML flows to any width, so it needs no media queries
+    const hasCss = linkedStylesheets > 0 || data.resources.inlineStyles > 0;
+
+    this.checkViewport(data.head.viewport, results);
+
+    // Responsive CSS
+    if (css.responsiveMediaQueries.length > 0) {
+      results.push({
+        type: 'success',
+        title: 'Responsive media queries found',
+        description: 'The CSS adapts the layout to the screen size.',
+        details: css.responsiveMediaQueries.slice(0, 5).join(' · '),
+        metrics: { 'Media queries': css.responsiveMediaQueries.length },
+      });
+    } else if (hasCss && allCssRead) {
+      results.push({
+        type: 'warning',
+        title: 'No responsive media queries',
+        description: 'None of the page\'s CSS changes with the screen width. Unless the layout is fluid throughout, phones get the desktop layout shrunk down.',
+      });
+    } else if (hasCss) {
+      results.push({
+        type: 'warning',
+        title: 'No media queries in inline CSS',
+        description: `The ${linkedStylesheets} linked ${linkedStylesheets === 1 ? 'stylesheet was' : 'stylesheets were'} not downloaded for this audit, so responsive rules may still be in them.`,
+      });
+    }
+
+    if (css.fixedWidthCount > 0) {
+      results.push({
+        type: css.fixedWidthCount > 5 ? 'error' : 'warning',
+        title: 'Fixed-width layout',
+        description: `Elements are set wider than ${MAX_MOBILE_WIDTH_PX}px with no media query overriding them, which makes phones scroll sideways. Use max-width or percentages instead.`,
+        details: describeSamples(css.fixedWidths),
+        metrics: { 'Fixed widths': css.fixedWidthCount },
+      });
+    }
+
+    if (css.tinyFontCount > 0) {
+      results.push({
+        type: 'warning',
+        title: 'Small font sizes',
+        description: 'Text below 12px is hard to read on a phone without zooming. Use at least 16px for body text.',
+        details: describeSamples(css.tinyFonts),
+        metrics: { 'Small font declarations': css.tinyFontCount },
+      });
+    }
+
+    // Plugins and embeds
+    const plugins = data.mobile.embeds.filter(embed => embed.plugin);
+    if (plugins.length > 0) {
+      results.push({
+        type: 'error',
+        title: 'Plugin content',
+        description: 'Flash, Java applets and Silverlight do not run on phones (or in current desktop browsers). Replace them with HTML5 video, images or JavaScript.',
+        details: plugins.slice(0, 5).map(embed => `<${embed.tag}> ${embed.src}`).join(' · '),
+      });
+    }
+
+    const rigidEmbeds = data.mobile.embeds.filter(embed => {
+      const width = parseInt(embed.width);
+      return !embed.plugin && !embed.responsive && !css.fluidEmbeds && /^\d+(px)?$/.test(embed.width) && width > MAX_MOBILE_WIDTH_PX;
+    });
+    if (rigidEmbeds.length > 0) {
+      results.push({
+        type: 'warning',
+        title: 'Embeds without a responsive wrapper',
+        description: 'These iframes have a fixed pixel width, so they overflow small screens. Wrap them in an aspect-ratio container or give them width: 100%.',
+        details: rigidEmbeds.slice(0, 5).map(embed => `<${embed.tag} width="${embed.width}"> ${embed.src}`).join(' · '),
+        metrics: { 'Embeds': rigidEmbeds.length },
+      });
+    }
+
+    // Popups that cover the content
+    const interstitials = data.mobile.interstitials.filter(candidate => candidate.modal || candidate.fixedInline || coveredByOverlayRule(candidate, css.fixedOverlays));
+    if (interstitials.length > 0) {
+      results.push({
+        type: 'warning',
+        title: 'Possible intrusive interstitial',
+        description: 'A full-screen popup or modal is in the page\'s markup. Google demotes pages whose content is covered on mobile right after arriving from search; use a small banner instead. Cookie and age notices are exempt.',
+        details: interstitials.slice(0, 3).map(candidate => candidate.text ? `${candidate.element}: "${candidate.text}"` : candidate.element).join(' · '),
+      });
+    }
+
+    if (!results.some(result => result.type !== 'success')) {
+      results.push({
+        type: 'success',
+        title: 'No mobile layout problems found',
+        description: 'No fixed widths, small fonts, plugins, rigid embeds or popups were found in the markup and CSS.',
+      });
+    }
+
+    return results;
+  }
+
+  private checkViewport(viewport: string, results: TraditionalSeoResult[]): void {
+    if (!viewport.trim()) {
+      results.push({
+        type: 'error',
+        title: 'Missing viewport meta tag',
+        description: 'Without <meta name="viewport" content="width=device-width, initial-scale=1"> phones render the page at desktop width and shrink it.',
+      });
+      return;
+    }
+
+    // "width=device-width, initial-scale=1" → { width: "device-width", "initial-scale": "1" }
+    const settings = new Map<string, string>();
+    viewport.split(/[,;]/).forEach(part => {
+      const [key, value = ''] = part.split('=').map(piece => piece.trim().toLowerCase());
+      if (key) settings.set(key, value);
+    });
+
+    const problems: string[] = [];
+    const width = settings.get('width');
+    if (width !== 'device-width') {
+      problems.push(width ? `width is fixed at ${width} instead of device-width` : 'width=device-width is missing');
+    }
+    const userScalable = settings.get('user-scalable');
+    const maximumScale = parseFloat(settings.get('maximum-scale') ?? '');
+    const zoomBlocked = userScalable === 'no' || userScalable === '0' || (!isNaN(maximumScale) && maximumScale < MIN_MAXIMUM_SCALE);
+    if (zoomBlocked) {
+      problems.push(userScalable === 'no' || userScalable === '0' ? 'user-scalable=no disables zoom' : `maximum-scale=${settings.get('maximum-scale')} limits zoom`);
+    }
+
+    if (problems.length > 0) {
+      results.push({
+        type: width !== 'device-width' ? 'error' : 'warning',
+        title: 'Viewport needs fixing',
+        description: 'Use content="width=device-width, initial-scale=1" so the page fits the screen, and let visitors zoom: blocking it fails WCAG and hurts readers with low vision.',
+        details: `${viewport} (${problems.join('; ')})`,
+      });
+    } else {
+      results.push({
+        type: 'success',
+        title: 'Mobile viewport configured',
+        description: 'The page fits the device width and allows zooming.',
+        details: viewport,
+      });
+    }
+  }
+}
+
+function describeSamples(samples: CssDeclarationSample[]): string {
+  return samples.slice(0, 5).map(sample => `${sample.selector} { ${sample.value} }`).join(' · ');
+}
+
+// The candidate's id or one of its classes is styled as a full-screen fixed layer
+function coveredByOverlayRule(candidate: InterstitialCandidate, overlaySelectors: string[]): boolean {
+  const names = [...candidate.classes.map(name => `.${name}`), ...(candidate.id ? [`#${candidate.id}`] : [])];
+  return overlaySelectors.some(selector => names.some(name => {
+    const index = selector.indexOf(name);
+    // Whole name only: ".modal" must not match ".modal-footer"
+    return index !== -1 && !/[\w-]/.test(selector.charAt(index + name.length));
+  }));
+}
@@ -0,0 +1,182 @@
+import { BlockList, isIP } from 'net';
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from 'dns';
+
+export type NetworkPolicyViolation =
+  | 'blocked_scheme'
+  | 'blocked_port'
+  | 'blocked_address'
+  | 'dns_failure'
+  | 'body_too_large'
+  | 'timeout';
+
+// Thrown when a request is refused by the network policy; the API turns it into a 403 with the code
+export class NetworkPolicyError extends Error {
+  constructor(
+    public readonly code: NetworkPolicyViolation,
+    message: string,
+    public readonly url?: string,
+  ) {
+    super(message);
+    this.name = 'NetworkPolicyError';
+  }
+}
+
+export interface NetworkPolicyConfig {
+  allowedPorts: number[];
+  // Hostnames ("intranet.example.com", "*.corp.local") or IP ranges ("10.20.0.0/16") that may be private
+  allowlist: string[];
+  maxBodyBytes: number;
+  maxFetchMs: number;
+}
+
+// Loopback, private, link-local (incl. cloud metadata at 169.254.169.254), CGNAT, multicast and reserved ranges,
+// plus the NAT64 and 6to4 prefixes, which embed an IPv4 address that may be private
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+// Admins configure the policy through environment variables
+export function loadNetworkPolicyConfig(env: NodeJS.ProcessEnv = process.env): NetworkPolicyConfig {
+  const list = (value: string | undefined) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+  return {
+    allowedPorts: env.SCRAPER_ALLOWED_PORTS
+      ? list(env.SCRAPER_ALLOWED_PORTS).map(port => parseInt(port)).filter(port => !isNaN(port))
+      : [80, 443, 8080, 8443],
+    allowlist: list(env.SCRAPER_ALLOWLIST).map(entry => entry.toLowerCase()),
+    maxBodyBytes: parseInt(env.SCRAPER_MAX_BODY_BYTES || '') || 10 * 1024 * 1024,
+    maxFetchMs: parseInt(env.SCRAPER_MAX_FETCH_MS || '') || 30000,
+  };
+}
+
+export class NetworkPolicy {
+  private blocked = new BlockList();
+  private allowedRanges = new BlockList();
+  private allowedHosts: string[] = [];
+
+  constructor(readonly config: NetworkPolicyConfig = loadNetworkPolicyConfig()) {
+    BLOCKED_RANGES.forEach(([network, prefix, type]) => this.blocked.addSubnet(network, prefix, type));
+
+    config.allowlist.forEach(entry => {
+      const [address, prefix] = entry.split('/');
+      const version = isIP(address);
+      if (version === 0) {
+        this.allowedHosts.push(entry);
+      } else {
+        const type = version === 4 ? 'ipv4' : 'ipv6';
+        this.allowedRanges.addSubnet(address, prefix ? parseInt(prefix) : (version === 4 ? 32 : 128), type);
+      }
+    });
+  }
+
+  // Checks scheme, port and (for IP literals and resolved hostnames) the target address before a request
+  async checkUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new NetworkPolicyError('blocked_scheme', `Invalid URL: ${url}`, url);
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new NetworkPolicyError('blocked_scheme', `Only http and https URLs can be audited, not ${parsed.protocol}`, url);
+    }
+
+    const port = parsed.port ? parseInt(parsed.port) : (parsed.protocol === 'https:' ? 443 : 80);
+    if (!this.config.allowedPorts.includes(port)) {
+      throw new NetworkPolicyError('blocked_port', `Port ${port} is not allowed`, url);
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (this.isHostAllowlisted(hostname)) return;
+
+    if (isIP(hostname)) {
+      this.assertAddressAllowed(hostname, url);
+      return;
+    }
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+      throw new NetworkPolicyError('blocked_address', `${hostname} points to this server`, url);
+    }
+
+    // Resolving here gives a clear error up front; the connection itself is checked again in lookup()
+    const addresses = await new Promise<LookupAddress[]>((resolve, reject) => {
+      dnsLookup(hostname, { all: true }, (error, result) => error ? reject(error) : resolve(result));
+    }).catch(() => {
+      throw new NetworkPolicyError('dns_failure', `Could not resolve ${hostname}`, url);
+    });
+    addresses.forEach(({ address }) => this.assertAddressAllowed(address, url));
+  }
+
+  // DNS lookup for outgoing connections that only returns permitted addresses, so a hostname
+  // cannot be re-pointed at an internal address between checkUrl() and connecting (DNS rebinding)
+  lookup = (
+    hostname: string,
+    options: LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+  ): void => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, []);
+        return;
+      }
+
+      const permitted = this.isHostAllowlisted(hostname.toLowerCase())
+        ? addresses
+        : addresses.filter(({ address }) => this.isAddressAllowed(address));
+      if (permitted.length === 0) {
+        callback(new NetworkPolicyError('blocked_address', `${hostname} resolves to a private or reserved address`), []);
+      } else if (options.all) {
+        callback(null, permitted);
+      } else {
+        callback(null, permitted[0].address, permitted[0].family);
+      }
+    });
+  };
+
+  isAddressAllowed(address: string): boolean {
+    // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are judged by the IPv4 address they wrap
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i) ?? address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+    if (mapped) {
+      address = mapped.length === 2
+        ? mapped[1]
+        : [parseInt(mapped[1], 16) >> 8, parseInt(mapped[1], 16) & 255, parseInt(mapped[2], 16) >> 8, parseInt(mapped[2], 16) & 255].join('.');
+    }
+
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    return this.allowedRanges.check(address, type) || !this.blocked.check(address, type);
+  }
+
+  private assertAddressAllowed(address: string, url: string): void {
+    if (!this.isAddressAllowed(address)) {
+      throw new NetworkPolicyError('blocked_address', `${address} is a private or reserved address`, url);
+    }
+  }
+
+  private isHostAllowlisted(hostname: string): boolean {
+    return this.allowedHosts.some(entry =>
+      entry.startsWith('*.') ? hostname.endsWith(entry.slice(1)) : hostname === entry,
+    );
+  }
+}
@@ -0,0 +1,241 @@
+import type { WebsiteData, TraditionalSeoResult, PerformanceBudget, PageResource } from '@shared/schema';
+
+// Points a budget violation can cost at most
+const BUDGET_WEIGHTS: Record<keyof PerformanceBudget, number> = {
+  renderBlockingResources: 25,
+  scripts: 10,
+  thirdPartyHosts: 10,
+  inlineScriptBytes: 5,
+  inlineStyleBytes: 5,
+  scriptBytes: 15,
+  stylesheetBytes: 10,
+  pageWeightBytes: 15,
+  ttfbMs: 15,
+  loadTimeMs: 15,
+};
+
+const MAX_PRECONNECTS = 4;
+const MAX_PRELOADS = 5;
+
+export class PerformanceAnalyzer {
+  // Estimates performance from the markup, the server's timing and (when measured) asset sizes. Without a
+  // browser there is no CPU time or layout, so this is a guide to what to fix rather than a Lighthouse score
+  analyze(data: WebsiteData, budget: PerformanceBudget): { results: TraditionalSeoResult[]; score: number } {
+    const results: TraditionalSeoResult[] = [];
+    let score = 100;
+    const { resources: inventory } = data;
+
+    // Render-blocking scripts and stylesheets in <head>
+    const blocking = inventory.resources.filter(resource => resource.renderBlocking);
+    const blockingScripts = blocking.filter(resource => resource.type === 'script');
+    const blockingPenalty = budgetPenalty(blocking.length, budget.renderBlockingResources, BUDGET_WEIGHTS.renderBlockingResources);
+    if (blockingPenalty > 0 || blockingScripts.length > 0) {
+      results.push({
+        type: blockingPenalty > 0 ? 'error' : 'warning',
+        title: blockingPenalty > 0 ? 'Too many render-blocking resources' : 'Scripts block rendering',
+        description: 'The browser cannot show anything until these files are downloaded and run. Add defer or async to scripts, and inline critical CSS while loading the rest without blocking.',
+        details: describeResources(blocking),
+        metrics: {
+          'Blocking scripts': blockingScripts.length,
+          'Blocking stylesheets': blocking.length - blockingScripts.length,
+          'Budget': budget.renderBlockingResources,
+        },
+      });
+      score -= blockingPenalty + Math.min(10, blockingScripts.length * 2);
+    }
+
+    // Number of scripts and the hosts they come from
+    const scripts = inventory.resources.filter(resource => resource.type === 'script');
+    score -= this.checkBudget(results, budget, 'scripts', scripts.length, {
+      title: 'Too many scripts',
+      description: 'Every script costs a request plus parse and execution time. Bundle first-party code and remove unused tags.',
+      format: String,
+    });
+    score -= this.checkBudget(results, budget, 'thirdPartyHosts', inventory.thirdPartyHosts.length, {
+      title: 'Too many third-party hosts',
+      description: 'Each extra host needs its own DNS lookup, connection and TLS handshake, and third-party code is outside your control. Remove tags you do not need.',
+      details: inventory.thirdPartyHosts.join(', '),
+      format: String,
+    });
+
+    // Inline code is downloaded again with every page view instead of being cached
+    score -= this.checkBudget(results, budget, 'inlineScriptBytes', inventory.inlineScriptBytes, {
+      title: 'Large inline scripts',
+      description: 'Inline scripts are part of the HTML, so they delay the first byte of content and cannot be cached between pages. Move large ones into external files.',
+      format: formatBytes,
+    });
+    score -= this.checkBudget(results, budget, 'inlineStyleBytes', inventory.inlineStyleBytes, {
+      title: 'Large inline styles',
+      description: 'Inline only the CSS needed for the first screen; the rest belongs in a cacheable stylesheet.',
+      format: formatBytes,
+    });
+
+    score -= this.checkHints(data, results);
+
+    // Transfer sizes, only known when assets were measured
+    if (data.assetWeights) {
+      const sum = (type: PageResource['type']) => data.assetWeights!
+        .filter(weight => weight.type === type)
+        .reduce((total, weight) => total + (weight.bytes ?? 0), 0);
+      const scriptBytes = sum('script');
+      const stylesheetBytes = sum('stylesheet');
+      const imageBytes = (data.imageAssets ?? []).reduce((total, asset) => total + (asset.bytes ?? 0), 0);
+      const htmlBytes = data.http?.transferredBytes ?? data.http?.htmlBytes ?? 0;
+      const pageWeight = htmlBytes + scriptBytes + stylesheetBytes + imageBytes;
+
+      score -= this.checkBudget(results, budget, 'scriptBytes', scriptBytes, {
+        title: 'JavaScript over budget',
+        description: 'Large scripts take long to download and even longer to parse and run on phones. Split code by page and drop unused libraries.',
+        format: formatBytes,
+      });
+      score -= this.checkBudget(results, budget, 'stylesheetBytes', stylesheetBytes, {
+        title: 'CSS over budget',
+        description: 'Stylesheets block rendering until they are downloaded. Remove unused rules and split per-page styles.',
+        format: formatBytes,
+      });
+      score -= this.checkBudget(results, budget, 'pageWeightBytes', pageWeight, {
+        title: 'Page weight over budget',
+        description: data.imageAssets
+          ? 'HTML, scripts, stylesheets and images together are heavier than the budget. Start with the largest files.'
+          : 'HTML, scripts and stylesheets together are heavier than the budget (images were not measured). Start with the largest files.',
+        format: formatBytes,
+        metrics: {
+          'HTML': formatBytes(htmlBytes),
+          'Scripts': formatBytes(scriptBytes),
+          'Stylesheets': formatBytes(stylesheetBytes),
+          'Images': data.imageAssets ? formatBytes(imageBytes) : 'not measured',
+        },
+      });
+    }
+
+    // Server timing, only for fetched pages
+    if (data.http) {
+      score -= this.checkBudget(results, budget, 'ttfbMs', data.http.ttfb, {
+        title: 'Slow server response',
+        description: 'Time to first byte is high, so everything else starts late. Cache rendered pages or use a CDN.',
+        format: formatMs,
+      });
+    }
+    if (data.loadTime !== null) {
+      score -= this.checkBudget(results, budget, 'loadTimeMs', data.loadTime, {
+        title: 'Slow HTML download',
+        description: 'Downloading the HTML document alone took longer than the budget.',
+        format: formatMs,
+      });
+    }
+
+    if (!results.some(result => result.type !== 'success')) {
+      results.push({
+        type: 'success',
+        title: 'Within performance budget',
+        description: 'No render-blocking scripts and every measured value is within budget.',
+        metrics: {
+          'Scripts': scripts.length,
+          'Stylesheets': inventory.resources.length - scripts.length,
+          'Third-party hosts': inventory.thirdPartyHosts.length,
+        },
+      });
+    }
+
+    return { results, score: Math.max(0, Math.min(100, Math.round(score))) };
+  }
+
+  // Adds a result when the value is over budget and returns the points to deduct
+  private checkBudget(
+    results: TraditionalSeoResult[],
+    budget: PerformanceBudget,
+    key: keyof PerformanceBudget,
+    actual: number,
+    message: { title: string; description: string; details?: string; format: (value: number) => string; metrics?: Record<string, string | number> },
+  ): number {
+    const penalty = budgetPenalty(actual, budget[key], BUDGET_WEIGHTS[key]);
+    if (penalty === 0) return 0;
+
+    results.push({
+      type: actual > budget[key] * 2 ? 'error' : 'warning',
+      title: message.title,
+      description: message.description,
+      details: message.details,
+      metrics: { 'Actual': message.format(actual), 'Budget': message.format(budget[key]), ...message.metrics },
+    });
+    return penalty;
+  }
+
+  // Adds results for preconnect and preload hints and returns the points to deduct
+  private checkHints(data: WebsiteData, results: TraditionalSeoResult[]): number {
+    const { hints, resources } = data.resources;
+    let penalty = 0;
+    const hostOf = (href: string) => {
+      try {
+        return new URL(href).hostname;
+      } catch {
+        return '';
+      }
+    };
+
+    // Third-party hosts needed for the first render should be connected to early
+    const connected = new Set(hints.filter(hint => hint.rel === 'preconnect' || hint.rel === 'dns-prefetch').map(hint => hostOf(hint.href)));
+    const unconnected = Array.from(new Set(
+      resources.filter(resource => resource.thirdParty && resource.inHead && !connected.has(resource.host)).map(resource => resource.host),
+    ));
+    if (unconnected.length > 0) {
+      results.push({
+        type: 'warning',
+        title: 'Missing preconnect hints',
+        description: 'Add <link rel="preconnect"> for third-party hosts loaded in <head> so the connection is set up while the HTML is still parsing.',
+        details: unconnected.join(', '),
+      });
+      penalty += Math.min(6, unconnected.length * 2);
+    }
+
+    const preconnects = hints.filter(hint => hint.rel === 'preconnect');
+    if (preconnects.length > MAX_PRECONNECTS) {
+      results.push({
+        type: 'warning',
+        title: 'Too many preconnect hints',
+        description: `Open connections cost CPU and compete with each other. Keep preconnect to the ${MAX_PRECONNECTS} most important hosts and use dns-prefetch for the rest.`,
+        metrics: { 'Preconnects': preconnects.length },
+      });
+      penalty += 2;
+    }
+
+    const preloads = hints.filter(hint => hint.rel === 'preload');
+    const withoutAs = preloads.filter(hint => !hint.as);
+    if (preloads.length > MAX_PRELOADS || withoutAs.length > 0) {
+      results.push({
+        type: 'warning',
+        title: withoutAs.length > 0 ? 'Preload hints without "as"' : 'Too many preloads',
+        description: withoutAs.length > 0
+          ? 'Preloads need an "as" attribute; without it the browser cannot match them to the real request and downloads the file twice.'
+          : 'Preloading many files makes them compete with the resources that matter most. Preload only what the first screen needs.',
+        details: (withoutAs.length > 0 ? withoutAs : preloads).slice(0, 5).map(hint => hint.href).join(' · '),
+        metrics: { 'Preloads': preloads.length },
+      });
+      penalty += 2;
+    }
+
+    return penalty;
+  }
+}
+
+// Half the weight for any violation, rising to the full weight at twice the budget
+function budgetPenalty(actual: number, limit: number, weight: number): number {
+  if (actual <= limit) return 0;
+  const overshoot = limit > 0 ? (actual - limit) / limit : 1;
+  return Math.round(weight * Math.min(1, 0.5 + overshoot / 2));
+}
+
+function describeResources(resources: PageResource[]): string {
+  return resources
+    .slice(0, 5)
+    .map(resource => resource.url)
+    .join(' · ') + (resources.length > 5 ? ` and ${resources.length - 5} more` : '');
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+}
+
+function formatMs(ms: number): string {
+  return `${ms}ms`;
+}
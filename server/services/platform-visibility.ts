@@ -0,0 +1,225 @@
+import type { WebsiteData, GeoFactor, AiPlatformId, PlatformFactor, PlatformVisibility } from '@shared/schema';
+import { measureJavascriptContent } from './geo-factors';
+
+interface PlatformModel {
+  platform: AiPlatformId;
+  name: string;
+  // Bots that fetch pages for answers: the search crawler first, then the bot that opens pages users ask about
+  answerBots: string[];
+  // Bots whose blocking costs less, e.g. training crawlers that only shape what the model knows
+  otherBots: string[];
+  // Answers are built from a search index, so noindex and nosnippet apply too
+  usesSearchIndex: boolean;
+  rendersJavaScript: boolean;
+  citationStyle: string;
+  // Points out of 100 per input: 'access', 'rendering' and GEO factor rule IDs
+  weights: Record<string, number>;
+}
+
+const PLATFORMS: PlatformModel[] = [
+  {
+    platform: 'chatgpt-search',
+    name: 'ChatGPT search',
+    answerBots: ['OAI-SearchBot', 'ChatGPT-User'],
+    otherBots: ['GPTBot'],
+    usesSearchIndex: false,
+    rendersJavaScript: false,
+    citationStyle: 'Cites a few sources per answer and favors clear, well-sourced explanations',
+    weights: {
+      'access': 25,
+      'rendering': 15,
+      'geo.freshness': 10,
+      'geo.entities': 12,
+      'geo.content-clarity': 12,
+      'geo.summary': 10,
+      'geo.question-answer': 8,
+      'geo.credibility': 8,
+    },
+  },
+  {
+    platform: 'perplexity',
+    name: 'Perplexity',
+    answerBots: ['PerplexityBot', 'Perplexity-User'],
+    otherBots: [],
+    usesSearchIndex: false,
+    rendersJavaScript: false,
+    citationStyle: 'Cites many sources inline, sentence by sentence, and favors recent, quotable facts',
+    weights: {
+      'access': 25,
+      'rendering': 15,
+      'geo.freshness': 18,
+      'geo.data-extraction': 12,
+      'geo.question-answer': 12,
+      'geo.entities': 10,
+      'geo.summary': 8,
+    },
+  },
+  {
+    platform: 'claude',
+    name: 'Claude',
+    answerBots: ['Claude-SearchBot', 'Claude-User'],
+    otherBots: ['ClaudeBot'],
+    usesSearchIndex: false,
+    rendersJavaScript: false,
+    citationStyle: 'Reads whole pages and favors clear, well-organized prose it can summarize accurately',
+    weights: {
+      'access': 25,
+      'rendering': 15,
+      'geo.freshness': 5,
+      'geo.content-clarity': 15,
+      'geo.readability': 12,
+      'geo.heading-structure': 10,
+      'geo.entities': 10,
+      'geo.scannability': 8,
+    },
+  },
+  {
+    platform: 'gemini',
+    name: 'Gemini / AI Overviews',
+    answerBots: ['Googlebot'],
+    otherBots: ['Google-Extended'],
+    usesSearchIndex: true,
+    rendersJavaScript: true,
+    citationStyle: 'Builds on Google Search results and favors structured data and direct answers to the query',
+    weights: {
+      'access': 25,
+      'rendering': 3,
+      'geo.freshness': 10,
+      'geo.schema': 17,
+      'geo.question-answer': 12,
+      'geo.heading-structure': 10,
+      'geo.credibility': 10,
+      'geo.entities': 8,
+      'geo.summary': 5,
+    },
+  },
+  {
+    platform: 'copilot',
+    name: 'Copilot',
+    answerBots: ['Bingbot'],
+    otherBots: [],
+    usesSearchIndex: true,
+    rendersJavaScript: true,
+    citationStyle: 'Builds on Bing results and favors structured data and extractable facts',
+    weights: {
+      'access': 25,
+      'rendering': 8,
+      'geo.freshness': 12,
+      'geo.schema': 15,
+      'geo.data-extraction': 12,
+      'geo.summary': 10,
+      'geo.content-clarity': 10,
+      'geo.credibility': 8,
+    },
+  },
+];
+
+// Platforms weighing freshness at least this much mention stale pages among their reasons
+const FRESHNESS_SENSITIVE_WEIGHT = 15;
+
+// Below this a factor is reported as one of the weak factors behind a platform score
+const WEAK_FACTOR_SCORE = 70;
+
+export class PlatformVisibilityAnalyzer {
+  // Scores each platform from the GEO factors the scoring profile kept, plus its own crawler and rendering checks
+  analyze(data: WebsiteData, geoFactors: GeoFactor[]): PlatformVisibility[] {
+    return PLATFORMS.map(model => this.analyzePlatform(data, geoFactors, model));
+  }
+
+  private analyzePlatform(data: WebsiteData, geoFactors: GeoFactor[], model: PlatformModel): PlatformVisibility {
+    const reasons: string[] = [];
+    const factors: PlatformFactor[] = [];
+
+    const access = this.assessAccess(data, model);
+    factors.push({ id: 'access', label: 'Crawler access', score: access.score, weight: model.weights.access });
+    reasons.push(access.reason);
+
+    const rendering = this.assessRendering(data, model);
+    factors.push({ id: 'rendering', label: 'Content without JavaScript', score: rendering.score, weight: model.weights.rendering });
+    if (rendering.reason) reasons.push(rendering.reason);
+
+    Object.entries(model.weights).forEach(([id, weight]) => {
+      const factor = geoFactors.find(f => f.id === id);
+      // Factors left out by the scoring profile are left out here too
+      if (factor && factor.weight > 0) factors.push({ id, label: factor.factor, score: factor.score, weight });
+    });
+
+    const freshness = factors.find(f => f.id === 'geo.freshness');
+    if (freshness && freshness.weight >= FRESHNESS_SENSITIVE_WEIGHT && freshness.score < 50) {
+      reasons.push(`${model.name} favors recent sources, and this page shows few freshness signals (${freshness.score}/100)`);
+    }
+    reasons.push(model.citationStyle);
+
+    // Weights are rescaled over the inputs that could be assessed
+    const possible = factors.reduce((sum, f) => sum + f.weight, 0);
+    const earned = factors.reduce((sum, f) => sum + f.weight * f.score / 100, 0);
+    // A platform that cannot fetch the page will not cite it, whatever the content
+    const score = access.score === 0 ? 0 : possible > 0 ? Math.round(earned / possible * 100) : 0;
+
+    const weakFactors = factors
+      .filter(f => f.score < WEAK_FACTOR_SCORE)
+      .sort((a, b) => b.weight * (100 - b.score) - a.weight * (100 - a.score))
+      .slice(0, 3);
+
+    return { platform: model.platform, name: model.name, score, reasons, factors, weakFactors };
+  }
+
+  private assessAccess(data: WebsiteData, model: PlatformModel): { score: number; reason: string } {
+    const { robotsTxt } = data;
+    if (robotsTxt?.status === 'unreachable') {
+      return { score: 0, reason: `robots.txt could not be fetched, so ${model.answerBots.join(' and ')} treat the whole site as disallowed` };
+    }
+
+    if (model.usesSearchIndex) {
+      const robots = data.head.robots;
+      const xRobots = data.http?.xRobots;
+      if (robots.noindex || xRobots?.noindex) {
+        return { score: 0, reason: `The page is marked noindex, so it is not in the index ${model.name} answers from` };
+      }
+      if (robots.nosnippet || xRobots?.nosnippet) {
+        return { score: 30, reason: `nosnippet keeps ${model.name} from quoting the page in answers` };
+      }
+    }
+
+    // Pasted HTML has no robots.txt to check
+    if (!robotsTxt) return { score: 100, reason: 'robots.txt was not checked for this audit' };
+
+    const describe = (crawler: string) => {
+      const access = robotsTxt.crawlers.find(c => c.crawler === crawler);
+      return access?.matchedRule ? `${crawler} (${access.matchedRule})` : crawler;
+    };
+    const isBlocked = (crawler: string) => robotsTxt.crawlers.some(c => c.crawler === crawler && !c.allowed);
+    const blockedAnswerBots = model.answerBots.filter(isBlocked);
+    const blockedOtherBots = model.otherBots.filter(isBlocked);
+
+    if (blockedAnswerBots.length === model.answerBots.length) {
+      return { score: 0, reason: `robots.txt blocks ${blockedAnswerBots.map(describe).join(' and ')}, so ${model.name} cannot fetch or cite this page` };
+    }
+    if (isBlocked(model.answerBots[0])) {
+      return { score: 20, reason: `robots.txt blocks ${describe(model.answerBots[0])}, so ${model.name} only reads this page when a user links to it` };
+    }
+    if (blockedAnswerBots.length > 0) {
+      return { score: 60, reason: `robots.txt blocks ${blockedAnswerBots.map(describe).join(' and ')}, so ${model.name} cannot open this page when a user asks about it` };
+    }
+    if (blockedOtherBots.length > 0) {
+      return { score: 85, reason: `${model.answerBots.join(' and ')} may fetch this page, but robots.txt blocks ${blockedOtherBots.map(describe).join(' and ')}` };
+    }
+    return { score: 100, reason: `robots.txt allows ${model.answerBots.join(' and ')}` };
+  }
+
+  // Estimated from app shell signals in the raw HTML, since pages are not rendered
+  private assessRendering(data: WebsiteData, model: PlatformModel): { score: number; reason?: string } {
+    const javascript = measureJavascriptContent(data);
+
+    if (javascript.dependence === 'none') return { score: 100 };
+    if (model.rendersJavaScript) {
+      return {
+        score: javascript.dependence === 'key' ? 70 : 90,
+        reason: `${model.name} renders JavaScript, though content added by scripts may be indexed later`,
+      };
+    }
+    return javascript.dependence === 'key'
+      ? { score: 10, reason: `${model.name} does not run JavaScript, and key content only appears after scripts run` }
+      : { score: 60, reason: `${model.name} does not run JavaScript and misses the content that scripts add` };
+  }
+}
@@ -0,0 +1,201 @@
+import type { RobotsTxtReport, RobotsTxtGroup, RobotsTxtRule, CrawlerAccess } from '@shared/schema';
+
+// Crawlers we report on, in the order they are shown in the audit
+export const KNOWN_CRAWLERS: Array<Pick<CrawlerAccess, 'crawler' | 'operator' | 'purpose'>> = [
+  { crawler: 'Googlebot', operator: 'Google', purpose: 'search' },
+  { crawler: 'Bingbot', operator: 'Microsoft', purpose: 'search' },
+  { crawler: 'GPTBot', operator: 'OpenAI', purpose: 'ai-training' },
+  { crawler: 'OAI-SearchBot', operator: 'OpenAI', purpose: 'ai-search' },
+  { crawler: 'ChatGPT-User', operator: 'OpenAI', purpose: 'ai-assistant' },
+  { crawler: 'ClaudeBot', operator: 'Anthropic', purpose: 'ai-training' },
+  { crawler: 'Claude-SearchBot', operator: 'Anthropic', purpose: 'ai-search' },
+  { crawler: 'Claude-User', operator: 'Anthropic', purpose: 'ai-assistant' },
+  { crawler: 'PerplexityBot', operator: 'Perplexity', purpose: 'ai-search' },
+  { crawler: 'Perplexity-User', operator: 'Perplexity', purpose: 'ai-assistant' },
+  { crawler: 'Google-Extended', operator: 'Google', purpose: 'ai-training' },
+  { crawler: 'CCBot', operator: 'Common Crawl', purpose: 'ai-training' },
+  { crawler: 'Applebot-Extended', operator: 'Apple', purpose: 'ai-training' },
+];
+
+export class RobotsTxt {
+  readonly groups: RobotsTxtGroup[];
+  readonly sitemaps: string[];
+
+  private constructor(groups: RobotsTxtGroup[], sitemaps: string[]) {
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+  }
+
+  // Parses robots.txt following RFC 9309, plus the widely supported Crawl-delay and Sitemap lines
+  static parse(body: string): RobotsTxt {
+    const groups: RobotsTxtGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsTxtGroup | null = null;
+    let lastLineWasUserAgent = false;
+
+    for (const rawLine of body.split(/\r\n|\r|\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line) continue;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          // Consecutive user-agent lines share one group
+          if (!current || !lastLineWasUserAgent) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          lastLineWasUserAgent = true;
+          continue;
+        case 'allow':
+        case 'disallow':
+          if (current) {
+            current.rules.push({ type: field, path: value });
+          }
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay)) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          if (value) sitemaps.push(value);
+          break;
+      }
+      lastLineWasUserAgent = false;
+    }
+
+    return new RobotsTxt(groups, sitemaps);
+  }
+
+  // An empty robots.txt, used when the file is missing (everything is allowed)
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], []);
+  }
+
+  // Groups that apply to a crawler: the most specific matching user-agent wins, falling back to '*'
+  private groupsFor(userAgent: string): { token: string; groups: RobotsTxtGroup[] } {
+    const agent = userAgent.toLowerCase();
+    let bestToken = '';
+
+    for (const group of this.groups) {
+      for (const token of group.userAgents) {
+        if (token !== '*' && agent.startsWith(token) && token.length > bestToken.length) {
+          bestToken = token;
+        }
+      }
+    }
+
+    const token = bestToken || '*';
+    return {
+      token,
+      groups: this.groups.filter(group => group.userAgents.includes(token)),
+    };
+  }
+
+  check(userAgent: string, url: string): { allowed: boolean; matchedGroup: string; matchedRule?: RobotsTxtRule; crawlDelay?: number } {
+    const { token, groups } = this.groupsFor(userAgent);
+    if (groups.length === 0) {
+      return { allowed: true, matchedGroup: 'none' };
+    }
+
+    const target = new URL(url);
+    const path = decodeSafely(target.pathname + target.search);
+
+    // Longest matching rule wins; on a tie, Allow beats Disallow
+    let best: RobotsTxtRule | undefined;
+    let bestLength = -1;
+    for (const group of groups) {
+      for (const rule of group.rules) {
+        if (!rule.path) continue; // An empty Disallow allows everything
+        if (!pathMatches(rule.path, path)) continue;
+
+        const length = rule.path.length;
+        if (length > bestLength || (length === bestLength && rule.type === 'allow')) {
+          best = rule;
+          bestLength = length;
+        }
+      }
+    }
+
+    const crawlDelay = groups.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+    return {
+      allowed: !best || best.type === 'allow',
+      matchedGroup: token,
+      matchedRule: best,
+      crawlDelay,
+    };
+  }
+
+  isAllowed(userAgent: string, url: string): boolean {
+    return this.check(userAgent, url).allowed;
+  }
+
+  getCrawlDelay(userAgent: string): number | undefined {
+    return this.groupsFor(userAgent).groups.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+  }
+
+  buildReport(robotsUrl: string, pageUrl: string, status: RobotsTxtReport['status'], statusCode?: number): RobotsTxtReport {
+    const crawlers = KNOWN_CRAWLERS.map(known => {
+      // Per RFC 9309 an unreachable robots.txt means the whole site is treated as disallowed
+      if (status === 'unreachable') {
+        return { ...known, allowed: false, matchedGroup: 'none' };
+      }
+
+      const verdict = this.check(known.crawler, pageUrl);
+      return {
+        ...known,
+        allowed: verdict.allowed,
+        matchedGroup: verdict.matchedGroup,
+        matchedRule: verdict.matchedRule
+          ? `${verdict.matchedRule.type === 'allow' ? 'Allow' : 'Disallow'}: ${verdict.matchedRule.path}`
+          : undefined,
+        crawlDelay: verdict.crawlDelay,
+      };
+    });
+
+    return {
+      url: robotsUrl,
+      status,
+      statusCode,
+      sitemaps: this.sitemaps,
+      groups: this.groups,
+      crawlers,
+    };
+  }
+}
+
+function decodeSafely(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+// Matches a robots.txt path pattern, supporting '*' wildcards and a trailing '$' anchor
+export function pathMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = decodeSafely(anchored ? pattern.slice(0, -1) : pattern);
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+// robots.txt groups name a crawler's product token ("Googlebot"), not its whole User-Agent header:
+// "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)" → "Googlebot"
+export function productToken(userAgent: string): string {
+  const compatible = userAgent.match(/compatible;\s*([^/;\s)]+)/i);
+  if (compatible) return compatible[1];
+  return userAgent.trim().match(/^[^/\s]+/)?.[0] ?? '*';
+}
@@ -0,0 +1,101 @@
+import type { WebsiteData, RuleCategory, RuleSeverity, ScoringThresholds, ScoringProfile, ScoreBreakdown, ScoreContribution } from '@shared/schema';
+import { DEFAULT_SCORING_THRESHOLDS } from '@shared/schema';
+
+// Failing a critical rule (noindex, unreachable robots.txt) makes the rest of the page irrelevant
+const CRITICAL_FAILURE_CAP = 40;
+
+export interface RuleOutcome<R> {
+  // Share of the rule's weight that was earned, from 0 (failed) to 1 (passed)
+  score: number;
+  results: Array<Omit<R, 'ruleId'>>;
+  // What the score was based on, for rules whose results do not already say it (e.g. a pass without a result)
+  evidence?: string[];
+}
+
+export interface AuditRule<R> {
+  // Stable across releases so an issue can be followed from one audit to the next
+  id: string;
+  // Short label for score breakdowns
+  name: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  // Points the rule is worth relative to the others, unless the scoring profile overrides it;
+  // 0 reports without affecting the score
+  weight: number;
+  // Rules about data that was not collected (no HTTP response, no link check) are left out of the score
+  appliesTo: (data: WebsiteData) => boolean;
+  evaluate: (data: WebsiteData, thresholds: ScoringThresholds) => RuleOutcome<R>;
+}
+
+export const always = () => true;
+
+// Rounded to one decimal so breakdowns add up to what is shown
+const roundPoints = (points: number) => Math.round(points * 10) / 10;
+
+// Details and metrics of the results, plus anything the rule added; result titles when there is nothing else
+function collectEvidence(outcome: RuleOutcome<unknown>): string[] {
+  const results = outcome.results as Array<{ title: string; details?: string; metrics?: Record<string, string | number> }>;
+  const evidence = [...(outcome.evidence ?? [])];
+  results.forEach(result => {
+    if (result.details) evidence.push(result.details);
+    Object.entries(result.metrics ?? {}).forEach(([name, value]) => evidence.push(`${name}: ${value}`));
+  });
+  return Array.from(new Set(evidence.length > 0 ? evidence : results.map(result => result.title)));
+}
+
+function summarizeBreakdown(contributions: ScoreContribution[], cappedBy: string[] = [], cap = CRITICAL_FAILURE_CAP): ScoreBreakdown {
+  const earned = contributions.reduce((sum, contribution) => sum + contribution.earned, 0);
+  const possible = contributions.reduce((sum, contribution) => sum + contribution.possible, 0);
+  const uncapped = possible > 0 ? Math.round(earned / possible * 100) : 0;
+  const capped = cappedBy.length > 0 && uncapped > cap;
+  return {
+    score: capped ? cap : uncapped,
+    earned: roundPoints(earned),
+    possible: roundPoints(possible),
+    cappedAt: capped ? cap : null,
+    cappedBy,
+    contributions: contributions.map(contribution => ({
+      ...contribution,
+      earned: roundPoints(contribution.earned),
+      possible: roundPoints(contribution.possible),
+    })),
+  };
+}
+
+export class RuleEngine<R extends { ruleId?: string }> {
+  constructor(private rules: AuditRule<R>[]) {
+    const ids = new Set<string>();
+    rules.forEach(rule => {
+      if (ids.has(rule.id)) throw new Error(`Duplicate rule ID: ${rule.id}`);
+      ids.add(rule.id);
+    });
+  }
+
+  // Runs every applicable rule; the score is the weighted share of points earned, out of 100
+  // scores holds the share each evaluated rule earned, by rule ID, including rules that carry no weight
+  run(data: WebsiteData, profile?: ScoringProfile): { results: R[]; score: number; breakdown: ScoreBreakdown; scores: Record<string, number> } {
+    const thresholds = profile?.thresholds ?? DEFAULT_SCORING_THRESHOLDS;
+    const results: R[] = [];
+    const scores: Record<string, number> = {};
+    const contributions: ScoreContribution[] = [];
+    const criticalFailures: string[] = [];
+
+    this.rules.forEach(rule => {
+      if (profile?.excludedRules.includes(rule.id) || !rule.appliesTo(data)) return;
+
+      const outcome = rule.evaluate(data, thresholds);
+      const score = Math.max(0, Math.min(1, outcome.score));
+      scores[rule.id] = score;
+      const weight = profile?.ruleWeights[rule.id] ?? rule.weight;
+      if (weight > 0) {
+        contributions.push({ id: rule.id, label: rule.name, earned: weight * score, possible: weight, evidence: collectEvidence(outcome) });
+      }
+      if (rule.severity === 'critical' && score === 0) criticalFailures.push(rule.id);
+
+      outcome.results.forEach(result => results.push({ ...result, ruleId: rule.id } as R));
+    });
+
+    const breakdown = summarizeBreakdown(contributions, criticalFailures);
+    return { results, score: breakdown.score, breakdown, scores };
+  }
+}
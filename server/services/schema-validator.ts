@@ -0,0 +1,211 @@
+import type { SchemaEntity, SchemaIssue, SchemaValue } from '@shared/schema';
+
+interface TypeRules {
+  // Each entry is one property; an array means any one of the listed properties is enough
+  required: Array<string | string[]>;
+  recommended: Array<string | string[]>;
+  // Nested entities that are checked with another rule set, e.g. FAQPage.mainEntity → Question
+  children?: Record<string, string>;
+  dates?: string[];
+  numbers?: string[];
+}
+
+// Based on the schema.org definitions and Google's rich result requirements
+const RULES: Record<string, TypeRules> = {
+  Article: {
+    required: ['headline'],
+    recommended: ['author', 'datePublished', 'dateModified', 'image', 'publisher'],
+    dates: ['datePublished', 'dateModified'],
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    children: { mainEntity: 'Question' },
+  },
+  HowTo: {
+    required: ['name', 'step'],
+    recommended: ['description', 'image', 'totalTime', 'supply', 'tool'],
+    children: { step: 'HowToStep' },
+  },
+  Product: {
+    required: ['name', ['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku', ['gtin', 'gtin8', 'gtin12', 'gtin13', 'gtin14', 'mpn']],
+    children: { offers: 'Offer' },
+  },
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs', 'contactPoint'],
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', ['openingHoursSpecification', 'openingHours'], 'geo', 'url', 'priceRange', 'image'],
+    children: { address: 'PostalAddress' },
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    children: { itemListElement: 'ListItem' },
+  },
+  Person: {
+    required: ['name'],
+    recommended: ['url', 'sameAs', 'image', 'jobTitle'],
+  },
+  VideoObject: {
+    required: ['name', 'thumbnailUrl', 'uploadDate'],
+    recommended: ['description', 'duration', ['contentUrl', 'embedUrl']],
+    dates: ['uploadDate'],
+  },
+};
+
+// Rules for entities that only appear nested inside one of the types above
+const NESTED_RULES: Record<string, TypeRules> = {
+  Question: {
+    required: ['name', 'acceptedAnswer'],
+    recommended: [],
+    children: { acceptedAnswer: 'Answer' },
+  },
+  Answer: {
+    required: ['text'],
+    recommended: [],
+  },
+  HowToStep: {
+    required: [['text', 'itemListElement']],
+    recommended: ['name', 'image', 'url'],
+  },
+  HowToSection: {
+    required: ['name', 'itemListElement'],
+    recommended: [],
+    children: { itemListElement: 'HowToStep' },
+  },
+  Offer: {
+    required: [['price', 'priceSpecification']],
+    recommended: ['priceCurrency', 'availability', 'url'],
+    numbers: ['price'],
+  },
+  AggregateOffer: {
+    required: ['lowPrice', 'priceCurrency'],
+    recommended: ['highPrice', 'offerCount'],
+    numbers: ['lowPrice', 'highPrice'],
+  },
+  PostalAddress: {
+    required: [],
+    recommended: ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry'],
+  },
+  ListItem: {
+    required: ['position', ['name', 'item']],
+    recommended: [],
+    numbers: ['position'],
+  },
+};
+
+// Common subtypes are validated with the rules of their parent type
+const SUBTYPES: Record<string, string> = {
+  NewsArticle: 'Article', BlogPosting: 'Article', TechArticle: 'Article', ScholarlyArticle: 'Article',
+  Report: 'Article', SocialMediaPosting: 'Article', LiveBlogPosting: 'Article', OpinionNewsArticle: 'Article',
+  Corporation: 'Organization', NGO: 'Organization', EducationalOrganization: 'Organization',
+  GovernmentOrganization: 'Organization', NewsMediaOrganization: 'Organization', MedicalOrganization: 'Organization',
+  OnlineBusiness: 'Organization', OnlineStore: 'Organization', SportsOrganization: 'Organization',
+  Restaurant: 'LocalBusiness', Store: 'LocalBusiness', Dentist: 'LocalBusiness', Physician: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness', CafeOrCoffeeShop: 'LocalBusiness', Bakery: 'LocalBusiness', BarOrPub: 'LocalBusiness',
+  LegalService: 'LocalBusiness', ProfessionalService: 'LocalBusiness', FinancialService: 'LocalBusiness',
+  Hotel: 'LocalBusiness', LodgingBusiness: 'LocalBusiness', AutoRepair: 'LocalBusiness', RealEstateAgent: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness', HealthAndBeautyBusiness: 'LocalBusiness', HomeAndConstructionBusiness: 'LocalBusiness',
+};
+
+export class SchemaValidator {
+  // Whether the entity is one of the types we validate; declarations that only point at an @id are skipped
+  hasRules(entity: SchemaEntity): boolean {
+    if (entity.id && Object.keys(entity.properties).length === 0) return false;
+    return this.ruleTypeFor(entity.types, RULES) !== null;
+  }
+
+  validate(entity: SchemaEntity, entities: SchemaEntity[]): SchemaIssue[] {
+    const type = this.ruleTypeFor(entity.types, RULES);
+    if (!type) return [];
+
+    const issues: SchemaIssue[] = [];
+    this.checkEntity(entity, type, RULES[type], entities, issues, new Set());
+    return issues;
+  }
+
+  private checkEntity(
+    entity: SchemaEntity,
+    type: string,
+    rules: TypeRules,
+    entities: SchemaEntity[],
+    issues: SchemaIssue[],
+    seen: Set<SchemaEntity>,
+  ): void {
+    if (seen.has(entity)) return;
+    seen.add(entity);
+
+    const has = (property: string) => (entity.properties[property] ?? []).some(value => value !== '');
+    const describe = (properties: string | string[]) =>
+      Array.isArray(properties) ? `one of ${properties.map(p => `"${p}"`).join(', ')}` : `"${properties}"`;
+    const pathOf = (properties: string | string[]) =>
+      Array.isArray(properties) ? entity.path : `${entity.path}.${properties}`;
+
+    rules.required.forEach(properties => {
+      if (!toList(properties).some(has)) {
+        issues.push({ severity: 'error', type, path: pathOf(properties), message: `Missing required property ${describe(properties)}` });
+      }
+    });
+    rules.recommended.forEach(properties => {
+      if (!toList(properties).some(has)) {
+        issues.push({ severity: 'warning', type, path: pathOf(properties), message: `Missing recommended property ${describe(properties)}` });
+      }
+    });
+
+    (rules.dates ?? []).forEach(property => {
+      literals(entity.properties[property]).forEach(value => {
+        if (!/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(Date.parse(value))) {
+          issues.push({ severity: 'error', type, path: `${entity.path}.${property}`, message: `"${value}" is not an ISO 8601 date` });
+        }
+      });
+    });
+
+    (rules.numbers ?? []).forEach(property => {
+      literals(entity.properties[property]).forEach(value => {
+        if (isNaN(Number(value.replace(/,/g, '')))) {
+          issues.push({ severity: 'error', type, path: `${entity.path}.${property}`, message: `"${value}" is not a number` });
+        }
+      });
+    });
+
+    Object.entries(rules.children ?? {}).forEach(([property, childType]) => {
+      (entity.properties[property] ?? []).forEach(value => {
+        if (typeof value !== 'object') {
+          // A plain string address is allowed; other nested properties must be entities
+          if (childType !== 'PostalAddress') {
+            issues.push({ severity: 'error', type, path: `${entity.path}.${property}`, message: `Expected a ${childType} entity, found a plain value` });
+          }
+          return;
+        }
+
+        const child = entities[value.entity];
+        // Child entities with their own top-level rules are validated on their own
+        if (this.ruleTypeFor(child.types, RULES)) return;
+        const ownType = this.ruleTypeFor(child.types, NESTED_RULES) ?? childType;
+        this.checkEntity(child, ownType, NESTED_RULES[ownType], entities, issues, seen);
+      });
+    });
+  }
+
+  private ruleTypeFor(types: string[], rules: Record<string, TypeRules>): string | null {
+    for (const type of types) {
+      if (rules[type]) return type;
+      if (SUBTYPES[type] && rules[SUBTYPES[type]]) return SUBTYPES[type];
+    }
+    return null;
+  }
+}
+
+function toList(properties: string | string[]): string[] {
+  return Array.isArray(properties) ? properties : [properties];
+}
+
+function literals(values: SchemaValue[] | undefined): string[] {
+  return (values ?? [])
+    .filter((value): value is string | number => typeof value === 'string' || typeof value === 'number')
+    .map(String);
+}
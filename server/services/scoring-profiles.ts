@@ -0,0 +1,113 @@
+import type { ScoringOverrides, ScoringProfile, ScoringProfileId, ScoringRuleSummary, ScoringThresholds } from '@shared/schema';
+import { DEFAULT_SCORING_THRESHOLDS, SCORING_PROFILE_OPTIONS } from '@shared/schema';
+import { TRADITIONAL_SEO_RULES } from './seo-rules';
+import { GEO_RULES } from './geo-rules';
+
+type Preset = Omit<ScoringProfile, 'id' | 'name' | 'thresholds'> & { thresholds: Partial<ScoringThresholds> };
+
+// Only the differences from the general profile; everything else keeps the rule defaults
+const PRESETS: Record<Exclude<ScoringProfileId, 'custom'>, Preset> = {
+  general: {
+    ruleWeights: {},
+    excludedRules: [],
+    thresholds: {},
+  },
+  // Headlines run longer and articles live on social shares, freshness and clear summaries
+  blog: {
+    ruleWeights: {
+      'seo.structured-data': 20,
+      'seo.open-graph': 10,
+      'seo.twitter-card': 5,
+      'geo.freshness': 20,
+      'geo.summary': 15,
+      'geo.readability': 15,
+      'geo.entities': 15,
+    },
+    excludedRules: [],
+    thresholds: { titleMaxLength: 70 },
+  },
+  // Product rich results, image-heavy pages and conversion-sensitive load times
+  ecommerce: {
+    ruleWeights: {
+      'seo.structured-data': 25,
+      'seo.canonical': 15,
+      'seo.image-alt-text': 20,
+      'seo.image-file-size': 15,
+      'seo.image-format': 10,
+      'seo.load-time': 25,
+      'geo.schema': 20,
+      'geo.data-extraction': 20,
+      'geo.credibility': 15,
+    },
+    excludedRules: ['geo.summary', 'geo.freshness'],
+    thresholds: { loadTimeMs: 2500, ttfbMs: 600, imageBytes: 200 * 1024 },
+  },
+  // A few short pages in one language; the business details in schema matter more than the prose
+  'local-business': {
+    ruleWeights: {
+      'seo.structured-data': 25,
+      'seo.meta-description': 15,
+      'geo.schema': 20,
+      'geo.entities': 15,
+    },
+    excludedRules: ['seo.hreflang', 'geo.summary', 'geo.freshness', 'geo.data-extraction'],
+    thresholds: { metaDescriptionMinLength: 70 },
+  },
+  // Pages are reached through navigation and search; broken or redirected links and structure hurt most
+  'saas-docs': {
+    ruleWeights: {
+      'seo.h1': 20,
+      'seo.canonical': 15,
+      'seo.broken-links': 25,
+      'seo.internal-link-redirects': 10,
+      'seo.structured-data': 5,
+      'seo.open-graph': 0,
+      'geo.heading-structure': 20,
+      'geo.question-answer': 15,
+      'geo.scannability': 15,
+      'geo.data-extraction': 15,
+    },
+    // Technical vocabulary is expected, and docs rarely cite outside sources
+    excludedRules: ['geo.readability', 'geo.entities'],
+    thresholds: { titleMaxLength: 70 },
+  },
+};
+
+const RULES = [...TRADITIONAL_SEO_RULES, ...GEO_RULES];
+const RULE_IDS = new Set(RULES.map(rule => rule.id));
+
+// Every rule's weight, falling back to its default, so a stored profile shows exactly what an audit was scored with
+function resolveRuleWeights(weights: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(RULES.map(rule => [rule.id, weights[rule.id] ?? rule.weight]));
+}
+
+// The rules a custom profile can reweight or exclude, SEO rules first
+export function listScoringRules(): ScoringRuleSummary[] {
+  return RULES.map(({ id, name, category, weight }) => ({ id, name, category, weight }));
+}
+
+// Builds the profile an audit is scored with; overrides turn any preset into a custom profile
+export function resolveScoringProfile(id: ScoringProfileId = 'general', overrides?: ScoringOverrides): ScoringProfile {
+  const baseId = id === 'custom' ? 'general' : id;
+  const preset = PRESETS[baseId];
+  const profile: ScoringProfile = {
+    id: baseId,
+    name: SCORING_PROFILE_OPTIONS.find(option => option.id === baseId)!.name,
+    ruleWeights: resolveRuleWeights(preset.ruleWeights),
+    excludedRules: [...preset.excludedRules],
+    thresholds: { ...DEFAULT_SCORING_THRESHOLDS, ...preset.thresholds },
+  };
+  if (id !== 'custom' && !overrides) return profile;
+
+  const ruleIds = [...Object.keys(overrides?.ruleWeights ?? {}), ...(overrides?.excludedRules ?? [])];
+  const unknownRule = ruleIds.find(ruleId => !RULE_IDS.has(ruleId));
+  if (unknownRule) throw new Error(`Unknown rule ID: ${unknownRule}`);
+
+  return {
+    id: 'custom',
+    name: baseId === 'general' ? 'Custom' : `Custom (based on ${profile.name})`,
+    ruleWeights: { ...profile.ruleWeights, ...overrides?.ruleWeights },
+    excludedRules: Array.from(new Set([...profile.excludedRules, ...(overrides?.excludedRules ?? [])])),
+    thresholds: { ...profile.thresholds, ...overrides?.thresholds },
+  };
+}
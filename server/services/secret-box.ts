@@ -0,0 +1,52 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+export class SecretBoxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretBoxError';
+  }
+}
+
+// Encrypts stored credentials with a key derived from FETCH_PROFILE_SECRET, so a database dump alone does not expose them
+export class SecretBox {
+  private key: Buffer | null = null;
+
+  constructor(private secret: string | undefined = process.env.FETCH_PROFILE_SECRET) {}
+
+  get isConfigured(): boolean {
+    return Boolean(this.secret);
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv, cipher.getAuthTag(), ciphertext].map(part => Buffer.isBuffer(part) ? part.toString('base64') : part).join(':');
+  }
+
+  decrypt(payload: string): string {
+    const [version, iv, tag, ciphertext] = payload.split(':');
+    if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new SecretBoxError('Stored credentials are in an unknown format');
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, this.getKey(), Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new SecretBoxError('Stored credentials could not be decrypted; was FETCH_PROFILE_SECRET changed?');
+    }
+  }
+
+  private getKey(): Buffer {
+    if (!this.secret) {
+      throw new SecretBoxError('FETCH_PROFILE_SECRET must be set to store or use credentials');
+    }
+    this.key ??= scryptSync(this.secret, 'seo-audit-fetch-profiles', 32);
+    return this.key;
+  }
+}
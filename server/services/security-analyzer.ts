@@ -0,0 +1,181 @@
+import type { WebsiteData, TraditionalSeoResult } from '@shared/schema';
+
+// Certificates are renewed automatically well before this; anything closer means renewal is failing
+const CERTIFICATE_WARNING_DAYS = 30;
+const CERTIFICATE_ERROR_DAYS = 14;
+// hstspreload.org asks for at least a year; six months is the common minimum
+const MIN_HSTS_MAX_AGE = 180 * 24 * 60 * 60;
+
+export class SecurityAnalyzer {
+  // Checks what visitors, browsers and answer engines see of a site's security; starts at 100 and deducts per problem
+  analyze(data: WebsiteData): { results: TraditionalSeoResult[]; score: number } {
+    const results: TraditionalSeoResult[] = [];
+    let score = 100;
+    const pageUrl = data.http?.finalUrl ?? data.url;
+    const isHttps = pageUrl.startsWith('https:');
+
+    // HTTPS
+    if (!isHttps) {
+      results.push({
+        type: 'error',
+        title: 'Page is served over plain HTTP',
+        description: 'Browsers label HTTP pages "Not secure", and anything visitors enter can be read or changed on the way. Serve the site over HTTPS.',
+        details: pageUrl,
+      });
+      score -= 40;
+    }
+
+    score -= this.checkCertificate(data, results);
+
+    // Mixed content only exists on https pages
+    const { security } = data;
+    if (isHttps && security.insecureSubresourceCount > 0) {
+      const active = security.insecureSubresources.filter(resource => resource.active);
+      results.push({
+        type: active.length > 0 ? 'error' : 'warning',
+        title: 'Mixed content',
+        description: active.length > 0
+          ? 'Browsers block scripts, stylesheets and frames loaded over http:// on an https page, so parts of the page break. Load them over https.'
+          : 'Images and media loaded over http:// on an https page get a browser warning or are upgraded automatically. Load them over https.',
+        details: security.insecureSubresources.slice(0, 5).map(resource => `<${resource.tag}> ${resource.url}`).join(' · '),
+        metrics: { 'Active': active.length, 'Total': security.insecureSubresourceCount },
+      });
+      score -= active.length > 0 ? 20 : 8;
+    }
+
+    // Forms that send data unencrypted
+    const insecureForms = security.forms.filter(form => form.action.startsWith('http:') && (isHttps || form.hasPassword));
+    if (insecureForms.length > 0) {
+      results.push({
+        type: 'error',
+        title: 'Forms submit over HTTP',
+        description: insecureForms.some(form => form.hasPassword)
+          ? 'Passwords sent from these forms travel unencrypted. Point the form action at an https URL.'
+          : 'These forms send what visitors enter unencrypted, and browsers warn before submitting them. Point the form action at an https URL.',
+        details: insecureForms.slice(0, 5).map(form => `${form.method.toUpperCase()} ${form.action}`).join(' · '),
+      });
+      score -= 15;
+    }
+
+    score -= this.checkHeaders(data, isHttps, results);
+
+    if (!results.some(result => result.type !== 'success')) {
+      results.push({
+        type: 'success',
+        title: 'No security problems found',
+        description: 'The page is served securely, loads nothing over plain HTTP and sends the recommended security headers.',
+      });
+    }
+
+    return { results, score: Math.max(0, score) };
+  }
+
+  // Adds a result for the TLS certificate and returns the points to deduct
+  private checkCertificate(data: WebsiteData, results: TraditionalSeoResult[]): number {
+    const tls = data.http?.tls;
+    if (!tls) return 0;
+
+    const metrics: Record<string, string | number> = {};
+    if (tls.issuer) metrics['Issuer'] = tls.issuer;
+    if (tls.validTo) metrics['Expires'] = tls.validTo.slice(0, 10);
+    if (tls.protocol) metrics['Protocol'] = tls.protocol;
+
+    if (!tls.authorized) {
+      // A failed connection says nothing about the certificate itself
+      const checked = tls.validTo !== null;
+      results.push({
+        type: checked ? 'error' : 'warning',
+        title: checked ? 'Invalid TLS certificate' : 'Could not inspect the TLS certificate',
+        description: checked
+          ? 'Browsers show a full-page security warning for this certificate and most visitors and crawlers stop there. Renew it or fix the certificate chain.'
+          : 'The connection to read the certificate failed.',
+        details: tls.subject ? `${tls.error} (certificate for ${tls.subject})` : tls.error ?? undefined,
+        metrics,
+      });
+      return checked ? 40 : 0;
+    }
+
+    if (tls.daysRemaining !== null && tls.daysRemaining <= CERTIFICATE_WARNING_DAYS) {
+      const urgent = tls.daysRemaining <= CERTIFICATE_ERROR_DAYS;
+      results.push({
+        type: urgent ? 'error' : 'warning',
+        title: 'TLS certificate expires soon',
+        description: `The certificate expires in ${tls.daysRemaining} ${tls.daysRemaining === 1 ? 'day' : 'days'}. Check that automatic renewal works.`,
+        metrics,
+      });
+      return urgent ? 15 : 5;
+    }
+
+    results.push({
+      type: 'success',
+      title: 'Valid TLS certificate',
+      description: tls.daysRemaining !== null ? `The certificate is trusted and valid for another ${tls.daysRemaining} days.` : 'The certificate is trusted.',
+      metrics,
+    });
+    return 0;
+  }
+
+  // Adds results for the security headers and returns the points to deduct
+  private checkHeaders(data: WebsiteData, isHttps: boolean, results: TraditionalSeoResult[]): number {
+    const http = data.http;
+    // Pasted and uploaded HTML has no response headers to check
+    if (!http) return 0;
+
+    const missing: string[] = [];
+    const present: string[] = [];
+    let penalty = 0;
+
+    if (isHttps) {
+      const maxAge = parseInt(http.hsts.match(/max-age\s*=\s*"?(\d+)/i)?.[1] ?? '');
+      if (!http.hsts) {
+        missing.push('Strict-Transport-Security (browsers may still try http:// first)');
+        penalty += 8;
+      } else if (isNaN(maxAge) || maxAge < MIN_HSTS_MAX_AGE) {
+        missing.push(`Strict-Transport-Security with a max-age of at least six months (currently ${isNaN(maxAge) ? 'none' : maxAge})`);
+        penalty += 4;
+      } else {
+        present.push('Strict-Transport-Security');
+      }
+    }
+
+    if (http.csp || data.security.metaCsp) {
+      present.push('Content-Security-Policy');
+    } else {
+      missing.push('Content-Security-Policy (limits the damage of injected scripts)');
+      penalty += 8;
+    }
+
+    if (http.xContentTypeOptions.toLowerCase().includes('nosniff')) {
+      present.push('X-Content-Type-Options');
+    } else {
+      missing.push('X-Content-Type-Options: nosniff');
+      penalty += 4;
+    }
+
+    if (http.referrerPolicy || data.security.metaReferrer) {
+      present.push('Referrer-Policy');
+    } else {
+      missing.push('Referrer-Policy');
+      penalty += 4;
+    }
+
+    if (missing.length > 0) {
+      results.push({
+        type: 'warning',
+        title: 'Missing security headers',
+        description: 'These response headers protect visitors against downgrade, injection and content-sniffing attacks, and their absence is a common trust flag.',
+        details: missing.join(' · '),
+        metrics: { 'Present': present.length, 'Missing': missing.length },
+      });
+    } else {
+      results.push({
+        type: 'success',
+        title: 'Security headers set',
+        description: 'The server sends the recommended security headers.',
+        details: present.join(', '),
+      });
+    }
+
+    return penalty;
+  }
+}
@@ -1,270 +1,80 @@
-import type { WebsiteData, TraditionalSeoResult, GeoResult, ContentSuggestions } from '@shared/schema';
+import type { WebsiteData, TraditionalSeoResult, GeoResult, ContentSuggestions, AltTextReport, ScoringProfile, ScoreBreakdown, GeoAnalysis, GeoFactor, AuditReport, ComparisonResult } from '@shared/schema';
+import { extractKeywords } from './text-language';
+import { AltTextAnalyzer } from './alt-text-analyzer';
+import { RuleEngine } from './rule-engine';
+import { TRADITIONAL_SEO_RULES } from './seo-rules';
+import { GEO_RULES, GEO_FACTOR_RULES, factorStatus } from './geo-rules';
+import { PlatformVisibilityAnalyzer } from './platform-visibility';
 
 export class SeoAnalyzer {
-  analyzeTraditionalSeo(data: WebsiteData): { results: TraditionalSeoResult[]; score: number } {
-    const results: TraditionalSeoResult[] = [];
-    let score = 0;
-    const maxScore = 100;
+  private altTextAnalyzer = new AltTextAnalyzer();
+  private platformVisibility = new PlatformVisibilityAnalyzer();
+  private traditionalSeoRules = new RuleEngine(TRADITIONAL_SEO_RULES);
+  private geoRules = new RuleEngine(GEO_RULES);
 
-    // Title tag analysis
-    if (!data.title) {
-      results.push({
-        type: 'error',
-        title: 'Missing title tag',
-        description: 'The page is missing a title tag, which is crucial for SEO.',
-      });
-    } else if (data.title.length < 30) {
-      results.push({
-        type: 'warning',
-        title: 'Title tag too short',
-        description: 'Title tag should be between 30-60 characters for optimal SEO.',
-        details: `Current: "${data.title}"`,
-      });
-      score += 10;
-    } else if (data.title.length > 60) {
-      results.push({
-        type: 'warning',
-        title: 'Title tag too long',
-        description: 'Title tag may be truncated in search results.',
-        details: `Current length: ${data.title.length} characters`,
-      });
-      score += 10;
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Title tag length optimal',
-        description: 'Title tag length is within the recommended range.',
-        details: `Length: ${data.title.length} characters`,
-      });
-      score += 20;
-    }
-
-    // Meta description analysis
-    if (!data.metaDescription) {
-      results.push({
-        type: 'error',
-        title: 'Missing meta description',
-        description: 'Meta description is missing, which affects click-through rates.',
-      });
-    } else if (data.metaDescription.length < 120) {
-      results.push({
-        type: 'warning',
-        title: 'Meta description too short',
-        description: 'Meta description should be 120-160 characters for best results.',
-        details: `Current length: ${data.metaDescription.length} characters`,
-      });
-      score += 10;
-    } else if (data.metaDescription.length > 160) {
-      results.push({
-        type: 'warning',
-        title: 'Meta description too long',
-        description: 'Meta description may be truncated in search results.',
-        details: `Current length: ${data.metaDescription.length} characters`,
-      });
-      score += 10;
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Meta description length optimal',
-        description: 'Meta description length is within the recommended range.',
-        details: `Length: ${data.metaDescription.length} characters`,
-      });
-      score += 20;
-    }
-
-    // Heading structure analysis
-    const h1Count = data.headings.filter(h => h.level === 1).length;
-    if (h1Count === 0) {
-      results.push({
-        type: 'error',
-        title: 'Missing H1 tag',
-        description: 'Every page should have exactly one H1 tag.',
-      });
-    } else if (h1Count > 1) {
-      results.push({
-        type: 'warning',
-        title: 'Multiple H1 tags found',
-        description: 'Use only one H1 per page and structure other headings hierarchically.',
-        metrics: { 'H1 tags': h1Count },
-      });
-      score += 10;
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Proper H1 structure',
-        description: 'Page has exactly one H1 tag.',
-      });
-      score += 15;
-    }
-
-    // Image optimization analysis
-    const imagesWithoutAlt = data.images.filter(img => !img.hasAlt).length;
-    if (imagesWithoutAlt > 0) {
-      results.push({
-        type: 'error',
-        title: 'Missing alt text on images',
-        description: `${imagesWithoutAlt} images found without alt attributes, affecting accessibility and SEO.`,
-        metrics: {
-          'Total images': data.images.length,
-          'Missing alt': imagesWithoutAlt,
-        },
-      });
-    } else if (data.images.length > 0) {
-      results.push({
-        type: 'success',
-        title: 'All images have alt text',
-        description: 'Great job! All images have descriptive alt attributes.',
-        metrics: { 'Total images': data.images.length },
-      });
-      score += 15;
-    }
-
-    // Schema markup analysis
-    if (!data.hasSchema) {
-      results.push({
-        type: 'warning',
-        title: 'No schema markup found',
-        description: 'Consider adding structured data to help search engines understand your content.',
-      });
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Schema markup present',
-        description: 'Structured data found on the page.',
-        details: `Types: ${data.schemaTypes.join(', ')}`,
-      });
-      score += 15;
-    }
-
-    // Page speed analysis (basic)
-    if (data.loadTime > 3000) {
-      results.push({
-        type: 'warning',
-        title: 'Slow page load time',
-        description: 'Page took longer than 3 seconds to load, which may affect user experience.',
-        metrics: { 'Load time': `${data.loadTime}ms` },
-      });
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Good page load time',
-        description: 'Page loads within acceptable time limits.',
-        metrics: { 'Load time': `${data.loadTime}ms` },
-      });
-      score += 15;
-    }
-
-    return { results, score: Math.min(score, maxScore) };
+  analyzeTraditionalSeo(data: WebsiteData, profile?: ScoringProfile): { results: TraditionalSeoResult[]; score: number; breakdown: ScoreBreakdown } {
+    return this.traditionalSeoRules.run(data, profile);
   }
 
-  analyzeGeo(data: WebsiteData): { results: GeoResult[]; score: number } {
-    const results: GeoResult[] = [];
-    let score = 0;
-    const maxScore = 100;
-
-    // Content structure analysis
-    const hasH2Structure = data.headings.some(h => h.level === 2);
-    if (hasH2Structure) {
-      results.push({
-        type: 'success',
-        title: 'Content structured with H2 headings',
-        description: 'Good use of heading structure that AI engines can easily parse and understand.',
-      });
-      score += 20;
-    } else {
-      results.push({
-        type: 'warning',
-        title: 'Poor heading structure for AI',
-        description: 'Add H2 and H3 headings to improve AI readability and content parsing.',
-      });
-    }
+  // Per-image alt text review with suggestions; stored on the report
+  analyzeAltText(data: WebsiteData): AltTextReport {
+    return this.altTextAnalyzer.analyze(data.images);
+  }
 
-    // TL;DR analysis
-    const hasTldr = data.content.toLowerCase().includes('tl;dr') || 
-                   data.content.toLowerCase().includes('summary') ||
-                   data.content.toLowerCase().includes('key takeaways');
-    if (!hasTldr) {
-      results.push({
-        type: 'error',
-        title: 'No TL;DR summary found',
-        description: 'AI tools prefer concise summaries. Add a TL;DR section to improve AI-driven content discovery.',
-      });
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Summary content present',
-        description: 'Content includes summary sections that AI tools can easily extract.',
-      });
-      score += 25;
-    }
+  // The GEO factors are the scored GEO rules, so the factor list, aiScore and its breakdown always agree
+  analyzeGeo(data: WebsiteData, profile?: ScoringProfile): { results: GeoResult[]; score: number; breakdown: ScoreBreakdown; analysis: GeoAnalysis } {
+    const { results, score, breakdown, scores } = this.geoRules.run(data, profile);
 
-    // Question-answer format analysis
-    const hasQAFormat = data.content.toLowerCase().includes('what is') ||
-                       data.content.toLowerCase().includes('how to') ||
-                       data.content.toLowerCase().includes('why') ||
-                       data.headings.some(h => h.text.toLowerCase().includes('?'));
-    if (!hasQAFormat) {
-      results.push({
-        type: 'warning',
-        title: 'Limited question-answer format',
-        description: 'Content doesn\'t directly answer user intent queries. Consider restructuring with Q&A sections.',
+    const factors: GeoFactor[] = GEO_FACTOR_RULES
+      .filter(rule => rule.id in scores)
+      .map(rule => {
+        const factorScore = Math.round(scores[rule.id] * 100);
+        return {
+          id: rule.id,
+          factor: rule.name,
+          score: factorScore,
+          weight: breakdown.contributions.find(contribution => contribution.id === rule.id)?.possible ?? 0,
+          description: rule.description,
+          status: factorStatus(factorScore),
+        };
       });
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Question-answer format detected',
-        description: 'Content addresses user questions directly, improving AI platform visibility.',
-      });
-      score += 20;
-    }
 
-    // Schema markup for AI
-    if (!data.hasSchema) {
-      results.push({
-        type: 'error',
-        title: 'Missing schema markup',
-        description: 'No structured data found. Schema markup helps AI engines understand your content context.',
-      });
-    } else {
-      results.push({
-        type: 'success',
-        title: 'Schema markup enhances AI understanding',
-        description: 'Structured data helps AI platforms understand content relationships and context.',
-      });
-      score += 20;
-    }
+    const failingFactors = factors.filter(f => f.status === 'fail').length;
+    const warningFactors = factors.filter(f => f.status === 'warning').length;
 
-    // Entity and semantic clarity
-    const hasEntities = data.content.includes('2024') || 
-                       data.content.includes('2023') ||
-                       /\b[A-Z][a-z]+ [A-Z][a-z]+\b/.test(data.content); // Basic proper noun detection
-    if (hasEntities) {
-      results.push({
-        type: 'success',
-        title: 'Good entity and semantic clarity',
-        description: 'Content includes specific entities, dates, and proper nouns that improve AI understanding.',
-      });
-      score += 15;
+    let summary = '';
+    if (score >= 80) {
+      summary = 'Excellent AI platform visibility with strong optimization across most factors';
+    } else if (score >= 60) {
+      summary = `Good AI visibility with ${failingFactors + warningFactors} areas needing improvement`;
+    } else if (score >= 40) {
+      summary = `Moderate AI visibility. ${failingFactors} critical issues and ${warningFactors} warnings to address`;
     } else {
-      results.push({
-        type: 'warning',
-        title: 'Moderate entity and semantic clarity',
-        description: 'Consider adding more specific dates, locations, and definitions to improve AI understanding.',
-      });
+      summary = `Poor AI platform visibility. Significant optimization needed across ${failingFactors} critical areas`;
     }
 
-    return { results, score: Math.min(score, maxScore) };
+    return {
+      results,
+      score,
+      breakdown,
+      analysis: {
+        score,
+        summary,
+        factors,
+        platforms: this.platformVisibility.analyze(data, factors),
+        recommendations: this.generateGeoRecommendations(factors, score),
+      },
+    };
   }
 
   generateContentSuggestions(data: WebsiteData, aiScore: number): ContentSuggestions {
-    // Generate missing keywords based on content analysis
-    const missingKeywords = [
-      'SEO optimization',
-      'website performance',
-      'search engine ranking',
-      'content marketing',
-      'digital marketing'
-    ];
+    // Frequent terms of the main content that the title, meta description and H1 never mention
+    const targeted = [data.title, data.metaDescription, ...data.headings.filter(h => h.level === 1).map(h => h.text)]
+      .join(' ')
+      .toLowerCase();
+    const missingKeywords = extractKeywords(data.mainContent, data.language.detected, 20)
+      .filter(keyword => !targeted.includes(keyword))
+      .slice(0, 5);
 
     // Generate blog title suggestions
     const blogTitles = [
@@ -322,14 +132,6 @@ export class SeoAnalyzer {
       }
     ];
 
-    // Assess AI platform visibility
-    const aiVisibility = {
-      chatgpt: 'medium' as const,
-      perplexity: 'low' as const,
-      claude: 'medium' as const,
-      bard: 'low' as const
-    };
-
     // Generate AI improvement suggestions based on current score
     const aiImprovements = this.generateAiImprovements(data, aiScore);
 
@@ -338,7 +140,6 @@ export class SeoAnalyzer {
       blogTitles,
       contentStructure,
       faqs,
-      aiVisibility,
       aiImprovements
     };
   }
@@ -436,640 +237,14 @@ export class SeoAnalyzer {
     return improvements.slice(0, 6); // Return top 6 most relevant improvements
   }
 
-  analyzeAiPlatformVisibility(data: WebsiteData): any {
-    const factors = [];
-    let totalScore = 0;
-    const maxScore = 1200; // 12 factors × 100 points each
-
-    // 1. Crawlability Assessment
-    const crawlabilityScore = this.assessCrawlability(data);
-    factors.push({
-      factor: 'Public Crawlability',
-      score: crawlabilityScore,
-      description: 'Page accessibility for AI crawlers without login walls or blocking',
-      status: crawlabilityScore >= 80 ? 'pass' : crawlabilityScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += crawlabilityScore;
-
-    // 2. HTML Structure Quality
-    const structureScore = this.assessHtmlStructure(data);
-    factors.push({
-      factor: 'HTML Structure',
-      score: structureScore,
-      description: 'Clean semantic HTML with proper heading hierarchy',
-      status: structureScore >= 80 ? 'pass' : structureScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += structureScore;
-
-    // 3. Content Clarity and Organization
-    const clarityScore = this.assessContentClarity(data);
-    factors.push({
-      factor: 'Content Clarity',
-      score: clarityScore,
-      description: 'Clear introduction, topic definition, and direct question answers',
-      status: clarityScore >= 80 ? 'pass' : clarityScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += clarityScore;
-
-    // 4. Scannable Content Format
-    const scannabilityScore = this.assessScanability(data);
-    factors.push({
-      factor: 'Content Scannability',
-      score: scannabilityScore,
-      description: 'Short paragraphs and easy-to-summarize content structure',
-      status: scannabilityScore >= 80 ? 'pass' : scannabilityScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += scannabilityScore;
-
-    // 5. Summary Sections
-    const summaryScore = this.assessSummarySections(data);
-    factors.push({
-      factor: 'TL;DR & Summary',
-      score: summaryScore,
-      description: 'Quick summary sections at top or bottom of content',
-      status: summaryScore >= 80 ? 'pass' : summaryScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += summaryScore;
-
-    // 6. Q&A Format Content
-    const qaScore = this.assessQaFormat(data);
-    factors.push({
-      factor: 'Q&A Format',
-      score: qaScore,
-      description: 'Structured question-answer blocks that AI can easily extract',
-      status: qaScore >= 80 ? 'pass' : qaScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += qaScore;
-
-    // 7. Schema Markup Implementation
-    const schemaScore = this.assessSchemaMarkup(data);
-    factors.push({
-      factor: 'Schema Markup',
-      score: schemaScore,
-      description: 'FAQPage, HowTo, Article, and other relevant structured data',
-      status: schemaScore >= 80 ? 'pass' : schemaScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += schemaScore;
-
-    // 8. Trusted Entity References
-    const entityScore = this.assessTrustedEntities(data);
-    factors.push({
-      factor: 'Trusted Entities',
-      score: entityScore,
-      description: 'References to organizations, authority sources, and credible links',
-      status: entityScore >= 80 ? 'pass' : entityScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += entityScore;
-
-    // 9. Extractable Data Formats
-    const dataScore = this.assessDataFormats(data);
-    factors.push({
-      factor: 'Data Extraction',
-      score: dataScore,
-      description: 'Bullet lists, tables, statistics, and structured information',
-      status: dataScore >= 80 ? 'pass' : dataScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += dataScore;
-
-    // 10. Reading Level and Clarity
-    const readabilityScore = this.assessReadability(data);
-    factors.push({
-      factor: 'Readability Level',
-      score: readabilityScore,
-      description: '8th-grade reading level, minimal jargon and marketing fluff',
-      status: readabilityScore >= 80 ? 'pass' : readabilityScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += readabilityScore;
-
-    // 11. Freshness Signals
-    const freshnessScore = this.assessFreshness(data);
-    factors.push({
-      factor: 'Content Freshness',
-      score: freshnessScore,
-      description: 'Updated dates, current year references, and freshness indicators',
-      status: freshnessScore >= 80 ? 'pass' : freshnessScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += freshnessScore;
-
-    // 12. Credibility Markers
-    const credibilityScore = this.assessCredibility(data);
-    factors.push({
-      factor: 'Credibility Markers',
-      score: credibilityScore,
-      description: 'Author information, contact details, and about us content',
-      status: credibilityScore >= 80 ? 'pass' : credibilityScore >= 50 ? 'warning' : 'fail'
-    });
-    totalScore += credibilityScore;
-
-    const overallScore = Math.round((totalScore / maxScore) * 100);
-    
-    // Generate summary
-    const failingFactors = factors.filter(f => f.status === 'fail').length;
-    const warningFactors = factors.filter(f => f.status === 'warning').length;
-    
-    let summary = '';
-    if (overallScore >= 80) {
-      summary = 'Excellent AI platform visibility with strong optimization across most factors';
-    } else if (overallScore >= 60) {
-      summary = `Good AI visibility with ${failingFactors + warningFactors} areas needing improvement`;
-    } else if (overallScore >= 40) {
-      summary = `Moderate AI visibility. ${failingFactors} critical issues and ${warningFactors} warnings to address`;
-    } else {
-      summary = `Poor AI platform visibility. Significant optimization needed across ${failingFactors} critical areas`;
-    }
-
-    // Generate recommendations
-    const recommendations = this.generateAiVisibilityRecommendations(factors, overallScore);
-
-    return {
-      overallScore,
-      summary,
-      factors,
-      recommendations
-    };
-  }
-
-  private assessCrawlability(data: WebsiteData): number {
-    let score = 70; // Conservative base score
-    
-    // Check for potential blocking indicators in content
-    const content = data.content.toLowerCase();
-    if (content.includes('login') || content.includes('sign in') || content.includes('register')) {
-      score -= 30;
-    }
-    
-    // Check for paywall indicators
-    if (content.includes('subscription') || content.includes('premium') || content.includes('paywall')) {
-      score -= 20;
-    }
-    
-    // Boost for public content indicators
-    if (content.includes('free') || content.includes('public') || content.includes('open access')) {
-      score += 20;
-    }
-    
-    // Check URL structure for accessibility
-    if (data.title && !data.title.toLowerCase().includes('404') && !data.title.toLowerCase().includes('error')) {
-      score += 15;
-    }
-    
-    return Math.max(10, Math.min(100, score));
-  }
-
-  private assessHtmlStructure(data: WebsiteData): number {
-    let score = 0;
-    
-    // Check for single H1
-    const h1Count = data.headings.filter(h => h.level === 1).length;
-    if (h1Count === 1) score += 25;
-    else if (h1Count === 0) score += 0;
-    else score += 10; // Multiple H1s are not ideal
-    
-    // Check for proper heading hierarchy
-    const hasH2 = data.headings.some(h => h.level === 2);
-    const hasH3 = data.headings.some(h => h.level === 3);
-    if (hasH2) score += 25;
-    if (hasH3) score += 15;
-    
-    // Basic structure bonus
-    if (data.title && data.title.length > 10) score += 20;
-    if (data.metaDescription && data.metaDescription.length > 50) score += 15;
-    
-    return Math.min(100, score);
-  }
-
-  private assessContentClarity(data: WebsiteData): number {
-    let score = 10; // Base score
-    const content = data.content.toLowerCase();
-    
-    // Check for clear introduction patterns (more specific)
-    const introPatterns = ['what is', 'introduction', 'overview', 'in this article', 'this guide'];
-    const foundIntro = introPatterns.some(pattern => content.includes(pattern));
-    if (foundIntro) score += 20;
-    
-    // Check for question-answering patterns
-    const qaPatterns = ['how to', 'why', 'when', 'where', 'which', 'who'];
-    const foundQA = qaPatterns.filter(pattern => content.includes(pattern)).length;
-    score += Math.min(foundQA * 8, 25);
-    
-    // Check for definition patterns
-    const definitionPatterns = ['definition', 'means', 'refers to', 'is defined as', 'can be defined'];
-    const foundDefinitions = definitionPatterns.some(pattern => content.includes(pattern));
-    if (foundDefinitions) score += 15;
-    
-    // Content length scoring (more granular)
-    if (data.wordCount > 500 && data.wordCount < 2000) {
-      score += 25;
-    } else if (data.wordCount >= 2000 && data.wordCount < 4000) {
-      score += 20;
-    } else if (data.wordCount >= 300 && data.wordCount <= 500) {
-      score += 15;
-    } else if (data.wordCount < 300) {
-      score += 5;
-    }
-    
-    // Check for topic consistency (title relevance)
-    if (data.title) {
-      const titleWords = data.title.toLowerCase().split(' ').filter(word => word.length > 3);
-      const contentMentions = titleWords.filter(word => content.includes(word)).length;
-      const relevanceRatio = contentMentions / Math.max(titleWords.length, 1);
-      score += Math.round(relevanceRatio * 15);
-    }
-    
-    return Math.min(100, score);
-  }
-
-  private assessScanability(data: WebsiteData): number {
-    let score = 5; // Base score
-    const content = data.content;
-    
-    // More accurate paragraph analysis
-    const lines = content.split('\n').filter(line => line.trim().length > 20);
-    const paragraphs = content.split('\n\n').filter(p => p.trim().length > 50);
-    
-    if (paragraphs.length > 0) {
-      const avgParagraphLength = paragraphs.reduce((sum, p) => sum + p.length, 0) / paragraphs.length;
-      
-      if (avgParagraphLength < 200) score += 30; // Very short paragraphs
-      else if (avgParagraphLength < 400) score += 25; // Short paragraphs
-      else if (avgParagraphLength < 600) score += 15; // Medium paragraphs
-      else score += 5; // Long paragraphs
-    }
-    
-    // Enhanced list detection
-    const bulletPoints = (content.match(/[•*\-]\s/g) || []).length;
-    const numberedLists = (content.match(/\d+\.\s/g) || []).length;
-    const totalLists = bulletPoints + numberedLists;
-    
-    if (totalLists > 10) score += 25;
-    else if (totalLists > 5) score += 20;
-    else if (totalLists > 2) score += 15;
-    else if (totalLists > 0) score += 10;
-    
-    // Heading distribution analysis
-    const headingCount = data.headings.length;
-    const contentWords = data.wordCount;
-    const headingRatio = headingCount / Math.max(contentWords / 200, 1); // Headings per ~200 words
-    
-    if (headingRatio > 0.8) score += 25; // Good heading distribution
-    else if (headingRatio > 0.5) score += 20;
-    else if (headingRatio > 0.3) score += 15;
-    else if (headingRatio > 0.1) score += 10;
-    
-    // Check for scannable formatting patterns
-    const formattingPatterns = [
-      /\*\*.*?\*\*/g, // Bold text
-      /\*.*?\*/g, // Italic text
-      /:\s*$/gm, // Colon endings (like lists)
-      /^\s*[-•]\s/gm // List items
-    ];
-    
-    let formattingScore = 0;
-    formattingPatterns.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches && matches.length > 0) {
-        formattingScore += Math.min(matches.length * 2, 10);
-      }
-    });
-    score += Math.min(formattingScore, 20);
-    
-    return Math.min(100, score);
-  }
-
-  private assessSummarySections(data: WebsiteData): number {
-    const content = data.content.toLowerCase();
-    let score = 0;
-    
-    // Check for TL;DR
-    if (content.includes('tl;dr') || content.includes('tldr')) score += 40;
-    
-    // Check for summary indicators
-    if (content.includes('summary') || content.includes('key points') || content.includes('takeaways')) {
-      score += 30;
-    }
-    
-    // Check for conclusion
-    if (content.includes('conclusion') || content.includes('to summarize')) {
-      score += 30;
-    }
-    
-    return Math.min(100, score);
-  }
-
-  private assessQaFormat(data: WebsiteData): number {
-    const content = data.content.toLowerCase();
-    let score = 0;
-    
-    // Check for Q&A patterns
-    if (content.includes('q:') || content.includes('question:') || content.includes('faq')) {
-      score += 40;
-    }
-    
-    // Check for answer patterns
-    if (content.includes('a:') || content.includes('answer:')) {
-      score += 30;
-    }
-    
-    // Check for question headings
-    const questionHeadings = data.headings.filter(h => 
-      h.text.toLowerCase().includes('?') || 
-      h.text.toLowerCase().startsWith('how ') ||
-      h.text.toLowerCase().startsWith('what ') ||
-      h.text.toLowerCase().startsWith('why ')
-    );
-    
-    if (questionHeadings.length > 0) {
-      score += 30;
-    }
-    
-    return Math.min(100, score);
-  }
-
-  private assessSchemaMarkup(data: WebsiteData): number {
-    let score = 0;
-    
-    if (data.hasSchema) {
-      score += 50;
-      
-      // Bonus for specific schema types
-      if (data.schemaTypes.includes('FAQPage')) score += 20;
-      if (data.schemaTypes.includes('Article')) score += 15;
-      if (data.schemaTypes.includes('HowTo')) score += 15;
-    }
-    
-    return Math.min(100, score);
-  }
-
-  private assessTrustedEntities(data: WebsiteData): number {
-    let score = 5; // Base score
-    const content = data.content.toLowerCase();
-    
-    // Authority domain references (more comprehensive)
-    const authorityDomains = ['wikipedia', '.gov', '.edu', '.org', 'reuters', 'bbc', 'cnn', 'nytimes', 'wsj'];
-    const foundAuthority = authorityDomains.filter(domain => content.includes(domain)).length;
-    score += Math.min(foundAuthority * 12, 35);
-    
-    // Academic and research indicators
-    const researchTerms = ['research', 'study', 'university', 'journal', 'published', 'peer review', 'academic'];
-    const foundResearch = researchTerms.filter(term => content.includes(term)).length;
-    score += Math.min(foundResearch * 8, 25);
-    
-    // Industry authority terms
-    const industryTerms = ['according to', 'expert', 'specialist', 'authority', 'leader in', 'established'];
-    const foundIndustry = industryTerms.filter(term => content.includes(term)).length;
-    score += Math.min(foundIndustry * 5, 20);
-    
-    // External links analysis (more sophisticated)
-    const externalLinks = data.links.filter(link => !link.isInternal);
-    const linkScore = Math.min(externalLinks.length * 3, 20);
-    score += linkScore;
-    
-    // Check for citations or references
-    if (content.includes('source:') || content.includes('reference') || content.includes('citation')) {
-      score += 15;
-    }
-    
-    // Brand mentions and entities
-    const entityPatterns = ['inc.', 'corp.', 'ltd.', 'company', 'organization', 'institute'];
-    const foundEntities = entityPatterns.filter(pattern => content.includes(pattern)).length;
-    score += Math.min(foundEntities * 4, 15);
-    
-    return Math.min(100, score);
-  }
-
-  private assessDataFormats(data: WebsiteData): number {
-    let score = 5; // Conservative base score
-    const content = data.content;
-    
-    // Enhanced bullet point detection
-    const bulletPatterns = [
-      /[•*]\s/g,
-      /^\s*[-\*\+]\s/gm,
-      /▪\s/g,
-      /◦\s/g
-    ];
-    
-    let bulletCount = 0;
-    bulletPatterns.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches) bulletCount += matches.length;
-    });
-    
-    if (bulletCount > 10) score += 25;
-    else if (bulletCount > 5) score += 20;
-    else if (bulletCount > 2) score += 15;
-    else if (bulletCount > 0) score += 10;
-    
-    // Enhanced numbered list detection
-    const numberedListMatches = content.match(/^\s*\d+\.\s/gm);
-    const numberedCount = numberedListMatches ? numberedListMatches.length : 0;
-    
-    if (numberedCount > 8) score += 20;
-    else if (numberedCount > 4) score += 15;
-    else if (numberedCount > 1) score += 10;
-    else if (numberedCount > 0) score += 5;
-    
-    // Enhanced statistical data detection
-    const statPatterns = [
-      /\d+%/g, // Percentages
-      /\$\d+(?:,\d{3})*/g, // Currency
-      /\d+,\d{3}/g, // Large numbers with commas
-      /\d+\.\d+/g, // Decimal numbers
-      /\d+\s?(?:million|billion|thousand)/gi, // Scale indicators
-      /\d+\s?(?:hours?|days?|weeks?|months?|years?)/gi, // Time periods
-      /\d+\s?(?:people|users|customers|companies)/gi // Quantities
-    ];
-    
-    let statCount = 0;
-    statPatterns.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches) statCount += matches.length;
-    });
-    
-    if (statCount > 15) score += 25;
-    else if (statCount > 8) score += 20;
-    else if (statCount > 4) score += 15;
-    else if (statCount > 1) score += 10;
-    
-    // Table indicators (in text content)
-    const tableIndicators = ['table', 'chart', 'graph', 'figure', 'data shows', 'statistics'];
-    const tableScore = tableIndicators.filter(indicator => 
-      content.toLowerCase().includes(indicator)
-    ).length;
-    score += Math.min(tableScore * 3, 15);
-    
-    // Comparison formats
-    const comparisonFormats = [
-      /vs\.?\s/gi,
-      /versus/gi,
-      /compared to/gi,
-      /in contrast/gi,
-      /on the other hand/gi
-    ];
-    
-    let comparisonCount = 0;
-    comparisonFormats.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches) comparisonCount += matches.length;
-    });
-    score += Math.min(comparisonCount * 4, 15);
-    
-    // Code or technical formatting
-    const codePatterns = [
-      /`[^`]+`/g, // Inline code
-      /```[\s\S]*?```/g, // Code blocks
-      /<[^>]+>/g // HTML-like tags
-    ];
-    
-    let codeCount = 0;
-    codePatterns.forEach(pattern => {
-      const matches = content.match(pattern);
-      if (matches) codeCount += matches.length;
-    });
-    score += Math.min(codeCount * 2, 10);
-    
-    return Math.min(100, score);
-  }
-
-  private assessReadability(data: WebsiteData): number {
-    let score = 30; // Lower base score for better differentiation
-    
-    // Sentence length analysis
-    const sentences = data.content.split(/[.!?]+/).filter(s => s.trim().length > 10);
-    if (sentences.length > 0) {
-      const avgWordsPerSentence = data.wordCount / sentences.length;
-      
-      if (avgWordsPerSentence < 15) score += 30; // Easy to read
-      else if (avgWordsPerSentence < 20) score += 20; // Moderate
-      else if (avgWordsPerSentence < 25) score += 10; // Getting complex
-      else score += 5; // Too complex
-    }
-    
-    // Complex word analysis (words longer than 7 characters)
-    const words = data.content.match(/\b\w+\b/g) || [];
-    const complexWords = words.filter(word => word.length > 7);
-    const complexWordRatio = complexWords.length / words.length;
-    
-    if (complexWordRatio < 0.15) score += 20; // Low complexity
-    else if (complexWordRatio < 0.25) score += 15; // Moderate complexity
-    else if (complexWordRatio < 0.35) score += 10; // High complexity
-    else score += 5; // Very high complexity
-    
-    // Paragraph length assessment
-    const paragraphs = data.content.split('\n\n').filter(p => p.trim().length > 50);
-    if (paragraphs.length > 0) {
-      const avgParagraphWords = data.wordCount / paragraphs.length;
-      if (avgParagraphWords < 50) score += 15; // Short paragraphs
-      else if (avgParagraphWords < 100) score += 10; // Medium paragraphs
-      else score += 5; // Long paragraphs
-    }
-    
-    // Readability indicators
-    const readabilityTerms = ['simply', 'easy', 'quick', 'step by step', 'in other words', 'for example'];
-    const foundTerms = readabilityTerms.filter(term => data.content.toLowerCase().includes(term));
-    score += Math.min(foundTerms.length * 5, 15);
-    
-    return Math.max(10, Math.min(100, score));
-  }
-
-  private assessFreshness(data: WebsiteData): number {
-    let score = 10; // Base score
-    const content = data.content.toLowerCase();
-    const currentYear = new Date().getFullYear();
-    
-    // Current year references (weighted by frequency)
-    const currentYearMatches = (content.match(new RegExp(currentYear.toString(), 'g')) || []).length;
-    score += Math.min(currentYearMatches * 15, 30);
-    
-    // Previous year (less weight)
-    const lastYearMatches = (content.match(new RegExp((currentYear - 1).toString(), 'g')) || []).length;
-    score += Math.min(lastYearMatches * 10, 20);
-    
-    // Freshness indicators with varying weights
-    const freshnessTerms = {
-      'updated': 15,
-      'revised': 12,
-      'latest': 10,
-      'current': 8,
-      'recent': 8,
-      'new': 6,
-      'today': 12,
-      'this year': 10,
-      'recently': 8
-    };
-    
-    let freshnessScore = 0;
-    Object.entries(freshnessTerms).forEach(([term, weight]) => {
-      if (content.includes(term)) {
-        freshnessScore += weight;
-      }
-    });
-    score += Math.min(freshnessScore, 25);
-    
-    // Month references (indicates recent content)
-    const months = ['january', 'february', 'march', 'april', 'may', 'june', 
-                   'july', 'august', 'september', 'october', 'november', 'december'];
-    const monthMentions = months.filter(month => content.includes(month)).length;
-    score += Math.min(monthMentions * 3, 15);
-    
-    // Version indicators
-    const versionPatterns = ['version', 'v.', 'update', 'release'];
-    const versionMentions = versionPatterns.filter(pattern => content.includes(pattern)).length;
-    score += Math.min(versionMentions * 5, 15);
-    
-    // Penalty for old years
-    const oldYears = ['2020', '2019', '2018', '2017'];
-    const oldYearMentions = oldYears.filter(year => content.includes(year)).length;
-    score -= Math.min(oldYearMentions * 5, 20);
-    
-    return Math.max(5, Math.min(100, score));
-  }
-
-  private assessCredibility(data: WebsiteData): number {
-    let score = 15; // Lower base score for better differentiation
-    const content = data.content.toLowerCase();
-    
-    // Author information (various formats)
-    const authorPatterns = ['author:', 'written by', 'by:', 'contributor:', 'created by', 'published by'];
-    const foundAuthor = authorPatterns.some(pattern => content.includes(pattern));
-    if (foundAuthor) score += 25;
-    
-    // Contact and company information
-    const contactPatterns = ['contact us', 'about us', 'our team', 'meet the team', 'company info'];
-    const foundContact = contactPatterns.filter(pattern => content.includes(pattern)).length;
-    score += Math.min(foundContact * 8, 20);
-    
-    // Professional credentials and expertise
-    const credentialTerms = ['expert', 'certified', 'professional', 'phd', 'degree', 'years of experience', 'specialist'];
-    const foundCredentials = credentialTerms.filter(term => content.includes(term)).length;
-    score += Math.min(foundCredentials * 6, 18);
-    
-    // Trust signals
-    const trustSignals = ['award', 'featured in', 'recognized', 'testimonial', 'review', 'trusted by'];
-    const foundTrust = trustSignals.filter(signal => content.includes(signal)).length;
-    score += Math.min(foundTrust * 5, 15);
-    
-    // Publication date or last updated
-    const datePatterns = ['published', 'updated', 'last modified', 'copyright', '2024', '2025'];
-    const foundDate = datePatterns.some(pattern => content.includes(pattern));
-    if (foundDate) score += 12;
-    
-    // External validation
-    if (content.includes('source') || content.includes('reference') || content.includes('study')) {
-      score += 10;
-    }
-    
-    return Math.max(5, Math.min(100, score));
-  }
-
-  private generateAiVisibilityRecommendations(factors: any[], overallScore: number): any[] {
-    const recommendations = [];
+  private generateGeoRecommendations(factors: GeoFactor[], overallScore: number): GeoAnalysis['recommendations'] {
+    const recommendations: GeoAnalysis['recommendations'] = [];
     
     // High priority recommendations for critical failures
     factors.forEach(factor => {
       if (factor.status === 'fail') {
-        switch (factor.factor) {
-          case 'TL;DR & Summary':
+        switch (factor.id) {
+          case 'geo.summary':
             recommendations.push({
               priority: 'high',
               action: 'Add TL;DR Summary Section',
@@ -1077,7 +252,7 @@ export class SeoAnalyzer {
               impact: 'AI tools will be able to easily understand and summarize your content'
             });
             break;
-          case 'Q&A Format':
+          case 'geo.question-answer':
             recommendations.push({
               priority: 'high',
               action: 'Create FAQ Section',
@@ -1085,15 +260,17 @@ export class SeoAnalyzer {
               impact: 'Better visibility in ChatGPT and Perplexity search results'
             });
             break;
-          case 'Schema Markup':
+          case 'geo.schema':
             recommendations.push({
               priority: 'high',
-              action: 'Implement Structured Data',
-              description: 'Add FAQPage, Article, or HowTo schema markup to your content',
+              action: factor.score > 0 ? 'Fix Structured Data Errors' : 'Implement Structured Data',
+              description: factor.score > 0
+                ? 'Add the required and recommended properties reported in the structured data checks'
+                : 'Add FAQPage, Article, or HowTo schema markup to your content',
               impact: 'AI platforms will better understand your content context and relationships'
             });
             break;
-          case 'Content Clarity':
+          case 'geo.content-clarity':
             recommendations.push({
               priority: 'high',
               action: 'Improve Content Structure',
@@ -1101,6 +278,14 @@ export class SeoAnalyzer {
               impact: 'AI systems will better understand and reference your content'
             });
             break;
+          case 'geo.credibility':
+            recommendations.push({
+              priority: 'high',
+              action: 'Fix HTTPS and Security Issues',
+              description: 'Serve the page over HTTPS with a valid certificate, remove mixed content and add security headers',
+              impact: 'Answer engines and browsers are less likely to send visitors to pages flagged as insecure'
+            });
+            break;
         }
       }
     });
@@ -1108,8 +293,8 @@ export class SeoAnalyzer {
     // Medium priority for warnings
     factors.forEach(factor => {
       if (factor.status === 'warning') {
-        switch (factor.factor) {
-          case 'HTML Structure':
+        switch (factor.id) {
+          case 'geo.heading-structure':
             recommendations.push({
               priority: 'medium',
               action: 'Improve Heading Structure',
@@ -1117,7 +302,7 @@ export class SeoAnalyzer {
               impact: 'AI systems will better understand your content\'s logical flow'
             });
             break;
-          case 'Content Scannability':
+          case 'geo.scannability':
             recommendations.push({
               priority: 'medium',
               action: 'Break Content into Short Paragraphs',
@@ -1125,7 +310,7 @@ export class SeoAnalyzer {
               impact: 'AI tools can more easily scan and extract information from your content'
             });
             break;
-          case 'Readability Level':
+          case 'geo.readability':
             recommendations.push({
               priority: 'medium',
               action: 'Simplify Language',
@@ -1142,7 +327,7 @@ export class SeoAnalyzer {
       recommendations.push({
         priority: 'medium',
         action: 'Add Current Year References',
-        description: 'Include 2025 dates and recent data points to show content freshness',
+        description: `Include ${new Date().getFullYear()} dates and recent data points to show content freshness`,
         impact: 'AI platforms prefer fresh and up-to-date content for their responses'
       });
     }
@@ -1159,14 +344,16 @@ export class SeoAnalyzer {
     return recommendations.slice(0, 8); // Return top 8 recommendations
   }
 
-  compareWebsites(data1: WebsiteData, report1: any, data2: WebsiteData, report2: any, 
-                  aiVisibility1: any, aiVisibility2: any): any {
+  compareWebsites(data1: WebsiteData, report1: AuditReport, data2: WebsiteData, report2: AuditReport): ComparisonResult['differences'] {
     const seoScoreDiff = report2.seoScore - report1.seoScore;
     const aiScoreDiff = report2.aiScore - report1.aiScore;
-    const aiVisibilityDiff = aiVisibility2.overallScore - aiVisibility1.overallScore;
-    const betterPerformer = (seoScoreDiff + aiScoreDiff + aiVisibilityDiff) > 0 ? 'url2' : 'url1';
+    const betterPerformer = (seoScoreDiff + aiScoreDiff) > 0 ? 'url2' : 'url1';
     
-    const keyDifferences = [];
+    const keyDifferences: ComparisonResult['differences']['keyDifferences'] = [];
+    const factorScore = (report: AuditReport, id: string) => {
+      const factor = report.geoAnalysis?.factors.find(f => f.id === id);
+      return factor ? `${factor.score}/100` : 'Not assessed';
+    };
 
     // SEO Differences
     if (Math.abs(seoScoreDiff) > 10) {
@@ -1189,27 +376,21 @@ export class SeoAnalyzer {
       });
     }
 
-    // AI Platform Visibility Differences
-    if (Math.abs(aiVisibilityDiff) > 15) {
-      const factor1 = aiVisibility1.factors.find((f: any) => f.factor === 'TL;DR & Summary');
-      const factor2 = aiVisibility2.factors.find((f: any) => f.factor === 'TL;DR & Summary');
-      
+    // GEO factor differences
+    if (Math.abs(aiScoreDiff) > 15) {
       keyDifferences.push({
         category: 'visibility' as const,
         aspect: 'AI Platform Summary',
-        url1Value: factor1 ? `${factor1.score}/100` : 'Not assessed',
-        url2Value: factor2 ? `${factor2.score}/100` : 'Not assessed',
+        url1Value: factorScore(report1, 'geo.summary'),
+        url2Value: factorScore(report2, 'geo.summary'),
         recommendation: 'Add TL;DR sections and clear summaries for better AI visibility'
       });
 
-      const schema1 = aiVisibility1.factors.find((f: any) => f.factor === 'Schema Markup');
-      const schema2 = aiVisibility2.factors.find((f: any) => f.factor === 'Schema Markup');
-      
       keyDifferences.push({
         category: 'visibility' as const,
         aspect: 'Structured Data Implementation',
-        url1Value: schema1 ? `${schema1.score}/100` : 'Not assessed',
-        url2Value: schema2 ? `${schema2.score}/100` : 'Not assessed',
+        url1Value: factorScore(report1, 'geo.schema'),
+        url2Value: factorScore(report2, 'geo.schema'),
         recommendation: 'Implement FAQPage and Article schema markup for AI platforms'
       });
     }
@@ -1239,7 +420,6 @@ export class SeoAnalyzer {
     return {
       seoScoreDiff,
       aiScoreDiff,
-      aiVisibilityDiff,
       betterPerformer,
       keyDifferences
     };
@@ -0,0 +1,1026 @@
+import type { WebsiteData, TraditionalSeoResult, ImageElement, ImageAsset, LinkCheckResult, AltTextIssue, ScoringThresholds } from '@shared/schema';
+import { always, type AuditRule, type RuleOutcome } from './rule-engine';
+import { AltTextAnalyzer } from './alt-text-analyzer';
+import { normalizeCharset } from './charset';
+
+type Result = Omit<TraditionalSeoResult, 'ruleId'>;
+
+const LEGACY_IMAGE_FORMATS = new Set(['jpeg', 'png', 'gif', 'bmp']);
+
+const ALT_TEXT_ISSUE_LABELS: Record<AltTextIssue, string> = {
+  missing: 'Missing',
+  filename: 'File name',
+  generic: 'Generic',
+  redundant_prefix: '"Image of" prefix',
+  duplicate: 'Duplicated',
+  too_long: 'Too long',
+  stuffed: 'Keyword stuffed',
+};
+
+const altTextAnalyzer = new AltTextAnalyzer();
+
+const pass = (...results: Result[]): RuleOutcome<TraditionalSeoResult> => ({ score: 1, results });
+const fail = (...results: Result[]): RuleOutcome<TraditionalSeoResult> => ({ score: 0, results });
+// Rules that used to deduct points keep their penalties, as a share of the rule's weight
+const deduct = (penalty: number, weight: number, results: Result[]): RuleOutcome<TraditionalSeoResult> => ({
+  score: 1 - Math.min(penalty, weight) / weight,
+  results,
+});
+const withEvidence = (outcome: RuleOutcome<TraditionalSeoResult>, ...evidence: string[]) => ({ ...outcome, evidence });
+
+const normalizeUrl = (url: string) => url.replace(/#.*$/, '');
+const pageUrl = (data: WebsiteData) => data.http?.finalUrl ?? data.url;
+const describeRobotsMeta = (data: WebsiteData) => data.head.robotsMeta.map(meta => `<meta name="${meta.name}" content="${meta.content}">`).join(' ');
+
+// Every on-page, head and server check of the traditional SEO audit, in the order results are shown
+export const TRADITIONAL_SEO_RULES: AuditRule<TraditionalSeoResult>[] = [
+  {
+    id: 'seo.title',
+    name: 'Title tag',
+    category: 'content',
+    severity: 'major',
+    weight: 20,
+    appliesTo: always,
+    evaluate: (data, thresholds) => {
+      if (!data.title) {
+        return fail({
+          type: 'error',
+          title: 'Missing title tag',
+          description: 'The page is missing a title tag, which is crucial for SEO.',
+        });
+      }
+      if (data.title.length < thresholds.titleMinLength) {
+        return {
+          score: 0.5,
+          results: [{
+            type: 'warning',
+            title: 'Title tag too short',
+            description: `Title tag should be between ${thresholds.titleMinLength}-${thresholds.titleMaxLength} characters for optimal SEO.`,
+            details: `Current: "${data.title}"`,
+          }],
+        };
+      }
+      if (data.title.length > thresholds.titleMaxLength) {
+        return {
+          score: 0.5,
+          results: [{
+            type: 'warning',
+            title: 'Title tag too long',
+            description: 'Title tag may be truncated in search results.',
+            details: `Current length: ${data.title.length} characters`,
+          }],
+        };
+      }
+      return pass({
+        type: 'success',
+        title: 'Title tag length optimal',
+        description: 'Title tag length is within the recommended range.',
+        details: `Length: ${data.title.length} characters`,
+      });
+    },
+  },
+  {
+    id: 'seo.meta-description',
+    name: 'Meta description',
+    category: 'content',
+    severity: 'major',
+    weight: 20,
+    appliesTo: always,
+    evaluate: (data, thresholds) => {
+      if (!data.metaDescription) {
+        return fail({
+          type: 'error',
+          title: 'Missing meta description',
+          description: 'Meta description is missing, which affects click-through rates.',
+        });
+      }
+      if (data.metaDescription.length < thresholds.metaDescriptionMinLength) {
+        return {
+          score: 0.5,
+          results: [{
+            type: 'warning',
+            title: 'Meta description too short',
+            description: `Meta description should be ${thresholds.metaDescriptionMinLength}-${thresholds.metaDescriptionMaxLength} characters for best results.`,
+            details: `Current length: ${data.metaDescription.length} characters`,
+          }],
+        };
+      }
+      if (data.metaDescription.length > thresholds.metaDescriptionMaxLength) {
+        return {
+          score: 0.5,
+          results: [{
+            type: 'warning',
+            title: 'Meta description too long',
+            description: 'Meta description may be truncated in search results.',
+            details: `Current length: ${data.metaDescription.length} characters`,
+          }],
+        };
+      }
+      return pass({
+        type: 'success',
+        title: 'Meta description length optimal',
+        description: 'Meta description length is within the recommended range.',
+        details: `Length: ${data.metaDescription.length} characters`,
+      });
+    },
+  },
+  {
+    id: 'seo.h1',
+    name: 'H1 heading',
+    category: 'content',
+    severity: 'major',
+    weight: 15,
+    appliesTo: always,
+    evaluate: data => {
+      const h1Count = data.headings.filter(h => h.level === 1).length;
+      if (h1Count === 0) {
+        return fail({
+          type: 'error',
+          title: 'Missing H1 tag',
+          description: 'Every page should have exactly one H1 tag.',
+        });
+      }
+      if (h1Count > 1) {
+        return {
+          score: 10 / 15,
+          results: [{
+            type: 'warning',
+            title: 'Multiple H1 tags found',
+            description: 'Use only one H1 per page and structure other headings hierarchically.',
+            metrics: { 'H1 tags': h1Count },
+          }],
+        };
+      }
+      return withEvidence(pass({
+        type: 'success',
+        title: 'Proper H1 structure',
+        description: 'Page has exactly one H1 tag.',
+      }), `H1: "${data.headings.find(h => h.level === 1)!.text}"`);
+    },
+  },
+  {
+    // Alt text of content images: missing, or present but not describing anything
+    id: 'seo.image-alt-text',
+    name: 'Image alt text',
+    category: 'images',
+    severity: 'major',
+    weight: 15,
+    appliesTo: data => data.images.length > 0,
+    evaluate: data => {
+      const altText = altTextAnalyzer.analyze(data.images);
+      const missing = altText.issueCounts.missing ?? 0;
+      const lowQuality = altText.flaggedCount - missing;
+      const results: Result[] = [];
+
+      if (missing > 0) {
+        results.push({
+          type: 'error',
+          title: 'Missing alt text on images',
+          description: `${missing} content images have no alt text, so screen readers and search engines cannot tell what they show. Mark purely decorative images with alt="" instead.`,
+          metrics: {
+            'Total images': altText.totalImages,
+            'Missing alt': missing,
+            'Decorative': altText.decorativeImages,
+          },
+        });
+      }
+
+      if (lowQuality > 0) {
+        const examples = altText.flaggedImages.filter(image => !image.issues.includes('missing'));
+        results.push({
+          type: 'warning',
+          title: 'Low-quality alt text',
+          description: 'Some alt text is a file name, a generic word, copied across images, too long or a list of keywords. Describe what each image shows in a short sentence.',
+          details: examples
+            .slice(0, 3)
+            .map(image => `"${image.alt.length > 60 ? image.alt.slice(0, 60) + '…' : image.alt}" (${image.issues.map(issue => ALT_TEXT_ISSUE_LABELS[issue].toLowerCase()).join(', ')})`)
+            .join(' · ') + (lowQuality > 3 ? ` and ${lowQuality - 3} more` : ''),
+          metrics: Object.fromEntries(
+            (Object.keys(altText.issueCounts) as AltTextIssue[])
+              .filter(issue => issue !== 'missing')
+              .map(issue => [ALT_TEXT_ISSUE_LABELS[issue], altText.issueCounts[issue]!]),
+          ),
+        });
+      }
+
+      if (missing > 0) return { score: 0, results };
+      if (lowQuality > 0) return { score: (altText.contentImages - lowQuality) / altText.contentImages, results };
+      if (altText.contentImages === 0 && altText.decorativeImages === 0) return pass();
+
+      return pass(altText.contentImages > 0
+        ? {
+          type: 'success',
+          title: 'All images have alt text',
+          description: 'Content images have descriptive alt text and decorative images are marked as such.',
+          metrics: { 'Content images': altText.contentImages, 'Decorative': altText.decorativeImages },
+        }
+        : {
+          type: 'success',
+          title: 'Decorative images are marked',
+          description: 'All images are marked as decorative, so screen readers skip them.',
+          metrics: { 'Decorative': altText.decorativeImages },
+        });
+    },
+  },
+  {
+    // Files that are heavy, or much wider than the size they are shown at; only known when the image check ran
+    id: 'seo.image-file-size',
+    name: 'Image file sizes',
+    category: 'images',
+    severity: 'major',
+    weight: 10,
+    appliesTo: data => data.images.length > 0 && data.imageAssets !== undefined,
+    evaluate: (data, thresholds) => {
+      const assetOf = imageAssetLookup(data);
+      const oversized = findOversizedImages(data, thresholds);
+      if (oversized.length === 0) return withEvidence(pass(), `No oversized files among ${new Set(data.imageAssets!.map(asset => asset.url)).size} checked`);
+
+      const veryLarge = oversized.filter(image => (assetOf(image)!.bytes ?? 0) > 1024 * 1024);
+      return deduct(oversized.length * 2 + veryLarge.length * 2, 10, [{
+        type: veryLarge.length > 0 ? 'error' : 'warning',
+        title: 'Oversized images',
+        description: `Images over ${formatBytes(thresholds.imageBytes)}, or more than twice as wide as they are displayed, slow down the page. Compress them, resize them and offer smaller versions through srcset.`,
+        details: describeImages(oversized, image => {
+          const asset = assetOf(image)!;
+          const size = asset.bytes !== null ? formatBytes(asset.bytes) : 'size unknown';
+          return asset.width !== null ? `${size}, ${asset.width}×${asset.height}px${image.width ? `, shown at ${image.width}px` : ''}` : size;
+        }),
+        metrics: { 'Oversized images': oversized.length, 'Over 1 MB': veryLarge.length },
+      }]);
+    },
+  },
+  {
+    // JPEG, PNG and GIF files without a WebP or AVIF alternative
+    id: 'seo.image-format',
+    name: 'Image formats',
+    category: 'images',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.images.length > 0,
+    evaluate: data => {
+      const assetOf = imageAssetLookup(data);
+      const legacy = findLegacyFormatImages(data);
+      if (legacy.length === 0) return withEvidence(pass(), 'No JPEG, PNG or GIF files without a WebP or AVIF alternative');
+
+      return deduct(legacy.length, 5, [{
+        type: 'warning',
+        title: 'Images in legacy formats',
+        description: 'WebP and AVIF files are usually 25-50% smaller than JPEG or PNG at the same quality. Serve them directly or through <picture> with a fallback; replace animated GIFs with video.',
+        details: describeImages(legacy, image => {
+          const bytes = assetOf(image)?.bytes;
+          return bytes != null ? `${imageFormat(image, assetOf)}, ${formatBytes(bytes)}` : imageFormat(image, assetOf)!;
+        }),
+        metrics: { 'Legacy format images': legacy.length },
+      }]);
+    },
+  },
+  {
+    // Without both attributes the browser cannot reserve space before the file arrives
+    id: 'seo.image-dimensions',
+    name: 'Image dimensions',
+    category: 'images',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.images.length > 0,
+    evaluate: data => {
+      const withoutDimensions = findImagesWithoutDimensions(data);
+      if (withoutDimensions.length === 0) return withEvidence(pass(), `All ${data.images.length} images declare width and height`);
+
+      return deduct(withoutDimensions.length, 5, [{
+        type: 'warning',
+        title: 'Images without width and height',
+        description: 'Set width and height attributes (CSS can still scale the image) so the browser reserves space and the layout does not shift while images load (Cumulative Layout Shift).',
+        details: describeImages(withoutDimensions, image => image.width ? 'no height' : image.height ? 'no width' : 'no width or height'),
+        metrics: { 'Without dimensions': withoutDimensions.length, 'Total images': data.images.length },
+      }]);
+    },
+  },
+  {
+    // Lazy loading the main image delays Largest Contentful Paint
+    id: 'seo.hero-image-loading',
+    name: 'Main image loading',
+    category: 'images',
+    severity: 'major',
+    weight: 5,
+    appliesTo: data => data.images.length > 0,
+    evaluate: data => {
+      const hero = findLazyHeroImage(data);
+      if (!hero) return withEvidence(pass(), 'Main image is not lazy-loaded');
+
+      return fail({
+        type: 'warning',
+        title: 'Above-the-fold image is lazy-loaded',
+        description: 'The first large image is probably visible without scrolling, but loading="lazy" makes the browser wait for layout before fetching it. Remove loading="lazy" and add fetchpriority="high" to this image.',
+        details: describeImages([hero], () => `loading="${hero.loading}"`),
+      });
+    },
+  },
+  {
+    // Reports that all image file checks passed; the checks themselves carry the points
+    id: 'seo.images-optimized',
+    name: 'Image optimization',
+    category: 'images',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: data => data.images.length > 0,
+    evaluate: (data, thresholds) => {
+      const problems = findOversizedImages(data, thresholds).length + findLegacyFormatImages(data).length +
+        findImagesWithoutDimensions(data).length + (findLazyHeroImage(data) ? 1 : 0);
+      if (problems > 0) return fail();
+
+      const assets = data.imageAssets ?? [];
+      const totalBytes = assets.reduce((sum, asset) => sum + (asset.bytes ?? 0), 0);
+      return pass({
+        type: 'success',
+        title: 'Images are well optimized',
+        description: 'Images use reasonable file sizes and modern formats, declare their dimensions and the main image loads eagerly.',
+        metrics: data.imageAssets
+          ? { 'Total images': data.images.length, 'Files checked': new Set(assets.map(asset => asset.url)).size, 'Total size': formatBytes(totalBytes) }
+          : { 'Total images': data.images.length },
+      });
+    },
+  },
+  {
+    id: 'seo.structured-data',
+    name: 'Structured data',
+    category: 'structured-data',
+    severity: 'major',
+    weight: 15,
+    appliesTo: always,
+    evaluate: data => {
+      if (!data.hasSchema) {
+        return fail({
+          type: 'warning',
+          title: 'No schema markup found',
+          description: 'Consider adding structured data to help search engines understand your content.',
+        });
+      }
+
+      const { structuredData } = data;
+      const results: Result[] = [];
+      const errors = structuredData.issues.filter(issue => issue.severity === 'error');
+      const warnings = structuredData.issues.filter(issue => issue.severity === 'warning');
+      const describe = (issues: Array<{ path: string; message: string }>) => issues
+        .slice(0, 5)
+        .map(issue => `${issue.path}: ${issue.message}`)
+        .join(' · ') + (issues.length > 5 ? ` and ${issues.length - 5} more` : '');
+
+      if (structuredData.parseErrors.length > 0) {
+        results.push({
+          type: 'error',
+          title: 'Invalid JSON-LD',
+          description: 'Some JSON-LD scripts are not valid JSON and are ignored by search engines.',
+          details: describe(structuredData.parseErrors),
+        });
+      }
+
+      if (errors.length > 0) {
+        results.push({
+          type: 'error',
+          title: 'Structured data has errors',
+          description: 'Required properties are missing or invalid, so these entities are not eligible for rich results.',
+          details: describe(errors),
+          metrics: { 'Valid entities': `${structuredData.validEntities}/${structuredData.validatedEntities}` },
+        });
+      } else if (structuredData.entities.length > 0) {
+        results.push({
+          type: 'success',
+          title: 'Schema markup present',
+          description: 'Structured data found on the page with all required properties.',
+          details: `Types: ${data.schemaTypes.join(', ')}`,
+          metrics: { 'Entities': structuredData.entities.length },
+        });
+      }
+
+      if (warnings.length > 0) {
+        results.push({
+          type: 'warning',
+          title: 'Structured data is missing recommended properties',
+          description: 'Recommended properties are optional but make rich results more likely and more complete.',
+          details: describe(warnings),
+        });
+      }
+
+      return { score: errors.length > 0 || structuredData.parseErrors.length > 0 ? 8 / 15 : 1, results };
+    },
+  },
+  {
+    id: 'seo.indexability',
+    name: 'Indexability',
+    category: 'indexing',
+    severity: 'critical',
+    weight: 30,
+    appliesTo: always,
+    evaluate: data => {
+      const { robots } = data.head;
+      if (robots.noindex) {
+        return fail({
+          type: 'error',
+          title: 'Page is set to noindex',
+          description: 'A robots meta tag tells search engines not to index this page, so it cannot rank at all.',
+          details: describeRobotsMeta(data),
+        });
+      }
+      if (robots.nofollow) {
+        return deduct(5, 30, [{
+          type: 'warning',
+          title: 'Links on this page are nofollow',
+          description: 'The robots meta tag tells search engines not to follow any link on this page, so internal pages get no link equity from it.',
+          details: describeRobotsMeta(data),
+        }]);
+      }
+      return withEvidence(pass(), data.head.robotsMeta.length > 0 ? describeRobotsMeta(data) : 'No robots meta tag');
+    },
+  },
+  {
+    id: 'seo.canonical',
+    name: 'Canonical URL',
+    category: 'indexing',
+    severity: 'major',
+    weight: 10,
+    appliesTo: always,
+    evaluate: data => {
+      const distinctCanonicals = Array.from(new Set(data.head.canonicals.map(normalizeUrl)));
+      if (distinctCanonicals.length === 0) {
+        return deduct(5, 10, [{
+          type: 'warning',
+          title: 'Missing canonical tag',
+          description: 'Add a self-referencing canonical tag so search engines know the preferred URL for this page.',
+        }]);
+      }
+      if (distinctCanonicals.length > 1) {
+        return fail({
+          type: 'error',
+          title: 'Conflicting canonical tags',
+          description: 'The page declares more than one canonical URL. Search engines will ignore all of them.',
+          details: distinctCanonicals.join(' · '),
+        });
+      }
+      if (distinctCanonicals[0] !== normalizeUrl(pageUrl(data))) {
+        return pass({
+          type: 'warning',
+          title: 'Canonical points to another URL',
+          description: 'This page asks search engines to rank a different URL instead. Make sure that is intended.',
+          details: `Canonical: ${distinctCanonicals[0]}`,
+        });
+      }
+      return withEvidence(pass({
+        type: 'success',
+        title: 'Self-referencing canonical tag',
+        description: 'The canonical tag points to this page.',
+      }), `Canonical: ${distinctCanonicals[0]}`);
+    },
+  },
+  {
+    // Document language, viewport and charset; a charset in the Content-Type header counts as declared
+    id: 'seo.head-basics',
+    name: 'Language, viewport and charset',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 9,
+    appliesTo: always,
+    evaluate: data => {
+      const { head } = data;
+      const charset = head.charset || data.encoding?.headerCharset || '';
+      const missingBasics = [
+        !head.lang && '<html lang>',
+        !head.viewport && 'viewport meta tag',
+        !charset && 'charset declaration',
+      ].filter(Boolean);
+      if (missingBasics.length > 0) {
+        return deduct(missingBasics.length * 3, 9, [{
+          type: 'warning',
+          title: 'Missing basic head tags',
+          description: 'Search engines use these to pick the right language, render the mobile version and decode the text correctly.',
+          details: `Missing: ${missingBasics.join(', ')}`,
+        }]);
+      }
+      return pass({
+        type: 'success',
+        title: 'Language, viewport and charset declared',
+        description: 'The page declares its language, mobile viewport and character encoding.',
+        details: `lang="${head.lang}" · charset=${charset}`,
+      });
+    },
+  },
+  {
+    // Pasted HTML arrives as text, so only fetched pages have an encoding to check
+    id: 'seo.encoding',
+    name: 'Character encoding',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 8,
+    appliesTo: data => data.encoding !== null,
+    evaluate: data => {
+      const encoding = data.encoding!;
+      const results: Result[] = [];
+      let penalty = 0;
+
+      // Compare canonical names, since "latin1" and "windows-1252" are the same encoding
+      const headerCharset = encoding.headerCharset && normalizeCharset(encoding.headerCharset);
+      const metaCharset = encoding.metaCharset && normalizeCharset(encoding.metaCharset);
+      if (headerCharset && metaCharset && headerCharset !== metaCharset) {
+        results.push({
+          type: 'warning',
+          title: 'Conflicting charset declarations',
+          description: 'The Content-Type header and the <meta charset> tag name different encodings. Browsers and crawlers follow the header, so the meta tag is ignored.',
+          details: `Header: ${encoding.headerCharset} · Meta: ${encoding.metaCharset}`,
+        });
+        penalty += 3;
+      }
+      if (encoding.decodeErrors > 0) {
+        results.push({
+          type: 'warning',
+          title: 'Text does not match its declared encoding',
+          description: 'Some bytes are invalid in the encoding the page declares, so parts of the text show up as garbled characters for users and search engines.',
+          details: `${encoding.decodeErrors} invalid character${encoding.decodeErrors === 1 ? '' : 's'} decoding as ${encoding.charset} (from ${encoding.source})`,
+        });
+        penalty += 5;
+      }
+
+      return withEvidence(deduct(penalty, 8, results), `Decoded as ${encoding.charset} (from ${encoding.source})`);
+    },
+  },
+  {
+    // Only known when both a lang attribute and enough text to detect the language exist
+    id: 'seo.content-language',
+    name: 'Content language',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.language.matchesDeclared !== null,
+    evaluate: data => {
+      const { language } = data;
+      if (language.matchesDeclared) return withEvidence(pass(), `Declared and detected: ${language.declared}`);
+      return fail({
+        type: 'warning',
+        title: 'Content language differs from <html lang>',
+        description: 'The main content appears to be written in a different language than the page declares. Search engines may show it to the wrong audience.',
+        details: `Declared: ${language.declared} · Detected: ${language.detected} (${Math.round(language.confidence * 100)}% confidence)`,
+      });
+    },
+  },
+  {
+    id: 'seo.open-graph',
+    name: 'Open Graph tags',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: always,
+    evaluate: data => {
+      const missingOpenGraph = ['og:title', 'og:description', 'og:image', 'og:url'].filter(property => !data.head.openGraph[property]);
+      if (missingOpenGraph.includes('og:image')) {
+        return fail({
+          type: 'warning',
+          title: 'Missing og:image',
+          description: 'Shared links to this page will show without a preview image on social networks and chat apps.',
+          details: `Missing: ${missingOpenGraph.join(', ')}`,
+        });
+      }
+      if (missingOpenGraph.length > 0) {
+        return pass({
+          type: 'warning',
+          title: 'Incomplete Open Graph tags',
+          description: 'Some Open Graph tags are missing, so social previews fall back to guesses.',
+          details: `Missing: ${missingOpenGraph.join(', ')}`,
+        });
+      }
+      return pass({
+        type: 'success',
+        title: 'Open Graph tags complete',
+        description: 'Title, description, image and URL are set for social previews.',
+      });
+    },
+  },
+  {
+    id: 'seo.twitter-card',
+    name: 'Twitter card',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: always,
+    evaluate: data => data.head.twitter['twitter:card'] ? pass() : fail({
+      type: 'warning',
+      title: 'Missing Twitter card tag',
+      description: 'Add twitter:card (e.g. summary_large_image) to control how links look on X/Twitter.',
+    }),
+  },
+  {
+    // hreflang alternates must include the page itself
+    id: 'seo.hreflang',
+    name: 'hreflang alternates',
+    category: 'indexing',
+    severity: 'major',
+    weight: 5,
+    appliesTo: data => data.head.hreflang.length > 0,
+    evaluate: data => {
+      const { hreflang } = data.head;
+      const hasSelfReference = hreflang.some(alternate => normalizeUrl(alternate.href) === normalizeUrl(pageUrl(data)));
+      const hasDefault = hreflang.some(alternate => alternate.lang === 'x-default');
+      if (!hasSelfReference) {
+        return fail({
+          type: 'error',
+          title: 'Self-referencing hreflang missing',
+          description: 'Each page in an hreflang set must list itself. Without it, search engines may ignore the whole set.',
+          details: hreflang.map(alternate => `${alternate.lang}: ${alternate.href}`).join(' · '),
+        });
+      }
+      return pass({
+        type: hasDefault ? 'success' : 'warning',
+        title: hasDefault ? 'hreflang set is valid' : 'hreflang x-default missing',
+        description: hasDefault
+          ? 'Language alternates include this page and an x-default fallback.'
+          : 'Add an x-default alternate for visitors whose language is not listed.',
+        metrics: { 'Alternates': hreflang.length },
+      });
+    },
+  },
+  {
+    id: 'seo.favicon',
+    name: 'Favicon',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: always,
+    evaluate: data => data.head.favicon ? pass() : fail({
+      type: 'warning',
+      title: 'Missing favicon',
+      description: 'Google shows the favicon next to your result on mobile. Add a <link rel="icon">.',
+    }),
+  },
+  {
+    id: 'seo.web-manifest',
+    name: 'Web app manifest',
+    category: 'metadata',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: always,
+    evaluate: data => data.head.manifest ? pass() : fail({
+      type: 'warning',
+      title: 'Missing web app manifest',
+      description: 'A manifest.json lets mobile browsers show the right name, icon and theme color.',
+    }),
+  },
+  {
+    // Redirects before the page is reached; this and the other server rules need a fetched page
+    id: 'seo.redirects',
+    name: 'Redirects to the page',
+    category: 'server',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.http !== null,
+    evaluate: data => {
+      const http = data.http!;
+      if (http.redirects.length > 1) {
+        return fail({
+          type: 'warning',
+          title: 'Page is reached through a redirect chain',
+          description: 'Every hop adds latency and can dilute link signals. Redirect straight to the final URL.',
+          details: [http.requestedUrl, ...http.redirects.map(hop => `${hop.statusCode} → ${hop.location}`)].join(' '),
+          metrics: { 'Redirect hops': http.redirects.length },
+        });
+      }
+      if (http.redirects.length === 1) {
+        const hop = http.redirects[0];
+        const permanent = hop.statusCode === 301 || hop.statusCode === 308;
+        return pass({
+          type: permanent ? 'success' : 'warning',
+          title: permanent ? 'Single permanent redirect' : 'Temporary redirect to the page',
+          description: permanent
+            ? 'The requested URL redirects once, permanently, to the final page.'
+            : 'Temporary redirects (302/307) do not pass the URL over to the target. Use a 301 if the move is permanent.',
+          details: `${hop.url} → ${hop.location} (${hop.statusCode})`,
+        });
+      }
+      return withEvidence(pass(), 'No redirects');
+    },
+  },
+  {
+    id: 'seo.https',
+    name: 'HTTPS',
+    category: 'server',
+    severity: 'major',
+    weight: 10,
+    appliesTo: data => data.http !== null,
+    evaluate: data => {
+      const http = data.http!;
+      if (!http.finalUrl.startsWith('https:')) {
+        return fail({
+          type: 'error',
+          title: 'Page is not served over HTTPS',
+          description: 'HTTPS is a ranking signal and browsers mark HTTP pages as not secure.',
+          details: http.finalUrl,
+        });
+      }
+      if (!http.httpVersion) return withEvidence(pass(), http.finalUrl);
+
+      const firstHop = http.httpVersion.redirects[0];
+      if (!http.httpVersion.redirectsToHttps) {
+        return deduct(5, 10, [{
+          type: 'warning',
+          title: 'HTTP version does not redirect to HTTPS',
+          description: 'Visitors and crawlers that use the http:// address should be redirected to the secure version.',
+          details: `${http.httpVersion.url} → ${http.httpVersion.statusCode ?? 'no response'}`,
+        }]);
+      }
+      if (firstHop && firstHop.statusCode !== 301 && firstHop.statusCode !== 308) {
+        return pass({
+          type: 'warning',
+          title: 'HTTP to HTTPS redirect is temporary',
+          description: 'Use a permanent (301 or 308) redirect from HTTP to HTTPS so search engines index the secure URL.',
+          details: `${firstHop.url} → ${firstHop.location} (${firstHop.statusCode})`,
+        });
+      }
+      return pass({
+        type: 'success',
+        title: 'HTTP redirects to HTTPS',
+        description: 'The http:// version permanently redirects to the secure page.',
+      });
+    },
+  },
+  {
+    id: 'seo.compression',
+    name: 'Compression',
+    category: 'server',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.http !== null,
+    evaluate: data => {
+      const http = data.http!;
+      if (!http.contentEncoding && http.htmlBytes > 1024) {
+        return fail({
+          type: 'warning',
+          title: 'HTML is not compressed',
+          description: 'Enable gzip or Brotli compression on the server to reduce transfer size and speed up loading.',
+          metrics: { 'HTML size': formatBytes(http.htmlBytes) },
+        });
+      }
+      if (!http.contentEncoding) return withEvidence(pass(), `HTML size: ${formatBytes(http.htmlBytes)}, too small to need compression`);
+      return pass({
+        type: 'success',
+        title: 'HTML is compressed',
+        description: `The page is served with ${http.contentEncoding} compression.`,
+        metrics: {
+          'HTML size': formatBytes(http.htmlBytes),
+          'Transferred': http.transferredBytes !== null ? formatBytes(http.transferredBytes) : 'unknown',
+        },
+      });
+    },
+  },
+  {
+    id: 'seo.html-size',
+    name: 'HTML size',
+    category: 'speed',
+    severity: 'minor',
+    weight: 3,
+    appliesTo: data => data.http !== null,
+    evaluate: (data, thresholds) => data.http!.htmlBytes > thresholds.htmlBytes
+      ? fail({
+        type: 'warning',
+        title: 'Large HTML document',
+        description: `The HTML alone is over ${formatBytes(thresholds.htmlBytes)}. Move inline data, styles and scripts out of the page.`,
+        metrics: { 'HTML size': formatBytes(data.http!.htmlBytes) },
+      })
+      : withEvidence(pass(), `HTML size: ${formatBytes(data.http!.htmlBytes)}`),
+  },
+  {
+    id: 'seo.server-response-time',
+    name: 'Server response time',
+    category: 'speed',
+    severity: 'minor',
+    weight: 3,
+    appliesTo: data => data.http !== null,
+    evaluate: (data, thresholds) => data.http!.ttfb > thresholds.ttfbMs
+      ? fail({
+        type: 'warning',
+        title: 'Slow server response',
+        description: `The server took more than ${thresholds.ttfbMs} ms to start responding. Consider caching or a CDN.`,
+        metrics: { 'TTFB': `${data.http!.ttfb}ms` },
+      })
+      : withEvidence(pass(), `TTFB: ${data.http!.ttfb}ms`),
+  },
+  {
+    id: 'seo.cache-control',
+    name: 'Cache-Control header',
+    category: 'server',
+    severity: 'minor',
+    weight: 0,
+    appliesTo: data => data.http !== null,
+    evaluate: data => data.http!.cacheControl ? pass() : fail({
+      type: 'warning',
+      title: 'No Cache-Control header',
+      description: 'Without Cache-Control, browsers and CDNs guess how long to keep the page.',
+    }),
+  },
+  {
+    // Robots directives sent as an HTTP header; the robots meta tag is covered by seo.indexability
+    id: 'seo.x-robots-tag',
+    name: 'X-Robots-Tag header',
+    category: 'indexing',
+    severity: 'critical',
+    weight: 30,
+    appliesTo: data => data.http !== null,
+    evaluate: data => {
+      const http = data.http!;
+      if (http.xRobots.noindex && !data.head.robots.noindex) {
+        return fail({
+          type: 'error',
+          title: 'X-Robots-Tag header blocks indexing',
+          description: 'The server sends an X-Robots-Tag noindex header, so search engines will not index this page even though the HTML allows it.',
+          details: `X-Robots-Tag: ${http.xRobotsTag}`,
+        });
+      }
+      if (http.xRobots.nofollow && !data.head.robots.nofollow) {
+        return deduct(5, 30, [{
+          type: 'warning',
+          title: 'X-Robots-Tag header sets nofollow',
+          description: 'Search engines will not follow links on this page because of the X-Robots-Tag header.',
+          details: `X-Robots-Tag: ${http.xRobotsTag}`,
+        }]);
+      }
+      return withEvidence(pass(), http.xRobotsTag ? `X-Robots-Tag: ${http.xRobotsTag}` : 'No X-Robots-Tag header');
+    },
+  },
+  {
+    // Link rules only apply when the optional link check ran
+    id: 'seo.broken-links',
+    name: 'Broken links',
+    category: 'links',
+    severity: 'major',
+    weight: 15,
+    appliesTo: data => data.linkChecks !== undefined,
+    evaluate: data => {
+      const linkChecks = data.linkChecks!;
+      const broken = linkChecks.filter(link => link.statusCode === null || link.statusCode >= 400);
+      const brokenInternal = broken.filter(link => link.isInternal);
+      if (broken.length === 0) {
+        return pass({
+          type: 'success',
+          title: 'No broken links',
+          description: 'All checked links respond without errors.',
+          metrics: { 'Links checked': linkChecks.length },
+        });
+      }
+
+      return deduct(brokenInternal.length * 3 + (broken.length - brokenInternal.length), 15, [{
+        type: 'error',
+        title: 'Broken links found',
+        description: 'Links that return errors waste crawl budget and send visitors to dead ends. Fix or remove them.',
+        details: describeLinks(broken),
+        metrics: {
+          'Broken internal': brokenInternal.length,
+          'Broken external': broken.length - brokenInternal.length,
+          'Links checked': linkChecks.length,
+        },
+      }]);
+    },
+  },
+  {
+    id: 'seo.link-redirect-chains',
+    name: 'Link redirect chains',
+    category: 'links',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.linkChecks !== undefined,
+    evaluate: data => {
+      const chains = data.linkChecks!.filter(link => link.redirects.length > 1);
+      if (chains.length === 0) return withEvidence(pass(), `No redirect chains among ${data.linkChecks!.length} links checked`);
+
+      return deduct(chains.length, 5, [{
+        type: 'warning',
+        title: 'Links go through redirect chains',
+        description: 'Each extra redirect hop slows users down and can lose link equity. Link to the final URL instead.',
+        details: chains
+          .slice(0, 5)
+          .map(link => [link.url, ...link.redirects.map(hop => hop.location)].join(' → '))
+          .join(' · '),
+        metrics: { 'Redirect chains': chains.length },
+      }]);
+    },
+  },
+  {
+    id: 'seo.internal-link-redirects',
+    name: 'Redirected internal links',
+    category: 'links',
+    severity: 'minor',
+    weight: 5,
+    appliesTo: data => data.linkChecks !== undefined,
+    evaluate: data => {
+      const redirectedInternal = data.linkChecks!.filter(link => link.isInternal && link.redirects.length > 0);
+      if (redirectedInternal.length === 0) return withEvidence(pass(), 'No internal links point to redirects');
+
+      return deduct(redirectedInternal.length, 5, [{
+        type: 'warning',
+        title: 'Internal links point to redirects',
+        description: 'Update internal links to point directly at the final URL so crawlers do not have to follow redirects.',
+        details: redirectedInternal
+          .slice(0, 5)
+          .map(link => `${link.url} → ${link.finalUrl}`)
+          .join(' · '),
+        metrics: { 'Redirected internal links': redirectedInternal.length },
+      }]);
+    },
+  },
+  {
+    // Pasted and uploaded HTML has no load time, so the rule is left out of their score
+    id: 'seo.load-time',
+    name: 'Page load time',
+    category: 'speed',
+    severity: 'major',
+    weight: 15,
+    appliesTo: data => data.http !== null && data.loadTime !== null,
+    evaluate: (data, thresholds) => {
+      const http = data.http!;
+      const metrics = { 'Load time': `${data.loadTime}ms`, 'TTFB': `${http.ttfb}ms`, 'Download': `${http.downloadTime}ms` };
+      if (data.loadTime! > thresholds.loadTimeMs) {
+        return fail({
+          type: 'warning',
+          title: 'Slow page load time',
+          description: `Page took longer than ${thresholds.loadTimeMs / 1000} seconds to load, which may affect user experience.`,
+          metrics,
+        });
+      }
+      return pass({
+        type: 'success',
+        title: 'Good page load time',
+        description: 'Page loads within acceptable time limits.',
+        metrics,
+      });
+    },
+  },
+];
+
+function imageAssetLookup(data: WebsiteData): (image: ImageElement) => ImageAsset | undefined {
+  const assets = new Map((data.imageAssets ?? []).map(asset => [asset.url, asset]));
+  return image => assets.get(image.url);
+}
+
+// The same file is often used several times (logos, icons)
+function uniqueImages(data: WebsiteData): ImageElement[] {
+  return data.images.filter((image, index, all) => all.findIndex(other => other.src === image.src) === index);
+}
+
+function describeImages(images: ImageElement[], detail: (image: ImageElement) => string): string {
+  return images
+    .slice(0, 5)
+    .map(image => `${image.src.startsWith('data:') ? 'inline image' : image.url || image.src} (${detail(image)})`)
+    .join(' · ') + (images.length > 5 ? ` and ${images.length - 5} more` : '');
+}
+
+// Files over the size threshold, or wider than twice their displayed size without a srcset
+function findOversizedImages(data: WebsiteData, thresholds: ScoringThresholds): ImageElement[] {
+  const assetOf = imageAssetLookup(data);
+  return uniqueImages(data).filter(image => {
+    const asset = assetOf(image);
+    const declaredWidth = parseInt(image.width);
+    return !!asset && (
+      (asset.bytes !== null && asset.bytes > thresholds.imageBytes) ||
+      (asset.format !== 'svg' && !image.srcset && asset.width !== null && declaredWidth > 0 && asset.width > declaredWidth * 2)
+    );
+  });
+}
+
+function imageFormat(image: ImageElement, assetOf: (image: ImageElement) => ImageAsset | undefined): string | null {
+  return assetOf(image)?.format ??
+    image.url.match(/\.(jpe?g|png|gif|bmp|webp|avif|svg)(?:[?#]|$)/i)?.[1].toLowerCase().replace('jpg', 'jpeg') ?? null;
+}
+
+// Tiny files are not worth converting, and files that failed to load are reported elsewhere
+function findLegacyFormatImages(data: WebsiteData): ImageElement[] {
+  const assetOf = imageAssetLookup(data);
+  const hasModernAlternative = (image: ImageElement) =>
+    image.sources.some(source => /image\/(webp|avif)/.test(source.type)) ||
+    /\.(webp|avif)\b/i.test([image.srcset, ...image.sources.map(source => source.srcset)].join(' '));
+  return uniqueImages(data).filter(image => {
+    const asset = assetOf(image);
+    if (asset && (asset.error || (asset.statusCode !== null && asset.statusCode >= 400))) return false;
+    const bytes = asset?.bytes;
+    return LEGACY_IMAGE_FORMATS.has(imageFormat(image, assetOf) ?? '') && !(bytes != null && bytes < 10 * 1024) && !hasModernAlternative(image);
+  });
+}
+
+function findImagesWithoutDimensions(data: WebsiteData): ImageElement[] {
+  return data.images.filter(image => !image.width || !image.height);
+}
+
+// Without layout there is no fold, so the first large image among the first few is taken as the hero;
+// images of unknown size count as large
+function findLazyHeroImage(data: WebsiteData): ImageElement | undefined {
+  const assetOf = imageAssetLookup(data);
+  const hero = data.images.slice(0, 3).find(image => {
+    const width = parseInt(image.width) || assetOf(image)?.width || null;
+    return width === null || width >= 300;
+  });
+  return hero?.loading === 'lazy' ? hero : undefined;
+}
+
+function describeLinks(links: LinkCheckResult[]): string {
+  return links
+    .slice(0, 5)
+    .map(link => `${link.url} (${link.statusCode ?? link.error ?? 'no response'})`)
+    .join(' · ') + (links.length > 5 ? ` and ${links.length - 5} more` : '');
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+}
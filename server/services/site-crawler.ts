@@ -0,0 +1,219 @@
+import type {
+  AuditReport,
+  CrawlSettings,
+  CrawledPage,
+  SkippedPage,
+  CommonIssue,
+  InsertSiteCrawlReport,
+  WebsiteData,
+} from '@shared/schema';
+import { WebScraper } from './web-scraper';
+import { networkPolicy, USER_AGENT, type RequestProfile } from './http-client';
+import { pathMatches, productToken, type RobotsTxt } from './robots-txt';
+
+const MAX_CRAWL_DELAY_MS = 10000;
+const MAX_SKIPPED_PAGES = 100;
+
+// File types that are never HTML pages, so there is no point in fetching them
+const NON_PAGE_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|webm|mov|docx?|xlsx?|pptx?)$/i;
+
+export type PageAuditor = (url: string, data: WebsiteData) => Promise<AuditReport>;
+
+export class SiteCrawler {
+  constructor(private webScraper: WebScraper) {}
+
+  async crawl(seedUrl: string, settings: CrawlSettings, auditPage: PageAuditor, profile?: RequestProfile): Promise<{
+    report: InsertSiteCrawlReport;
+    pageReports: AuditReport[];
+  }> {
+    const seed = this.normalizeUrl(seedUrl);
+    if (!seed) {
+      throw new Error('Seed URL must be an http(s) URL');
+    }
+    // A blocked seed fails the whole crawl; blocked pages found later are skipped like other errors
+    await networkPolicy.checkUrl(seed);
+    // Replaced by the host the seed redirects to, which is the site whose links are followed
+    let host = new URL(seed).hostname;
+
+    // Robots rules are checked for the crawler the requests actually claim to be
+    const crawlerToken = productToken(profile?.headers['User-Agent'] ?? USER_AGENT);
+    const delayFor = (rules: RobotsTxt) => settings.respectRobotsTxt
+      ? Math.min((rules.getCrawlDelay(crawlerToken) ?? 0) * 1000, MAX_CRAWL_DELAY_MS)
+      : 0;
+
+    let robotsTxt = await this.webScraper.loadRobotsTxt(seed, profile);
+    let aiPolicyFiles = await this.webScraper.loadAiPolicyFiles(seed, profile);
+    let crawlDelay = delayFor(robotsTxt.rules);
+
+    const queue: Array<{ url: string; depth: number }> = [{ url: seed, depth: 0 }];
+    const seen = new Set<string>([seed]);
+    const pages: CrawledPage[] = [];
+    const pageReports: AuditReport[] = [];
+    const skippedPages: SkippedPage[] = [];
+
+    const skip = (page: SkippedPage) => {
+      if (skippedPages.length < MAX_SKIPPED_PAGES) {
+        skippedPages.push(page);
+      }
+    };
+
+    while (queue.length > 0) {
+      const { url, depth } = queue.shift()!;
+
+      if (pages.length >= settings.maxPages) {
+        skip({ url, reason: 'limit' });
+        continue;
+      }
+
+      // The seed is always audited; filters only decide which discovered pages to follow
+      const path = new URL(url).pathname + new URL(url).search;
+      if (url !== seed) {
+        if (settings.excludePatterns.some(pattern => pathMatches(pattern, path))) {
+          skip({ url, reason: 'excluded' });
+          continue;
+        }
+        if (settings.includePatterns.length > 0 && !settings.includePatterns.some(pattern => pathMatches(pattern, path))) {
+          skip({ url, reason: 'not_included' });
+          continue;
+        }
+      }
+
+      if (settings.respectRobotsTxt && !robotsTxt.rules.isAllowed(crawlerToken, url)) {
+        skip({ url, reason: 'robots' });
+        continue;
+      }
+
+      if (pages.length > 0 && crawlDelay > 0) {
+        await new Promise(resolve => setTimeout(resolve, crawlDelay));
+      }
+
+      let data: WebsiteData;
+      try {
+        data = await this.webScraper.scrapeWebsite(url, { robotsTxt, aiPolicyFiles, profile });
+      } catch (error) {
+        skip({ url, reason: 'error', details: error instanceof Error ? error.message : 'Unknown error' });
+        continue;
+      }
+
+      // Pages are recorded and their links resolved at the URL they were served from, after redirects
+      const finalUrl = (data.http && this.normalizeUrl(data.http.finalUrl)) || url;
+      if (url === seed) {
+        host = new URL(finalUrl).hostname;
+
+        // A seed that redirects to another origin is crawled under that origin's robots.txt and AI policy files
+        if (new URL(finalUrl).origin !== new URL(seed).origin) {
+          robotsTxt = await this.webScraper.loadRobotsTxt(finalUrl, profile);
+          aiPolicyFiles = await this.webScraper.loadAiPolicyFiles(finalUrl, profile);
+          crawlDelay = delayFor(robotsTxt.rules);
+          data = {
+            ...data,
+            robotsTxt: robotsTxt.rules.buildReport(robotsTxt.url, finalUrl, robotsTxt.status, robotsTxt.statusCode),
+            aiPolicyFiles,
+          };
+
+          if (settings.respectRobotsTxt && !robotsTxt.rules.isAllowed(crawlerToken, finalUrl)) {
+            skip({ url: finalUrl, reason: 'robots' });
+            continue;
+          }
+        }
+      } else if (pages.some(page => page.url === finalUrl)) {
+        // Another link already led to this page
+        continue;
+      }
+      seen.add(finalUrl);
+
+      const report = await auditPage(finalUrl, data);
+      pages.push({ url: finalUrl, depth, reportId: report.id, seoScore: report.seoScore, aiScore: report.aiScore });
+      pageReports.push(report);
+
+      if (depth >= settings.maxDepth) continue;
+
+      // Every href is resolved and judged by its host, since relative links are not marked internal
+      for (const link of data.links) {
+        const next = this.normalizeUrl(link.href, finalUrl);
+        if (!next || seen.has(next)) continue;
+        if (new URL(next).hostname !== host || NON_PAGE_EXTENSIONS.test(new URL(next).pathname)) continue;
+
+        seen.add(next);
+        queue.push({ url: next, depth: depth + 1 });
+      }
+    }
+
+    if (pages.length === 0) {
+      throw new Error(skippedPages[0]?.details || 'No pages could be crawled from the seed URL');
+    }
+
+    return {
+      report: this.summarize(seed, settings, pages, pageReports, skippedPages),
+      pageReports,
+    };
+  }
+
+  // Aggregates page audits into a site report; also used for uploaded static builds
+  summarize(
+    seedUrl: string,
+    settings: CrawlSettings,
+    pages: CrawledPage[],
+    pageReports: AuditReport[],
+    skippedPages: SkippedPage[],
+  ): InsertSiteCrawlReport {
+    const average = (values: number[]) =>
+      Math.round(values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1));
+
+    return {
+      seedUrl,
+      settings,
+      pages,
+      skippedPages,
+      seoScore: average(pages.map(page => page.seoScore)),
+      aiScore: average(pages.map(page => page.aiScore)),
+      commonIssues: this.findCommonIssues(pageReports),
+    };
+  }
+
+  // Resolves an href against its page and strips the fragment, so each page is only crawled once
+  private normalizeUrl(href: string, base?: string): string | null {
+    try {
+      const url = new URL(href, base);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private findCommonIssues(reports: AuditReport[]): CommonIssue[] {
+    const issues = new Map<string, CommonIssue>();
+
+    reports.forEach(report => {
+      const findings = [
+        ...report.traditionalSeoResults.map(result => ({ category: 'seo' as const, result })),
+        ...report.geoResults.map(result => ({ category: 'ai' as const, result })),
+      ];
+
+      findings.forEach(({ category, result }) => {
+        if (result.type === 'success') return;
+
+        const key = `${category}:${result.title}`;
+        const issue = issues.get(key) ?? {
+          category,
+          type: result.type,
+          title: result.title,
+          ruleId: result.ruleId,
+          pageCount: 0,
+          exampleUrls: [],
+        };
+        issue.pageCount++;
+        if (issue.exampleUrls.length < 3) {
+          issue.exampleUrls.push(report.url);
+        }
+        issues.set(key, issue);
+      });
+    });
+
+    return Array.from(issues.values())
+      .sort((a, b) => b.pageCount - a.pageCount || (a.type === b.type ? 0 : a.type === 'error' ? -1 : 1))
+      .slice(0, 10);
+  }
+}
@@ -0,0 +1,151 @@
+import { Unzip, UnzipInflate, unzipSync } from 'fflate';
+import type { SkippedPage, EncodingDetails } from '@shared/schema';
+import { decodeHtml } from './charset';
+
+// Used when no intended URL is given; the .invalid TLD can never resolve
+export const UNPUBLISHED_BASE_URL = 'https://unpublished.invalid/';
+
+const MAX_PAGES = 100;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+// Archives are inflated in slices this size, so a limit is noticed before much more than it is decompressed
+const ARCHIVE_CHUNK_BYTES = 16 * 1024;
+const HTML_FILE = /\.html?$/i;
+const ZIP_FILE = /\.zip$/i;
+
+export interface UploadedFile {
+  name: string;
+  data: Buffer;
+}
+
+export interface StaticPage {
+  url: string;
+  path: string;
+  html: string;
+  encoding: EncodingDetails;
+}
+
+// Thrown for archives that hold more pages or bytes than an upload may inflate
+class ArchiveLimitError extends Error {}
+
+export class StaticSiteReader {
+  // Turns uploaded .html files and zipped static builds into pages at the URLs they will be published under
+  read(files: UploadedFile[], baseUrl: string = UNPUBLISHED_BASE_URL): { pages: StaticPage[]; skippedPages: SkippedPage[] } {
+    // Files are published below the base URL, so it is treated as a directory
+    const root = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+    const entries: Array<{ path: string; data: Uint8Array }> = [];
+    const skippedPages: SkippedPage[] = [];
+
+    for (const file of files) {
+      if (ZIP_FILE.test(file.name)) {
+        try {
+          entries.push(...this.readArchive(file.data));
+        } catch (error) {
+          skippedPages.push(error instanceof ArchiveLimitError
+            ? { url: this.toUrl(file.name, root), reason: 'limit', details: error.message }
+            : { url: this.toUrl(file.name, root), reason: 'error', details: 'Not a valid zip archive' });
+        }
+      } else if (HTML_FILE.test(file.name)) {
+        entries.push({ path: file.name, data: file.data });
+      } else {
+        skippedPages.push({ url: this.toUrl(file.name, root), reason: 'error', details: 'Only .html, .htm and .zip files are supported' });
+      }
+    }
+
+    const pages: StaticPage[] = [];
+    // Pages closer to the root come first, so the page limit keeps the most important ones
+    const depth = (path: string) => path.split('/').length;
+    for (const entry of entries.sort((a, b) => depth(a.path) - depth(b.path) || a.path.localeCompare(b.path))) {
+      const url = this.toUrl(entry.path, root);
+      if (pages.length >= MAX_PAGES) {
+        skippedPages.push({ url, reason: 'limit' });
+      } else if (entry.data.byteLength > MAX_PAGE_BYTES) {
+        skippedPages.push({ url, reason: 'error', details: 'File is larger than 5 MB' });
+      } else {
+        // Files have no Content-Type header, so only the BOM and <meta charset> decide the encoding
+        const { html, encoding } = decodeHtml(entry.data, null);
+        pages.push({ url, path: entry.path, html, encoding });
+      }
+    }
+
+    return { pages, skippedPages };
+  }
+
+  private readArchive(data: Buffer): Array<{ path: string; data: Uint8Array }> {
+    const archive = new Uint8Array(data);
+    const isPage = (file: { name: string }) => HTML_FILE.test(file.name) && !file.name.startsWith('__MACOSX/');
+
+    // The first pass only reads the declared sizes, so an archive over the limits is rejected before anything is inflated
+    let pageCount = 0;
+    let totalBytes = 0;
+    unzipSync(archive, {
+      filter: file => {
+        if (isPage(file)) {
+          pageCount++;
+          totalBytes += file.originalSize;
+          if (pageCount > MAX_PAGES) {
+            throw new ArchiveLimitError(`Archive contains more than ${MAX_PAGES} HTML files`);
+          }
+          if (totalBytes > MAX_ARCHIVE_BYTES) {
+            throw new ArchiveLimitError('HTML files in the archive add up to more than 50 MB');
+          }
+        }
+        return false;
+      },
+    });
+
+    // Declared sizes can understate what an entry inflates to, so the second pass counts the bytes actually
+    // produced and stops feeding the stream once they go over the limits
+    const files: Record<string, Uint8Array> = {};
+    let inflatedPages = 0;
+    let inflatedBytes = 0;
+    let limitError: ArchiveLimitError | null = null;
+    const unzipper = new Unzip(file => {
+      if (limitError || !isPage(file)) return;
+      if (++inflatedPages > MAX_PAGES) {
+        limitError = new ArchiveLimitError(`Archive contains more than ${MAX_PAGES} HTML files`);
+        return;
+      }
+
+      let chunks: Uint8Array[] = [];
+      let fileBytes = 0;
+      file.ondata = (error, chunk, final) => {
+        if (error) throw error;
+        inflatedBytes += chunk.length;
+        fileBytes += chunk.length;
+        if (inflatedBytes > MAX_ARCHIVE_BYTES) {
+          limitError ??= new ArchiveLimitError('HTML files in the archive add up to more than 50 MB');
+        }
+        // Oversized pages are left out, as in the first pass
+        if (limitError || fileBytes > MAX_PAGE_BYTES) {
+          chunks = [];
+          return;
+        }
+        chunks.push(chunk);
+        if (final) files[file.name] = Buffer.concat(chunks);
+      };
+      file.start();
+    });
+    unzipper.register(UnzipInflate);
+    for (let offset = 0; offset < archive.length && !limitError; offset += ARCHIVE_CHUNK_BYTES) {
+      unzipper.push(archive.subarray(offset, offset + ARCHIVE_CHUNK_BYTES), offset + ARCHIVE_CHUNK_BYTES >= archive.length);
+    }
+    if (limitError) throw limitError;
+
+    const paths = Object.keys(files);
+
+    // Builds are often zipped with their output folder ("dist/index.html"); that folder is not part of the URL
+    const firstSegments = new Set(paths.map(path => path.split('/')[0]));
+    const sharedRoot = paths.every(path => path.includes('/')) && firstSegments.size === 1
+      ? `${Array.from(firstSegments)[0]}/`
+      : '';
+
+    return paths.map(path => ({ path: path.slice(sharedRoot.length), data: files[path] }));
+  }
+
+  // "blog/index.html" is served as /blog/, other files keep their name
+  private toUrl(path: string, baseUrl: string): string {
+    const urlPath = path.replace(/\\/g, '/').replace(/^\/+/, '').replace(/(^|\/)index\.html?$/i, '$1');
+    return new URL(urlPath, baseUrl).toString();
+  }
+}
@@ -0,0 +1,221 @@
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { SchemaEntity, SchemaValue, StructuredDataReport } from '@shared/schema';
+import { SchemaValidator } from './schema-validator';
+
+// Entity values that still point at an @id; resolved once the whole page has been read
+type PendingValue = SchemaValue | { ref: string };
+
+interface PendingEntity extends Omit<SchemaEntity, 'properties'> {
+  properties: Record<string, PendingValue[]>;
+}
+
+// Microdata and RDFa take their value from an attribute that depends on the element
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href',
+  img: 'src', audio: 'src', video: 'src', source: 'src', iframe: 'src', embed: 'src', track: 'src',
+  object: 'data',
+};
+
+export class StructuredDataParser {
+  private validator = new SchemaValidator();
+
+  // Extracts JSON-LD, Microdata and RDFa into one entity graph and validates it
+  parse($: CheerioAPI, baseUrl: string): StructuredDataReport {
+    const entities: PendingEntity[] = [];
+    const parseErrors: StructuredDataReport['parseErrors'] = [];
+
+    $('script[type="application/ld+json" i]').each((index, element) => {
+      const path = `jsonld[${index}]`;
+      try {
+        this.readJsonLd(JSON.parse($(element).html() || ''), path, true, entities);
+      } catch (error) {
+        parseErrors.push({ path, message: error instanceof Error ? error.message : 'Invalid JSON' });
+      }
+    });
+
+    $('[itemscope]')
+      .filter((_, element) => $(element).attr('itemprop') === undefined)
+      .each((index, element) => {
+        this.readMicrodata($, $(element), `microdata[${index}]`, true, entities, baseUrl);
+      });
+
+    $('[typeof]')
+      .filter((_, element) => $(element).attr('property') === undefined)
+      .each((index, element) => {
+        this.readRdfa($, $(element), `rdfa[${index}]`, true, entities, baseUrl);
+      });
+
+    const resolved = resolveReferences(entities);
+    const report: StructuredDataReport = { entities: resolved, issues: [], parseErrors, validatedEntities: 0, validEntities: 0 };
+
+    resolved.forEach(entity => {
+      if (!this.validator.hasRules(entity)) return;
+      const issues = this.validator.validate(entity, resolved);
+      report.issues.push(...issues);
+      report.validatedEntities++;
+      if (!issues.some(issue => issue.severity === 'error')) report.validEntities++;
+    });
+
+    return report;
+  }
+
+  // Returns the index of the entity created for the node, or a reference/literal for non-entity values
+  private readJsonLd(node: unknown, path: string, topLevel: boolean, entities: PendingEntity[]): PendingValue | null {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => this.readJsonLd(item, `${path}[${index}]`, topLevel, entities));
+      return null;
+    }
+    if (node === null || typeof node !== 'object') {
+      return typeof node === 'string' || typeof node === 'number' || typeof node === 'boolean' ? node : null;
+    }
+
+    const object = node as Record<string, unknown>;
+    if ('@value' in object) {
+      return this.readJsonLd(object['@value'], path, topLevel, entities);
+    }
+    if (Array.isArray(object['@graph'])) {
+      object['@graph'].forEach((item, index) => this.readJsonLd(item, `${path}.@graph[${index}]`, topLevel, entities));
+    }
+
+    const keys = Object.keys(object).filter(key => !key.startsWith('@'));
+    const id = typeof object['@id'] === 'string' ? object['@id'] : undefined;
+    if (keys.length === 0 && !('@type' in object)) {
+      return id ? { ref: id } : null;
+    }
+
+    const entity: PendingEntity = {
+      id,
+      types: toArray(object['@type']).filter((type): type is string => typeof type === 'string').map(normalizeType),
+      syntax: 'json-ld',
+      path,
+      topLevel,
+      properties: {},
+    };
+    const index = entities.push(entity) - 1;
+
+    for (const key of keys) {
+      const values = toArray(object[key])
+        .map((value, valueIndex, all) => this.readJsonLd(value, all.length > 1 ? `${path}.${key}[${valueIndex}]` : `${path}.${key}`, false, entities))
+        .filter((value): value is PendingValue => value !== null);
+      entity.properties[normalizeType(key)] = values;
+    }
+
+    return { entity: index };
+  }
+
+  private readMicrodata($: CheerioAPI, item: Cheerio<Element>, path: string, topLevel: boolean, entities: PendingEntity[], baseUrl: string): number {
+    const entity: PendingEntity = {
+      id: item.attr('itemid'),
+      types: (item.attr('itemtype') || '').split(/\s+/).filter(Boolean).map(normalizeType),
+      syntax: 'microdata',
+      path,
+      topLevel,
+      properties: {},
+    };
+    const index = entities.push(entity) - 1;
+
+    // Properties belong to the closest enclosing itemscope
+    item.find('[itemprop]').each((_, element) => {
+      const $element = $(element);
+      const owner = $element.parent().closest('[itemscope]');
+      if (owner.get(0) !== item.get(0)) return;
+
+      for (const name of ($element.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+        const key = normalizeType(name);
+        const values = entity.properties[key] ?? (entity.properties[key] = []);
+        const valuePath = `${path}.${key}${values.length > 0 ? `[${values.length}]` : ''}`;
+        values.push($element.attr('itemscope') !== undefined
+          ? { entity: this.readMicrodata($, $element, valuePath, false, entities, baseUrl) }
+          : elementValue($element, baseUrl));
+      }
+    });
+
+    return index;
+  }
+
+  private readRdfa($: CheerioAPI, item: Cheerio<Element>, path: string, topLevel: boolean, entities: PendingEntity[], baseUrl: string): number {
+    const entity: PendingEntity = {
+      id: item.attr('resource') || item.attr('about'),
+      types: (item.attr('typeof') || '').split(/\s+/).filter(Boolean).map(normalizeType),
+      syntax: 'rdfa',
+      path,
+      topLevel,
+      properties: {},
+    };
+    const index = entities.push(entity) - 1;
+
+    item.find('[property]').each((_, element) => {
+      const $element = $(element);
+      const owner = $element.parent().closest('[typeof]');
+      if (owner.get(0) !== item.get(0)) return;
+
+      for (const name of ($element.attr('property') || '').split(/\s+/).filter(Boolean)) {
+        const key = normalizeType(name);
+        const values = entity.properties[key] ?? (entity.properties[key] = []);
+        const valuePath = `${path}.${key}${values.length > 0 ? `[${values.length}]` : ''}`;
+        values.push($element.attr('typeof') !== undefined
+          ? { entity: this.readRdfa($, $element, valuePath, false, entities, baseUrl) }
+          : elementValue($element, baseUrl));
+      }
+    });
+
+    return index;
+  }
+}
+
+// Replaces {"@id": ...} references with the entity that declares that @id, when the page has one
+function resolveReferences(entities: PendingEntity[]): SchemaEntity[] {
+  const byId = new Map<string, number>();
+  entities.forEach((entity, index) => {
+    if (entity.id && Object.keys(entity.properties).length > 0 && !byId.has(entity.id)) {
+      byId.set(entity.id, index);
+    }
+  });
+
+  return entities.map(entity => {
+    const properties: Record<string, SchemaValue[]> = {};
+    for (const [key, values] of Object.entries(entity.properties)) {
+      properties[key] = values.map(value => {
+        if (typeof value !== 'object') return value;
+        if ('ref' in value) {
+          const target = byId.get(value.ref);
+          return target !== undefined ? { entity: target } : value.ref;
+        }
+        // {"@type": "Person", "@id": "#author"} is also just a pointer to the full declaration
+        const stub = entities[value.entity];
+        const target = stub.id && Object.keys(stub.properties).length === 0 ? byId.get(stub.id) : undefined;
+        return target !== undefined ? { entity: target } : value;
+      });
+    }
+    return { ...entity, properties };
+  });
+}
+
+function elementValue(element: Cheerio<Element>, baseUrl: string): string {
+  const tag = (element.prop('tagName') || '').toLowerCase();
+  const explicit = element.attr('content') ?? element.attr('resource');
+  if (explicit !== undefined) return explicit.trim();
+
+  const urlAttribute = URL_ATTRIBUTES[tag];
+  if (urlAttribute && element.attr(urlAttribute) !== undefined) {
+    try {
+      return new URL(element.attr(urlAttribute)!, baseUrl).toString();
+    } catch {
+      return element.attr(urlAttribute)!;
+    }
+  }
+  if (tag === 'time' && element.attr('datetime')) return element.attr('datetime')!;
+  if ((tag === 'data' || tag === 'meter') && element.attr('value')) return element.attr('value')!;
+  return element.text().replace(/\s+/g, ' ').trim();
+}
+
+// "https://schema.org/Article" and "schema:Article" both become "Article"
+function normalizeType(type: string): string {
+  return type.replace(/^https?:\/\/schema\.org\//i, '').replace(/^schema:/i, '');
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,43 @@
+import type { PageResource, StylesheetReport } from '@shared/schema';
+import { fetchWithRedirects, readPrefix, describeFetchError, mapWithConcurrency, type RequestProfile } from './http-client';
+import { scanCss } from './css-scanner';
+
+const MAX_STYLESHEETS = 10;
+const CONCURRENCY = 4;
+const TIMEOUT_MS = 10000;
+// Framework bundles can be large; the scanner only needs a representative part
+const MAX_CSS_BYTES = 1024 * 1024;
+
+export class StylesheetLoader {
+  // Downloads the screen stylesheets a page links and summarizes them for the mobile checks
+  async load(resources: PageResource[], profile?: RequestProfile): Promise<StylesheetReport[]> {
+    const urls = Array.from(new Set(resources
+      .filter(resource => resource.type === 'stylesheet' && !/^(only\s+)?(print|speech)\b/i.test(resource.media.trim()))
+      .map(resource => resource.url)));
+    const reports: StylesheetReport[] = urls.slice(0, MAX_STYLESHEETS).map(url => ({ url, statusCode: null, bytes: null, summary: null }));
+
+    await mapWithConcurrency(reports, CONCURRENCY, report => this.loadStylesheet(report, profile));
+
+    return reports;
+  }
+
+  private async loadStylesheet(report: StylesheetReport, profile?: RequestProfile): Promise<void> {
+    try {
+      const { response } = await fetchWithRedirects(report.url, {
+        headers: { Accept: 'text/css,*/*;q=0.1' },
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      }, profile);
+      report.statusCode = response.status;
+      if (!response.ok) {
+        await response.body?.cancel();
+        return;
+      }
+
+      const { bytes } = await readPrefix(response, MAX_CSS_BYTES);
+      report.bytes = bytes.length;
+      report.summary = scanCss(bytes.toString('utf-8'));
+    } catch (error) {
+      report.error = describeFetchError(error);
+    }
+  }
+}
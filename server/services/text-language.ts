@@ -0,0 +1,228 @@
+import type { LanguageDetails } from '@shared/schema';
+
+// Below this many letters a guess is not worth reporting
+const MIN_LETTERS = 40;
+const MIN_STOP_WORD_HITS = 5;
+const SAMPLE_LENGTH = 20000;
+
+// Unicode property escapes need the u flag, which this project's compile target only accepts through the RegExp constructor
+const SCRIPTS: Array<{ script: string; pattern: RegExp }> = [
+  'Latin', 'Cyrillic', 'Greek', 'Arabic', 'Hebrew', 'Devanagari', 'Bengali', 'Gurmukhi', 'Gujarati',
+  'Tamil', 'Telugu', 'Kannada', 'Malayalam', 'Thai', 'Hangul', 'Han',
+].map(script => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, 'gu') }))
+  .concat([{ script: 'Kana', pattern: new RegExp('[\\p{Script=Hiragana}\\p{Script=Katakana}]', 'gu') }]);
+
+// Scripts used by a single language in practice
+const SCRIPT_LANGUAGES: Record<string, string> = {
+  Greek: 'el',
+  Hebrew: 'he',
+  Bengali: 'bn',
+  Gurmukhi: 'pa',
+  Gujarati: 'gu',
+  Tamil: 'ta',
+  Telugu: 'te',
+  Kannada: 'kn',
+  Malayalam: 'ml',
+  Thai: 'th',
+  Hangul: 'ko',
+};
+
+// Frequent function words; they tell languages sharing a script apart and are left out of keywords
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'it', 'with', 'as', 'on', 'are', 'this', 'be', 'by', 'you', 'or', 'from', 'at', 'your', 'we', 'can', 'have', 'an', 'not', 'was', 'will', 'more', 'our', 'their', 'they', 'which', 'has', 'but', 'all', 'also', 'how', 'what', 'about', 'when', 'if', 'its', 'into', 'than', 'other', 'these', 'so', 'do', 'one', 'may', 'there', 'been', 'were', 'who', 'out', 'up', 'use', 'get', 'most', 'some', 'any', 'just', 'like', 'new', 'make', 'many', 'over', 'only', 'very', 'each', 'such', 'them', 'then', 'those', 'would', 'should', 'could', 'here', 'where', 'why', 'us', 'my', 'me', 'he', 'she', 'his', 'her', 'no', 'yes'],
+  es: ['de', 'la', 'que', 'el', 'en', 'y', 'los', 'se', 'del', 'las', 'por', 'un', 'para', 'con', 'una', 'su', 'es', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'le', 'ya', 'o', 'este', 'si', 'porque', 'esta', 'entre', 'cuando', 'muy', 'sin', 'sobre', 'también', 'hay', 'puede', 'son', 'todos', 'nuestro', 'nuestros', 'usted', 'ser', 'tiene', 'estos', 'otros'],
+  fr: ['de', 'la', 'le', 'et', 'les', 'des', 'en', 'un', 'du', 'une', 'que', 'est', 'pour', 'qui', 'dans', 'par', 'plus', 'pas', 'au', 'sur', 'se', 'ce', 'il', 'sont', 'avec', 'ne', 'ou', 'nous', 'vous', 'mais', 'aux', 'cette', 'votre', 'leur', 'comme', 'tout', 'tous', 'être', 'fait', 'ses', 'son', 'sa', 'était', 'aussi'],
+  de: ['der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist', 'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'es', 'an', 'werden', 'aus', 'er', 'hat', 'dass', 'sie', 'nach', 'wird', 'bei', 'einer', 'um', 'noch', 'wie', 'einem', 'über', 'einen', 'so', 'zum', 'kann', 'sind', 'ihre', 'oder', 'wir', 'ihr', 'haben', 'nur', 'mehr'],
+  pt: ['de', 'a', 'o', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'é', 'com', 'não', 'uma', 'os', 'no', 'se', 'na', 'por', 'mais', 'as', 'dos', 'como', 'mas', 'ao', 'ele', 'das', 'seu', 'sua', 'ou', 'quando', 'muito', 'nos', 'já', 'também', 'só', 'pelo', 'pela', 'você', 'são', 'está', 'isso'],
+  it: ['di', 'e', 'il', 'la', 'che', 'è', 'per', 'un', 'in', 'del', 'della', 'non', 'una', 'i', 'le', 'si', 'con', 'da', 'al', 'come', 'sono', 'più', 'dei', 'alla', 'anche', 'lo', 'gli', 'nel', 'ma', 'questo', 'ci', 'se', 'delle', 'sul', 'nella', 'suo', 'essere', 'questa', 'tutti'],
+  nl: ['de', 'en', 'het', 'van', 'een', 'in', 'is', 'dat', 'op', 'te', 'zijn', 'voor', 'met', 'die', 'niet', 'aan', 'er', 'om', 'ook', 'als', 'bij', 'of', 'door', 'maar', 'naar', 'dan', 'wordt', 'uw', 'u', 'je', 'kunnen', 'heeft', 'deze', 'wij', 'nog', 'worden', 'meer'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'dari', 'dalam', 'tidak', 'akan', 'pada', 'adalah', 'ke', 'juga', 'ada', 'kami', 'anda', 'atau', 'bisa', 'oleh', 'sebagai', 'karena', 'lebih', 'dapat', 'telah', 'saat', 'para', 'kita', 'secara'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'olarak', 'daha', 'gibi', 'olan', 'ne', 'ama', 'kadar', 'sonra', 'her', 'en', 'veya', 'değil', 'var', 'ya', 'mi', 'siz', 'biz', 'ise', 'göre'],
+  pl: ['i', 'w', 'na', 'z', 'się', 'nie', 'do', 'to', 'że', 'jest', 'o', 'jak', 'a', 'po', 'co', 'tak', 'za', 'od', 'ale', 'przez', 'dla', 'są', 'lub', 'może', 'jego', 'jej', 'już', 'tylko', 'oraz', 'które'],
+  sv: ['och', 'i', 'att', 'det', 'som', 'en', 'på', 'är', 'av', 'för', 'med', 'till', 'den', 'har', 'de', 'inte', 'om', 'ett', 'var', 'jag', 'men', 'så', 'kan', 'vi', 'eller', 'från', 'du', 'ni', 'också'],
+  ru: ['и', 'в', 'не', 'на', 'что', 'с', 'по', 'это', 'как', 'к', 'для', 'из', 'от', 'о', 'но', 'за', 'у', 'мы', 'вы', 'его', 'все', 'так', 'же', 'или', 'если', 'только', 'при', 'было', 'быть', 'он', 'она', 'они'],
+  uk: ['і', 'в', 'на', 'що', 'з', 'не', 'до', 'це', 'як', 'у', 'та', 'для', 'за', 'від', 'є', 'ми', 'ви', 'його', 'але', 'або', 'які', 'також', 'щоб', 'він', 'вона', 'вони'],
+  hi: ['है', 'के', 'में', 'की', 'और', 'को', 'से', 'का', 'एक', 'पर', 'यह', 'हैं', 'भी', 'कि', 'लिए', 'नहीं', 'तो', 'साथ', 'इस', 'कर', 'हो', 'जो', 'ने', 'या', 'अपने', 'आप', 'था', 'थे', 'करने', 'किया'],
+  mr: ['आहे', 'आणि', 'या', 'व', 'हे', 'ते', 'करण्यासाठी', 'मध्ये', 'आहेत', 'नाही', 'त्या', 'पण', 'होते', 'केले', 'त्यांच्या', 'असे', 'म्हणून', 'तुम्ही'],
+  ar: ['في', 'من', 'على', 'إلى', 'أن', 'عن', 'مع', 'هذا', 'التي', 'الذي', 'هذه', 'كان', 'ما', 'لا', 'أو', 'كل', 'بين', 'قد', 'ذلك'],
+  ur: ['ہے', 'کے', 'میں', 'کی', 'اور', 'کو', 'سے', 'کا', 'یہ', 'ہیں', 'نہیں', 'بھی', 'لیے', 'پر', 'ایک', 'آپ', 'کہ'],
+  fa: ['و', 'در', 'به', 'از', 'که', 'این', 'را', 'با', 'است', 'برای', 'آن', 'یک', 'می', 'بر', 'شود', 'هم', 'تا'],
+};
+
+// Candidate languages for scripts shared by several languages
+const SCRIPT_CANDIDATES: Record<string, string[]> = {
+  Latin: ['en', 'es', 'fr', 'de', 'pt', 'it', 'nl', 'id', 'tr', 'pl', 'sv'],
+  Cyrillic: ['ru', 'uk'],
+  Devanagari: ['hi', 'mr'],
+  Arabic: ['ar', 'ur', 'fa'],
+};
+
+// Legacy and alternative codes people still put in <html lang>
+const LANGUAGE_ALIASES: Record<string, string> = { iw: 'he', in: 'id', ji: 'yi', jw: 'jv', tl: 'fil' };
+
+export interface LanguageRules {
+  // Chinese and Japanese are written without spaces, so sentence length is measured in characters
+  unit: 'words' | 'characters';
+  sentenceEnd: RegExp;
+  // Average sentence length that still reads easily, in the unit above
+  easySentenceLength: number;
+  // Words at least this long count as complex; null where word length says little (CJK, agglutinative scripts)
+  longWordLength: number | null;
+  // Phrases that signal plain, explanatory writing
+  plainLanguageTerms: string[];
+  stopWords: Set<string>;
+}
+
+const PLAIN_LANGUAGE_TERMS: Record<string, string[]> = {
+  en: ['simply', 'easy', 'quick', 'step by step', 'in other words', 'for example'],
+  es: ['simplemente', 'fácil', 'rápido', 'paso a paso', 'es decir', 'por ejemplo'],
+  fr: ['simplement', 'facile', 'rapide', 'étape par étape', 'autrement dit', 'par exemple'],
+  de: ['einfach', 'leicht', 'schnell', 'schritt für schritt', 'mit anderen worten', 'zum beispiel'],
+  pt: ['simplesmente', 'fácil', 'rápido', 'passo a passo', 'ou seja', 'por exemplo'],
+  it: ['semplicemente', 'facile', 'veloce', 'passo dopo passo', 'in altre parole', 'ad esempio'],
+  nl: ['simpel', 'makkelijk', 'snel', 'stap voor stap', 'met andere woorden', 'bijvoorbeeld'],
+  hi: ['आसान', 'सरल', 'जल्दी', 'चरण दर चरण', 'यानी', 'उदाहरण के लिए'],
+  ja: ['簡単', 'かんたん', 'すぐに', 'ステップ', 'つまり', '例えば'],
+  zh: ['简单', '簡單', '快速', '一步一步', '也就是说', '例如'],
+};
+
+const CJK_CLASS = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]';
+const CJK = new RegExp(CJK_CLASS, 'u');
+const CJK_CHARACTERS = new RegExp(CJK_CLASS, 'gu');
+// Katakana runs are mostly loanwords and names; hiragana is mostly grammar, so it is left out
+const CJK_TERMS = new RegExp('\\p{Script=Katakana}{2,}|\\p{Script=Han}+', 'gu');
+const HAN = new RegExp('^\\p{Script=Han}', 'u');
+const LETTER_OR_NUMBER = new RegExp('[\\p{L}\\p{N}]', 'u');
+const NUMBER_ONLY = new RegExp('^\\p{N}+$', 'u');
+// Indic vowel signs and viramas are marks, so they are kept inside words
+const WORD = new RegExp('[\\p{L}\\p{M}\\p{N}]+', 'gu');
+
+export class LanguageDetector {
+  // Guesses the language of the main content and compares it with the declared <html lang>
+  detect(text: string, htmlLang: string): LanguageDetails {
+    const declared = primaryLanguage(htmlLang);
+    const { language, script, confidence } = this.guess(text.slice(0, SAMPLE_LENGTH));
+
+    return {
+      detected: language,
+      script,
+      confidence: Math.round(confidence * 100) / 100,
+      declared,
+      matchesDeclared: language && declared ? language === declared : null,
+    };
+  }
+
+  private guess(text: string): { language: string | null; script: string | null; confidence: number } {
+    const counts = SCRIPTS.map(({ script, pattern }) => ({ script, count: (text.match(pattern) || []).length }));
+    const letters = counts.reduce((sum, { count }) => sum + count, 0);
+    if (letters < MIN_LETTERS) {
+      return { language: null, script: null, confidence: 0 };
+    }
+
+    const count = (script: string) => counts.find(entry => entry.script === script)!.count;
+    // Japanese mixes Han with kana; Chinese has none
+    const cjk = count('Han') + count('Kana');
+    const top = counts.filter(entry => entry.script !== 'Han' && entry.script !== 'Kana')
+      .concat([{ script: 'Han', count: cjk }])
+      .sort((a, b) => b.count - a.count)[0];
+    const share = top.count / letters;
+
+    if (top.script === 'Han') {
+      const isJapanese = count('Kana') / Math.max(cjk, 1) > 0.1;
+      return { language: isJapanese ? 'ja' : 'zh', script: isJapanese ? 'Japanese' : 'Han', confidence: share };
+    }
+    if (SCRIPT_LANGUAGES[top.script]) {
+      return { language: SCRIPT_LANGUAGES[top.script], script: top.script, confidence: share };
+    }
+
+    // Scripts shared by several languages are told apart by their most frequent words
+    const tokens = tokenize(text);
+    const hits = SCRIPT_CANDIDATES[top.script].map(language => {
+      const stopWords = new Set(STOP_WORDS[language]);
+      return { language, hits: tokens.filter(token => stopWords.has(token)).length };
+    }).sort((a, b) => b.hits - a.hits);
+
+    const totalHits = hits.reduce((sum, { hits }) => sum + hits, 0);
+    if (hits[0].hits < MIN_STOP_WORD_HITS) {
+      return { language: null, script: top.script, confidence: 0 };
+    }
+    return { language: hits[0].language, script: top.script, confidence: share * hits[0].hits / totalHits };
+  }
+}
+
+export function getLanguageRules(language: string | null): LanguageRules {
+  const stopWords = new Set(STOP_WORDS[language ?? 'en'] ?? []);
+  const plainLanguageTerms = PLAIN_LANGUAGE_TERMS[language ?? 'en'] ?? PLAIN_LANGUAGE_TERMS.en;
+
+  switch (language) {
+    case 'ja':
+      return { unit: 'characters', sentenceEnd: /[。！？!?]+/, easySentenceLength: 40, longWordLength: null, plainLanguageTerms, stopWords };
+    case 'zh':
+      return { unit: 'characters', sentenceEnd: /[。！？!?]+/, easySentenceLength: 25, longWordLength: null, plainLanguageTerms, stopWords };
+    case 'hi':
+    case 'mr':
+      return { unit: 'words', sentenceEnd: /[।॥.!?]+/, easySentenceLength: 15, longWordLength: null, plainLanguageTerms, stopWords };
+    case 'de':
+    case 'nl':
+    case 'sv':
+      // Compound nouns make long words normal
+      return { unit: 'words', sentenceEnd: /[.!?]+/, easySentenceLength: 15, longWordLength: 12, plainLanguageTerms, stopWords };
+    case 'ko':
+    case 'tr':
+    case 'ta':
+    case 'te':
+    case 'kn':
+    case 'ml':
+      // Agglutinative languages attach grammar to the word, so words are long and sentences short
+      return { unit: 'words', sentenceEnd: /[.!?]+/, easySentenceLength: 12, longWordLength: null, plainLanguageTerms, stopWords };
+    default:
+      return { unit: 'words', sentenceEnd: /[.!?]+/, easySentenceLength: 15, longWordLength: 7, plainLanguageTerms, stopWords };
+  }
+}
+
+// Whitespace-separated words; Chinese and Japanese characters count as half a word each, roughly their average word length
+export function countWords(text: string): number {
+  const cjkCharacters = (text.match(CJK_CHARACTERS) || []).length;
+  const words = text.replace(CJK_CHARACTERS, ' ').split(/\s+/).filter(token => LETTER_OR_NUMBER.test(token)).length;
+  return words + Math.ceil(cjkCharacters / 2);
+}
+
+// Most frequent content terms; CJK text has no spaces, so longer runs of Han characters are split into bigrams
+export function extractKeywords(text: string, language: string | null, limit = 10): string[] {
+  const stopWords = getLanguageRules(language).stopWords;
+  const frequencies = new Map<string, number>();
+
+  tokenize(text).forEach(token => {
+    const terms = CJK.test(token)
+      ? (token.match(CJK_TERMS) || []).flatMap(splitCjkRun)
+      : [token];
+    terms.forEach(term => {
+      if (stopWords.has(term) || NUMBER_ONLY.test(term)) return;
+      if (!CJK.test(term) && term.length < 3) return;
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(frequencies.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+// Short Han runs are usually one word; longer ones are compounds or phrases, split into overlapping bigrams
+function splitCjkRun(run: string): string[] {
+  if (!HAN.test(run) || run.length <= 3) return [run];
+  return Array.from({ length: run.length - 1 }, (_, i) => run.slice(i, i + 2));
+}
+
+// "en-US" → "en"
+function primaryLanguage(tag: string): string {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return LANGUAGE_ALIASES[primary] ?? primary;
+}
+
+// Lowercased runs of letters, marks and digits
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) || [];
+}
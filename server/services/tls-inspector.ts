@@ -0,0 +1,70 @@
+import { connect, type PeerCertificate } from 'tls';
+import { isIP } from 'net';
+import type { TlsCertificateDetails } from '@shared/schema';
+import { networkPolicy, describeFetchError, type RequestProfile } from './http-client';
+
+const TIMEOUT_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TlsInspector {
+  // Opens a TLS connection to the page's host and reads its certificate; untrusted certificates are
+  // accepted so they can be described instead of only failing
+  async inspect(url: string, profile?: RequestProfile): Promise<TlsCertificateDetails | null> {
+    const parsed = new URL(url);
+    // Behind a proxy the host may not be reachable directly
+    if (parsed.protocol !== 'https:' || profile?.proxyUrl) return null;
+
+    try {
+      await networkPolicy.checkUrl(url);
+      return await this.readCertificate(parsed.hostname, parsed.port ? parseInt(parsed.port) : 443);
+    } catch (error) {
+      return {
+        authorized: false,
+        error: describeFetchError(error),
+        subject: '',
+        issuer: '',
+        validFrom: null,
+        validTo: null,
+        daysRemaining: null,
+        protocol: null,
+      };
+    }
+  }
+
+  private readCertificate(hostname: string, port: number): Promise<TlsCertificateDetails> {
+    return new Promise((resolve, reject) => {
+      const socket = connect({
+        host: hostname,
+        port,
+        // SNI only carries host names
+        servername: isIP(hostname) ? undefined : hostname,
+        rejectUnauthorized: false,
+        lookup: networkPolicy.lookup,
+        timeout: TIMEOUT_MS,
+      });
+
+      socket.once('secureConnect', () => {
+        const certificate: PeerCertificate = socket.getPeerCertificate();
+        const validTo = certificate.valid_to ? new Date(certificate.valid_to) : null;
+        // Node sets the OpenSSL error code as a string even though the type says Error
+        const reason: unknown = socket.authorizationError;
+        resolve({
+          authorized: socket.authorized,
+          error: socket.authorized ? null : typeof reason === 'string' ? reason : (reason as Error | null)?.message ?? 'Untrusted certificate',
+          subject: certificate.subject?.CN ?? '',
+          issuer: certificate.issuer?.O ?? certificate.issuer?.CN ?? '',
+          validFrom: certificate.valid_from ? new Date(certificate.valid_from).toISOString() : null,
+          validTo: validTo ? validTo.toISOString() : null,
+          daysRemaining: validTo ? Math.floor((validTo.getTime() - Date.now()) / DAY_MS) : null,
+          protocol: socket.getProtocol(),
+        });
+        socket.end();
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        reject(Object.assign(new Error('Timed out'), { name: 'TimeoutError' }));
+      });
+      socket.once('error', reject);
+    });
+  }
+}
@@ -1,100 +1,732 @@
-import { load } from 'cheerio';
-import type { WebsiteData } from '@shared/schema';
+import { load, type CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import type { WebsiteData, RobotsTxtReport, HeadMetadata, RobotsDirectives, HttpResponseDetails, RedirectHop, EncodingDetails, ImageElement, ResourceInventory, ResourceHint, ScriptShellSignals, MobileMarkup, EmbedElement, SecurityMarkup, InsecureSubresource, AiPolicyFiles } from '@shared/schema';
+import { RobotsTxt } from './robots-txt';
+import { ContentExtractor } from './content-extractor';
+import { LinkChecker } from './link-checker';
+import { StructuredDataParser } from './structured-data';
+import { ImageInspector, resolveImageUrl, parseSrcset } from './image-inspector';
+import { AssetMeter } from './asset-meter';
+import { StylesheetLoader } from './stylesheet-loader';
+import { scanCss } from './css-scanner';
+import { AccessibilityInspector } from './accessibility-inspector';
+import { TlsInspector } from './tls-inspector';
+import { AiPolicyFileLoader } from './ai-policy-files';
+import { fetchWithRedirects, readBody, type RequestProfile, type Response } from './http-client';
+import { NetworkPolicyError } from './network-policy';
+import { decodeHtml } from './charset';
+import { LanguageDetector, countWords } from './text-language';
+
+export interface LoadedRobotsTxt {
+  url: string;
+  status: RobotsTxtReport['status'];
+  statusCode?: number;
+  rules: RobotsTxt;
+}
+
+export interface ScrapeOptions {
+  // Reuse an already fetched robots.txt, e.g. when crawling many pages of one site
+  robotsTxt?: LoadedRobotsTxt;
+  // Reuse already fetched llms.txt, ai.txt and tdmrep.json files of the same site
+  aiPolicyFiles?: AiPolicyFiles;
+  // Request every link on the page to find broken links and redirects (slow on link-heavy pages)
+  checkLinks?: boolean;
+  // Fetch the start of every image to record its file size, format and intrinsic dimensions
+  checkImages?: boolean;
+  // Download scripts and stylesheets to measure total page weight
+  measureAssets?: boolean;
+  // Download linked stylesheets for the mobile checks (media queries, fixed widths, font sizes)
+  checkStylesheets?: boolean;
+  // User agent, credentials and proxy from a fetch profile
+  profile?: RequestProfile;
+}
+
+export type ParsedPage = Omit<WebsiteData, 'url' | 'http' | 'loadTime' | 'robotsTxt' | 'aiPolicyFiles' | 'linkChecks' | 'encoding' | 'imageAssets' | 'assetWeights' | 'stylesheets'>;
+
+export interface FetchedPage {
+  finalUrl: string;
+  html: string;
+  encoding: EncodingDetails;
+  http: HttpResponseDetails;
+  loadTime: number;
+}
 
 export class WebScraper {
-  async scrapeWebsite(url: string): Promise<WebsiteData> {
+  private contentExtractor = new ContentExtractor();
+  private linkChecker = new LinkChecker();
+  private structuredDataParser = new StructuredDataParser();
+  private imageInspector = new ImageInspector();
+  private assetMeter = new AssetMeter();
+  private stylesheetLoader = new StylesheetLoader();
+  private languageDetector = new LanguageDetector();
+  private accessibilityInspector = new AccessibilityInspector();
+  private tlsInspector = new TlsInspector();
+  private aiPolicyFileLoader = new AiPolicyFileLoader();
+
+  async scrapeWebsite(url: string, options: ScrapeOptions = {}): Promise<WebsiteData> {
     try {
-      const startTime = Date.now();
-      
-      // Fetch the webpage
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; SEO-Audit-Bot/1.0)',
-        },
-      });
+      const { finalUrl, html, encoding, http, loadTime } = await this.fetchPage(url, options.profile);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // Crawler verdicts describe the page that was audited, so they follow redirects to another host or path
+      const loadedRobotsTxt = options.robotsTxt ?? await this.loadRobotsTxt(finalUrl, options.profile);
+      const robotsTxt = loadedRobotsTxt.rules.buildReport(
+        loadedRobotsTxt.url, finalUrl, loadedRobotsTxt.status, loadedRobotsTxt.statusCode,
+      );
+
+      const aiPolicyFiles = options.aiPolicyFiles ?? await this.loadAiPolicyFiles(finalUrl, options.profile);
+
+      const page = this.parsePage(html, finalUrl);
+
+      // Check link targets for errors and redirects
+      const linkChecks = options.checkLinks ? await this.linkChecker.checkLinks(finalUrl, page.links, options.profile) : undefined;
+
+      // Measure the image files the page references
+      const imageAssets = options.checkImages ? await this.imageInspector.inspect(finalUrl, page.images, options.profile) : undefined;
+
+      // Measure the scripts and stylesheets the page loads
+      const assetWeights = options.measureAssets ? await this.assetMeter.measure(page.resources.resources, options.profile) : undefined;
+
+      // Read the linked stylesheets for the mobile checks
+      const stylesheets = options.checkStylesheets ? await this.stylesheetLoader.load(page.resources.resources, options.profile) : undefined;
+
+      return {
+        url,
+        ...page,
+        http,
+        encoding,
+        loadTime,
+        robotsTxt,
+        aiPolicyFiles,
+        linkChecks,
+        imageAssets,
+        assetWeights,
+        stylesheets,
+      };
+    } catch (error) {
+      // Policy rejections keep their type so the API can report them as such
+      if (error instanceof NetworkPolicyError) throw error;
+      throw new Error(`Failed to scrape website: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Audits HTML that was not fetched (pasted, uploaded or from a build); the URL is where it will be published
+  parseHtml(html: string, url: string, encoding: EncodingDetails | null = null): WebsiteData {
+    return {
+      url,
+      ...this.parsePage(html, url),
+      http: null,
+      encoding,
+      loadTime: null,
+      robotsTxt: null,
+      aiPolicyFiles: null,
+    };
+  }
+
+  // Fetch stage: downloads the page and records how the server responded
+  async fetchPage(url: string, profile?: RequestProfile): Promise<FetchedPage> {
+    const startTime = Date.now();
+
+    // Fetch the webpage, recording every redirect hop
+    const { response, redirects, finalUrl } = await fetchWithRedirects(url, {}, profile);
+    const ttfb = Date.now() - startTime;
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const body = await readBody(response);
+    const loadTime = Date.now() - startTime;
+
+    // Decode with the charset from the BOM, the Content-Type header or <meta charset>
+    const { html, encoding } = decodeHtml(body, response.headers.get('content-type'));
+
+    const http = await this.describeResponse(url, response, redirects, finalUrl, body.length, ttfb, loadTime - ttfb, profile);
+    return { finalUrl, html, encoding, http, loadTime };
+  }
+
+  // Parse stage: everything that is read from the HTML document itself
+  parsePage(html: string, finalUrl: string): ParsedPage {
+    const $ = load(html);
+
+    // Extract title
+    const title = $('title').text().trim() || '';
+
+    // Extract meta description
+    const metaDescription = $('meta[name="description"]').attr('content') || '';
+
+    // Extract head metadata (canonical, robots, social tags, hreflang, ...)
+    const head = this.extractHeadMetadata($, finalUrl);
+
+    // Extract headings
+    const headings: Array<{ level: number; text: string }> = [];
+    $('h1, h2, h3, h4, h5, h6').each((_, element) => {
+      const tagName = $(element).prop('tagName');
+      const level = parseInt(tagName?.charAt(1) || '1');
+      const text = $(element).text().trim();
+      if (text) {
+        headings.push({ level, text });
       }
+    });
 
-      const html = await response.text();
-      const loadTime = Date.now() - startTime;
-      
-      const $ = load(html);
-
-      // Extract title
-      const title = $('title').text().trim() || '';
-
-      // Extract meta description
-      const metaDescription = $('meta[name="description"]').attr('content') || '';
-
-      // Extract headings
-      const headings: Array<{ level: number; text: string }> = [];
-      $('h1, h2, h3, h4, h5, h6').each((_, element) => {
-        const tagName = $(element).prop('tagName');
-        const level = parseInt(tagName?.charAt(1) || '1');
-        const text = $(element).text().trim();
-        if (text) {
-          headings.push({ level, text });
-        }
+    // Extract images with the attributes that decide how they load and which file is used; headings
+    // are walked in the same pass to know which one each image follows
+    const images: ImageElement[] = [];
+    let lastHeading = '';
+    $('h1, h2, h3, h4, h5, h6, img').each((_, element) => {
+      if (!$(element).is('img')) {
+        lastHeading = $(element).text().replace(/\s+/g, ' ').trim() || lastHeading;
+        return;
+      }
+
+      const attribute = (name: string) => ($(element).attr(name) || '').trim();
+      const src = $(element).attr('src') || '';
+      const alt = $(element).attr('alt') || '';
+      const hasAlt = alt.trim() !== '';
+      const role = attribute('role').toLowerCase();
+      if (src) {
+        images.push({
+          src,
+          alt,
+          hasAlt,
+          decorative: ($(element).attr('alt') !== undefined && !hasAlt) || role === 'presentation' || role === 'none' || attribute('aria-hidden') === 'true',
+          title: attribute('title'),
+          caption: $(element).closest('figure').find('figcaption').first().text().replace(/\s+/g, ' ').trim(),
+          heading: lastHeading,
+          url: resolveImageUrl(src, finalUrl) ?? '',
+          srcset: attribute('srcset'),
+          sizes: attribute('sizes'),
+          loading: attribute('loading').toLowerCase(),
+          fetchPriority: attribute('fetchpriority').toLowerCase(),
+          width: attribute('width'),
+          height: attribute('height'),
+          sources: $(element).parent('picture').children('source').toArray().map(source => ({
+            srcset: ($(source).attr('srcset') || '').trim(),
+            type: ($(source).attr('type') || '').trim().toLowerCase(),
+            media: ($(source).attr('media') || '').trim(),
+          })),
+        });
+      }
+    });
+
+    // Extract links
+    // A link is internal when it resolves to the page's own host, whatever form the href takes
+    const links: Array<{ href: string; text: string; isInternal: boolean }> = [];
+    const pageHost = new URL(finalUrl).hostname;
+    $('a[href]').each((_, element) => {
+      const href = $(element).attr('href') || '';
+      const text = $(element).text().trim();
+      const resolved = resolveUrl(href, finalUrl);
+      const isInternal = resolved !== '' && new URL(resolved).hostname === pageHost;
+      if (href && text) {
+        links.push({ href, text, isInternal });
+      }
+    });
+
+    // Extract main content, leaving out navigation, footers, scripts and banners
+    const fullContent = this.contentExtractor.extractFullText($);
+    const mainContentRoot = this.contentExtractor.findMainContent($);
+
+    // Extract document structure (paragraphs, lists, tables, ...) of the main content
+    const blocks = this.contentExtractor.extractBlocks($, mainContentRoot.root);
+    const structureCounts = this.contentExtractor.countStructures(mainContentRoot.root);
+
+    const mainContent = blocks.map(block => block.text).join(' ');
+    const wordCount = countWords(mainContent);
+    const fullWordCount = countWords(fullContent);
+    const boilerplateRatio = fullWordCount > 0 ? Math.max(0, 1 - wordCount / fullWordCount) : 0;
+
+    // Detect the language of the main content and compare it with <html lang>
+    const language = this.languageDetector.detect(mainContent || fullContent, head.lang);
+
+    // Inventory scripts, stylesheets and resource hints for the performance estimate
+    const resources = this.extractResources($, finalUrl);
+
+    // Empty framework mount points and JavaScript-only notices, for crawlers that do not run scripts
+    const scriptShell = this.extractScriptShell($, resources);
+
+    // Inline CSS, embeds and overlays for the mobile checks
+    const mobile = this.extractMobileMarkup($);
+
+    // Landmarks, names, labels and ARIA for the accessibility audit
+    const accessibility = this.accessibilityInspector.inspect($);
+
+    // Plain http:// subresources and form targets for the security audit
+    const security = this.extractSecurityMarkup($, finalUrl);
+
+    // Extract structured data (JSON-LD, Microdata, RDFa) and validate it
+    const structuredData = this.structuredDataParser.parse($, finalUrl);
+    const hasSchema = structuredData.entities.length > 0 || structuredData.parseErrors.length > 0;
+    const schemaTypes = Array.from(new Set(
+      structuredData.entities.filter(entity => entity.topLevel).flatMap(entity => entity.types),
+    ));
+
+    return {
+      title,
+      metaDescription,
+      head,
+      language,
+      headings,
+      images,
+      links,
+      mainContent,
+      fullContent,
+      mainContentSource: mainContentRoot.source,
+      boilerplateRatio,
+      blocks,
+      structureCounts,
+      hasSchema,
+      schemaTypes,
+      structuredData,
+      resources,
+      scriptShell,
+      mobile,
+      accessibility,
+      security,
+      wordCount,
+      fullWordCount,
+    };
+  }
+
+  private async describeResponse(
+    url: string,
+    response: Response,
+    redirects: RedirectHop[],
+    finalUrl: string,
+    htmlBytes: number,
+    ttfb: number,
+    downloadTime: number,
+    profile?: RequestProfile,
+  ): Promise<HttpResponseDetails> {
+    const header = (name: string) => response.headers.get(name) || '';
+    // Node's fetch decompresses transparently, so Content-Length is the only view of the bytes on the wire
+    const contentLength = parseInt(header('content-length'));
+    const xRobotsTag = header('x-robots-tag');
+
+    return {
+      requestedUrl: url,
+      finalUrl,
+      statusCode: response.status,
+      redirects,
+      ttfb,
+      downloadTime,
+      htmlBytes,
+      transferredBytes: isNaN(contentLength) ? null : contentLength,
+      contentType: header('content-type'),
+      contentEncoding: header('content-encoding'),
+      cacheControl: header('cache-control'),
+      lastModified: header('last-modified'),
+      xRobotsTag,
+      xRobots: parseXRobotsTag(xRobotsTag),
+      hsts: header('strict-transport-security'),
+      csp: header('content-security-policy'),
+      xContentTypeOptions: header('x-content-type-options'),
+      referrerPolicy: header('referrer-policy'),
+      tdmReservation: header('tdm-reservation'),
+      tdmPolicy: header('tdm-policy'),
+      httpVersion: url.startsWith('https:') ? await this.probeHttpVersion(url) : null,
+      tls: await this.tlsInspector.inspect(finalUrl, profile),
+    };
+  }
+
+  // Requests the http:// variant of an https URL to see whether it redirects to HTTPS.
+  // The fetch profile is left out so its credentials and headers never go over plain http.
+  private async probeHttpVersion(url: string): Promise<HttpResponseDetails['httpVersion']> {
+    const httpUrl = url.replace(/^https:/, 'http:');
+    try {
+      const { response, redirects, finalUrl } = await fetchWithRedirects(httpUrl, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(10000),
       });
+      await response.body?.cancel();
+      return {
+        url: httpUrl,
+        statusCode: response.status,
+        redirects,
+        finalUrl,
+        redirectsToHttps: finalUrl.startsWith('https:'),
+      };
+    } catch {
+      return { url: httpUrl, statusCode: null, redirects: [], finalUrl: httpUrl, redirectsToHttps: false };
+    }
+  }
 
-      // Extract images
-      const images: Array<{ src: string; alt: string; hasAlt: boolean }> = [];
-      $('img').each((_, element) => {
-        const src = $(element).attr('src') || '';
-        const alt = $(element).attr('alt') || '';
-        const hasAlt = !!$(element).attr('alt');
-        if (src) {
-          images.push({ src, alt, hasAlt });
-        }
+  private extractResources($: CheerioAPI, url: string): ResourceInventory {
+    const pageSite = siteOf(new URL(url).hostname);
+    const resources: ResourceInventory['resources'] = [];
+    const add = (type: 'script' | 'stylesheet', element: Element, href: string | undefined) => {
+      const resolved = href ? resolveUrl(href, url) : '';
+      if (!/^https?:/.test(resolved)) return;
+      const host = new URL(resolved).hostname;
+      const attribute = (name: string) => $(element).attr(name);
+      const inHead = $(element).closest('head').length > 0;
+      const media = (attribute('media') || '').trim();
+      const module = attribute('type') === 'module';
+      const isAsync = attribute('async') !== undefined;
+      const defer = attribute('defer') !== undefined;
+      resources.push({
+        type,
+        url: resolved,
+        host,
+        thirdParty: siteOf(host) !== pageSite,
+        inHead,
+        async: isAsync,
+        defer,
+        module,
+        media,
+        // Module scripts are deferred by default; print stylesheets are downloaded without blocking
+        renderBlocking: inHead && (type === 'script'
+          ? !isAsync && !defer && !module
+          : attribute('disabled') === undefined && !/^(print|speech)$/i.test(media) && !/^\s*not\s+(all|screen)/i.test(media)),
       });
+    };
 
-      // Extract links
-      const links: Array<{ href: string; text: string; isInternal: boolean }> = [];
-      $('a[href]').each((_, element) => {
-        const href = $(element).attr('href') || '';
-        const text = $(element).text().trim();
-        const isInternal = href.startsWith('/') || href.includes(new URL(url).hostname);
-        if (href && text) {
-          links.push({ href, text, isInternal });
-        }
+    $('script[src]').each((_, element) => {
+      if (isScriptType($(element).attr('type'))) add('script', element, $(element).attr('src'));
+    });
+    $('link[rel~="stylesheet" i][href]').each((_, element) => {
+      if (!/\balternate\b/i.test($(element).attr('rel') || '')) add('stylesheet', element, $(element).attr('href'));
+    });
+
+    const hintRels: ResourceHint['rel'][] = ['preload', 'modulepreload', 'preconnect', 'dns-prefetch', 'prefetch'];
+    const hints: ResourceHint[] = [];
+    $('link[rel][href]').each((_, element) => {
+      const rels = ($(element).attr('rel') || '').toLowerCase().split(/\s+/);
+      const href = resolveUrl($(element).attr('href') || '', url);
+      hintRels.filter(rel => rels.includes(rel)).forEach(rel => {
+        if (href) hints.push({ rel, href, as: ($(element).attr('as') || '').toLowerCase() });
       });
+    });
 
-      // Extract main content
-      const content = $('body').text().replace(/\s+/g, ' ').trim();
-      const wordCount = content.split(/\s+/).length;
+    // JSON-LD, templates and other data blocks are not executed
+    const inlineScripts = $('script:not([src])').toArray().filter(element => isScriptType($(element).attr('type')));
+    const inlineStyles = $('style').toArray();
 
-      // Check for schema markup
-      const schemaScripts = $('script[type="application/ld+json"]');
-      const hasSchema = schemaScripts.length > 0;
-      const schemaTypes: string[] = [];
+    return {
+      resources,
+      hints,
+      thirdPartyHosts: Array.from(new Set(resources.filter(resource => resource.thirdParty).map(resource => resource.host))),
+      inlineScripts: inlineScripts.length,
+      inlineScriptBytes: inlineScripts.reduce((sum, element) => sum + Buffer.byteLength($(element).html() || ''), 0),
+      inlineStyles: inlineStyles.length,
+      inlineStyleBytes: inlineStyles.reduce((sum, element) => sum + Buffer.byteLength($(element).html() || ''), 0),
+    };
+  }
 
-      schemaScripts.each((_, element) => {
-        try {
-          const schemaData = JSON.parse($(element).html() || '{}');
-          if (schemaData['@type']) {
-            schemaTypes.push(schemaData['@type']);
-          }
-        } catch (e) {
-          // Ignore invalid JSON
-        }
+  private extractScriptShell($: CheerioAPI, resources: ResourceInventory): ScriptShellSignals {
+    const appRoot = APP_ROOT_SELECTORS.find(selector => $(selector).length > 0) ?? null;
+    const rootText = appRoot
+      ? $(appRoot).first().clone().find('script, style, noscript, template').remove().end().text()
+      : '';
+
+    return {
+      appRoot,
+      appRootWords: countWords(rootText),
+      scripts: resources.resources.filter(resource => resource.type === 'script').length + resources.inlineScripts,
+      noscriptWarning: $('noscript').toArray().some(element => NOSCRIPT_WARNING.test($(element).text())),
+    };
+  }
+
+  private extractMobileMarkup($: CheerioAPI): MobileMarkup {
+    // Style attributes and legacy width attributes become rules so one scanner handles all inline CSS
+    const attributeRules: string[] = [];
+    $('[style]').each((_, element) => {
+      attributeRules.push(`${describeElement($, element)} { ${$(element).attr('style')} }`);
+    });
+    $('table[width], td[width], div[width]').each((_, element) => {
+      const width = ($(element).attr('width') || '').trim();
+      if (/^\d+$/.test(width)) attributeRules.push(`${describeElement($, element)} { width: ${width}px }`);
+    });
+    const styleBlocks = $('style').toArray().map(element => $(element).html() || '');
+    const inlineCss = scanCss([...styleBlocks, ...attributeRules].join('\n'));
+
+    const embeds: EmbedElement[] = [];
+    $('iframe, embed, object, applet').each((_, element) => {
+      const $element = $(element);
+      // Objects nested inside another object are fallbacks for the same content
+      if (element.tagName !== 'iframe' && $element.parents('object').length > 0) return;
+      const src = $element.attr('src') || $element.attr('data') || $element.attr('code') || $element.find('param[name="movie" i]').attr('value') || '';
+      const width = ($element.attr('width') || '').trim();
+      const height = ($element.attr('height') || '').trim();
+      const style = ($element.attr('style') || '').toLowerCase();
+      // Tracking frames (1x1 or hidden) are invisible on any screen
+      if (/^[01](px)?$/.test(width) || /^[01](px)?$/.test(height) || /display\s*:\s*none/.test(style) || $element.attr('hidden') !== undefined) return;
+
+      const wrapper = $element.parent();
+      const wrapperStyle = (wrapper.attr('style') || '').toLowerCase();
+      const responsive = /%$/.test(width)
+        || /(^|;)\s*(max-)?width\s*:\s*100%/.test(style)
+        || /aspect-ratio/.test(style + wrapperStyle)
+        || /padding-(bottom|top)\s*:\s*[\d.]+%/.test(wrapperStyle)
+        || RESPONSIVE_WRAPPER.test(`${wrapper.attr('class') || ''} ${wrapper.attr('id') || ''}`);
+
+      embeds.push({
+        tag: element.tagName as EmbedElement['tag'],
+        src,
+        width,
+        height,
+        plugin: element.tagName === 'applet' || PLUGIN_CONTENT.test(`${src} ${$element.attr('type') || ''} ${$element.attr('classid') || ''}`),
+        responsive,
       });
+    });
 
-      return {
-        title,
-        metaDescription,
-        headings,
-        images,
-        links,
-        content,
-        hasSchema,
-        schemaTypes,
-        loadTime,
-        wordCount,
-      };
+    // Popups and overlays that are in the markup and not hidden by it; cookie and age notices are legally required and exempt
+    const interstitials: MobileMarkup['interstitials'] = [];
+    $('dialog[open], [aria-modal="true"], div, section, aside').each((_, element) => {
+      const $element = $(element);
+      const id = $element.attr('id') || '';
+      const classes = ($element.attr('class') || '').split(/\s+/).filter(Boolean);
+      const names = `${id} ${classes.join(' ')}`;
+      const style = ($element.attr('style') || '').toLowerCase();
+      const isDialog = element.tagName === 'dialog' || $element.attr('aria-modal') === 'true';
+      if (!isDialog && !INTERSTITIAL_NAME.test(names)) return;
+      if (EXEMPT_OVERLAY.test(names) || EXEMPT_OVERLAY.test($element.attr('aria-label') || '')) return;
+      if ($element.attr('hidden') !== undefined || $element.attr('aria-hidden') === 'true' || /display\s*:\s*none|visibility\s*:\s*hidden/.test(style)) return;
+      // Report the outermost overlay only
+      if ($element.parents().toArray().some(parent => interstitials.some(candidate => candidate.element === describeElement($, parent)))) return;
+
+      interstitials.push({
+        element: describeElement($, element),
+        text: $element.text().replace(/\s+/g, ' ').trim().slice(0, 100),
+        fixedInline: /position\s*:\s*fixed/.test(style),
+        modal: isDialog,
+        classes,
+        id,
+      });
+    });
+
+    return { inlineCss, embeds, interstitials: interstitials.slice(0, 10) };
+  }
+
+  private extractSecurityMarkup($: CheerioAPI, url: string): SecurityMarkup {
+    const insecure: InsecureSubresource[] = [];
+    const add = (tag: string, href: string | undefined, active: boolean) => {
+      const resolved = href ? resolveUrl(href.trim(), url) : '';
+      if (resolved.startsWith('http:')) insecure.push({ tag, url: resolved, active });
+    };
+    $('script[src]').each((_, element) => add('script', $(element).attr('src'), true));
+    $('link[href]').each((_, element) => {
+      const rel = ($(element).attr('rel') || '').toLowerCase();
+      // Plain links (canonical, alternate, ...) are not loaded by the browser
+      if (/\b(stylesheet|preload|modulepreload|manifest)\b/.test(rel)) add('link', $(element).attr('href'), true);
+      else if (/\bicon\b/.test(rel)) add('link', $(element).attr('href'), false);
+    });
+    $('iframe[src], frame[src]').each((_, element) => add(element.tagName, $(element).attr('src'), true));
+    $('object[data]').each((_, element) => add('object', $(element).attr('data'), true));
+    $('embed[src]').each((_, element) => add('embed', $(element).attr('src'), true));
+    $('img[src], audio[src], video[src], source[src], track[src]').each((_, element) => add(element.tagName, $(element).attr('src'), false));
+    $('img[srcset], source[srcset]').each((_, element) => {
+      parseSrcset($(element).attr('srcset') || '').forEach(candidate => add(element.tagName, candidate.url, false));
+    });
+    $('video[poster]').each((_, element) => add('video', $(element).attr('poster'), false));
+
+    const forms = $('form').toArray().map(element => ({
+      action: resolveUrl(($(element).attr('action') || '').trim(), url) || url,
+      method: ($(element).attr('method') || 'get').toLowerCase(),
+      hasPassword: $(element).find('input[type="password" i]').length > 0,
+    }));
+
+    return {
+      insecureSubresources: insecure.slice(0, 20),
+      insecureSubresourceCount: insecure.length,
+      forms,
+      metaCsp: $('meta[http-equiv="Content-Security-Policy" i]').attr('content') || '',
+      metaReferrer: $('meta[name="referrer" i]').attr('content') || '',
+    };
+  }
+
+  private extractHeadMetadata($: CheerioAPI, url: string): HeadMetadata {
+    // Relative URLs in the head resolve against <base href> when there is one
+    const baseUrl = resolveUrl($('base[href]').attr('href') || '', url) || url;
+    const absolute = (href: string | undefined) => (href ? resolveUrl(href, baseUrl) : '');
+
+    const charset = $('meta[charset]').attr('charset') ||
+      ($('meta[http-equiv="Content-Type" i]').attr('content') || '').match(/charset=([^;\s]+)/i)?.[1] ||
+      '';
+
+    const canonicals = $('link[rel~="canonical" i]')
+      .toArray()
+      .map(element => absolute($(element).attr('href')))
+      .filter(Boolean);
+
+    // Generic robots plus crawler-specific tags such as <meta name="googlebot">
+    const robotsMeta = $('meta[name]')
+      .toArray()
+      .map(element => ({
+        name: ($(element).attr('name') || '').toLowerCase(),
+        content: $(element).attr('content') || '',
+      }))
+      .filter(meta => meta.name === 'robots' || meta.name === 'googlebot' || meta.name === 'bingbot');
+    const robots = parseRobotsDirectives(
+      robotsMeta.filter(meta => meta.name === 'robots' || meta.name === 'googlebot').map(meta => meta.content),
+    );
+
+    const openGraph: Record<string, string> = {};
+    $('meta[property^="og:"]').each((_, element) => {
+      const property = $(element).attr('property')!.toLowerCase();
+      if (!(property in openGraph)) openGraph[property] = $(element).attr('content') || '';
+    });
+
+    const twitter: Record<string, string> = {};
+    $('meta[name^="twitter:"], meta[property^="twitter:"]').each((_, element) => {
+      const name = ($(element).attr('name') || $(element).attr('property'))!.toLowerCase();
+      if (!(name in twitter)) twitter[name] = $(element).attr('content') || '';
+    });
+
+    const hreflang = $('link[rel~="alternate" i][hreflang]')
+      .toArray()
+      .map(element => ({
+        lang: ($(element).attr('hreflang') || '').toLowerCase(),
+        href: absolute($(element).attr('href')),
+      }))
+      .filter(alternate => alternate.lang && alternate.href);
+
+    return {
+      lang: $('html').attr('lang') || '',
+      charset,
+      viewport: $('meta[name="viewport" i]').attr('content') || '',
+      canonicals,
+      robotsMeta,
+      robots,
+      tdmReservation: ($('meta[name="tdm-reservation" i]').attr('content') || '').trim(),
+      tdmPolicy: ($('meta[name="tdm-policy" i]').attr('content') || '').trim(),
+      openGraph,
+      twitter,
+      hreflang,
+      favicon: absolute($('link[rel~="icon" i]').first().attr('href')),
+      manifest: absolute($('link[rel="manifest" i]').attr('href')),
+    };
+  }
+
+  async fetchRobotsTxt(url: string): Promise<RobotsTxtReport> {
+    const loaded = await this.loadRobotsTxt(url);
+    return loaded.rules.buildReport(loaded.url, url, loaded.status, loaded.statusCode);
+  }
+
+  async loadAiPolicyFiles(url: string, profile?: RequestProfile): Promise<AiPolicyFiles> {
+    return this.aiPolicyFileLoader.load(url, profile);
+  }
+
+  async loadRobotsTxt(url: string, profile?: RequestProfile): Promise<LoadedRobotsTxt> {
+    const robotsUrl = new URL('/robots.txt', url).toString();
+
+    try {
+      const { response } = await fetchWithRedirects(robotsUrl, {
+        signal: AbortSignal.timeout(10000),
+      }, profile);
+
+      // 4xx means there are no restrictions; 5xx and 429 mean the site must be treated as fully disallowed
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        return { url: robotsUrl, status: 'not_found', statusCode: response.status, rules: RobotsTxt.allowAll() };
+      }
+      if (!response.ok) {
+        return { url: robotsUrl, status: 'unreachable', statusCode: response.status, rules: RobotsTxt.allowAll() };
+      }
+
+      const body = (await readBody(response)).toString('utf8');
+      return { url: robotsUrl, status: 'found', statusCode: response.status, rules: RobotsTxt.parse(body) };
     } catch (error) {
-      throw new Error(`Failed to scrape website: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { url: robotsUrl, status: 'unreachable', rules: RobotsTxt.allowAll() };
     }
   }
 }
+
+// Wrapper classes that responsive embed snippets (Bootstrap, WordPress, Foundation, FitVids) use
+const RESPONSIVE_WRAPPER = /(embed-responsive|responsive-embed|video-wrapper|video-container|iframe-container|wp-block-embed__wrapper|fluid-width|\bratio\b|aspect-|flex-video)/i;
+const PLUGIN_CONTENT = /(\.swf\b|shockwave|x-shockwave-flash|futuresplash|x-silverlight|java-applet|x-java|\.class\b|clsid:d27cdb6e)/i;
+const INTERSTITIAL_NAME = /(^|[\s_-])(popup|pop-up|modal|overlay|interstitial|lightbox|newsletter-popup|signup-popup|lead-?capture|exit-?intent|splash|takeover|app-?banner)([\s_-]|$)/i;
+const EXEMPT_OVERLAY = /cookie|consent|gdpr|ccpa|age-?(gate|verif)/i;
+
+// Elements React, Vue, Next.js, Nuxt, Gatsby, Svelte and Angular apps mount into
+const APP_ROOT_SELECTORS = ['#root', '#app', '#__next', '#__nuxt', '#___gatsby', '#svelte', 'app-root', '[ng-app]', '[data-reactroot]'];
+
+const NOSCRIPT_WARNING = /enable\s+javascript|javascript\s+(is\s+)?(required|disabled|needed)|(need|requires?)\s+javascript/i;
+
+// "div#signup.modal.is-open", short enough for a report line
+function describeElement($: CheerioAPI, element: Element): string {
+  const id = $(element).attr('id');
+  const classes = ($(element).attr('class') || '').split(/\s+/).filter(Boolean).slice(0, 3);
+  return element.tagName + (id ? `#${id}` : '') + classes.map(name => `.${name}`).join('');
+}
+
+// Only classic and module JavaScript runs; other types are data
+function isScriptType(type: string | undefined): boolean {
+  return !type || type === 'module' || /^(text|application)\/(x-)?(java|ecma)script$/i.test(type.trim());
+}
+
+// Registrable domain, approximated as the last two labels (three for country second-level domains like co.uk)
+function siteOf(host: string): string {
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return host;
+  const labels = host.split('.');
+  const count = /^(co|com|net|org|gov|ac|edu|ne|or)\.[a-z]{2}$/.test(labels.slice(-2).join('.')) ? 3 : 2;
+  return labels.slice(-count).join('.');
+}
+
+function resolveUrl(href: string, base: string): string {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return '';
+  }
+}
+
+// X-Robots-Tag values may be scoped to a crawler ("googlebot: noindex"); only generic and Googlebot scopes count
+function parseXRobotsTag(value: string): RobotsDirectives {
+  const applicable: string[] = [];
+  let scope = '';
+
+  value.split(',').forEach(part => {
+    const scoped = part.match(/^\s*([a-z][\w-]*)\s*:\s*(.*)$/i);
+    if (scoped && !/^(max-snippet|max-image-preview|max-video-preview|unavailable_after)$/i.test(scoped[1])) {
+      scope = scoped[1].toLowerCase();
+      part = scoped[2];
+    }
+    if (scope === '' || scope === 'googlebot') {
+      applicable.push(part);
+    }
+  });
+
+  return parseRobotsDirectives(applicable);
+}
+
+// Merges robots directives from meta tags or X-Robots-Tag headers; the most restrictive value wins
+export function parseRobotsDirectives(values: string[]): RobotsDirectives {
+  const directives: RobotsDirectives = {
+    noindex: false,
+    nofollow: false,
+    noarchive: false,
+    nosnippet: false,
+  };
+
+  values
+    .flatMap(value => value.split(','))
+    .map(directive => directive.trim().toLowerCase())
+    .forEach(directive => {
+      const [name, ...rest] = directive.split(':').map(part => part.trim());
+      const value = rest.join(':');
+      switch (name) {
+        case 'none':
+          directives.noindex = true;
+          directives.nofollow = true;
+          break;
+        case 'noindex':
+        case 'nofollow':
+        case 'noarchive':
+        case 'nosnippet':
+          directives[name] = true;
+          break;
+        case 'max-snippet': {
+          const length = parseInt(value);
+          // -1 means "no limit", so any other value is more restrictive
+          if (!isNaN(length) && (directives.maxSnippet === undefined || directives.maxSnippet === -1 || (length !== -1 && length < directives.maxSnippet))) {
+            directives.maxSnippet = length;
+          }
+          break;
+        }
+        case 'max-image-preview':
+          directives.maxImagePreview = value;
+          break;
+      }
+    });
+
+  return directives;
+}
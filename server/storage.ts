@@ -1,12 +1,30 @@
-import { auditReports, type AuditReport, type InsertAuditReport } from "@shared/schema";
+import {
+  auditReports,
+  siteCrawlReports,
+  fetchProfiles,
+  type AuditReport,
+  type InsertAuditReport,
+  type SiteCrawlReport,
+  type InsertSiteCrawlReport,
+  type FetchProfile,
+  type InsertFetchProfile,
+} from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, inArray } from "drizzle-orm";
 
 export interface IStorage {
   createAuditReport(report: InsertAuditReport): Promise<AuditReport>;
   getAuditReport(id: number): Promise<AuditReport | undefined>;
   getAuditReportsByUrl(url: string): Promise<AuditReport[]>;
   getAllAuditReports(): Promise<AuditReport[]>;
+  getAuditReportsByIds(ids: number[]): Promise<AuditReport[]>;
+  createSiteCrawlReport(report: InsertSiteCrawlReport): Promise<SiteCrawlReport>;
+  getSiteCrawlReport(id: number): Promise<SiteCrawlReport | undefined>;
+  getAllSiteCrawlReports(): Promise<SiteCrawlReport[]>;
+  createFetchProfile(profile: InsertFetchProfile): Promise<FetchProfile>;
+  getFetchProfile(id: number): Promise<FetchProfile | undefined>;
+  getAllFetchProfiles(): Promise<FetchProfile[]>;
+  deleteFetchProfile(id: number): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -20,6 +38,20 @@ export class DatabaseStorage implements IStorage {
         traditionalSeoResults: insertReport.traditionalSeoResults as any,
         geoResults: insertReport.geoResults as any,
         contentSuggestions: insertReport.contentSuggestions as any,
+        fetchProfile: insertReport.fetchProfile as any,
+        altText: insertReport.altText as any,
+        performanceScore: insertReport.performanceScore,
+        performanceResults: insertReport.performanceResults as any,
+        performanceBudget: insertReport.performanceBudget as any,
+        mobileResults: insertReport.mobileResults as any,
+        accessibilityScore: insertReport.accessibilityScore,
+        accessibilityResults: insertReport.accessibilityResults as any,
+        securityResults: insertReport.securityResults as any,
+        aiAccessPolicy: insertReport.aiAccessPolicy as any,
+        scoringProfile: insertReport.scoringProfile as any,
+        seoScoreBreakdown: insertReport.seoScoreBreakdown as any,
+        aiScoreBreakdown: insertReport.aiScoreBreakdown as any,
+        geoAnalysis: insertReport.geoAnalysis as any,
       })
       .returning();
     return report as AuditReport;
@@ -45,15 +77,94 @@ export class DatabaseStorage implements IStorage {
     const reports = await db.select().from(auditReports);
     return reports as AuditReport[];
   }
+
+  async getAuditReportsByIds(ids: number[]): Promise<AuditReport[]> {
+    if (ids.length === 0) return [];
+    const reports = await db
+      .select()
+      .from(auditReports)
+      .where(inArray(auditReports.id, ids));
+    return reports as AuditReport[];
+  }
+
+  async createSiteCrawlReport(insertReport: InsertSiteCrawlReport): Promise<SiteCrawlReport> {
+    const [report] = await db
+      .insert(siteCrawlReports)
+      .values({
+        seedUrl: insertReport.seedUrl,
+        settings: insertReport.settings as any,
+        pages: insertReport.pages as any,
+        skippedPages: insertReport.skippedPages as any,
+        seoScore: insertReport.seoScore,
+        aiScore: insertReport.aiScore,
+        commonIssues: insertReport.commonIssues as any,
+      })
+      .returning();
+    return report as SiteCrawlReport;
+  }
+
+  async getSiteCrawlReport(id: number): Promise<SiteCrawlReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(siteCrawlReports)
+      .where(eq(siteCrawlReports.id, id));
+    return report as SiteCrawlReport | undefined;
+  }
+
+  async getAllSiteCrawlReports(): Promise<SiteCrawlReport[]> {
+    const reports = await db.select().from(siteCrawlReports);
+    return reports as SiteCrawlReport[];
+  }
+
+  async createFetchProfile(insertProfile: InsertFetchProfile): Promise<FetchProfile> {
+    const [profile] = await db
+      .insert(fetchProfiles)
+      .values({
+        ...insertProfile,
+        headerNames: insertProfile.headerNames as any,
+        cookieNames: insertProfile.cookieNames as any,
+      })
+      .returning();
+    return profile as FetchProfile;
+  }
+
+  async getFetchProfile(id: number): Promise<FetchProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(fetchProfiles)
+      .where(eq(fetchProfiles.id, id));
+    return profile as FetchProfile | undefined;
+  }
+
+  async getAllFetchProfiles(): Promise<FetchProfile[]> {
+    const profiles = await db.select().from(fetchProfiles);
+    return profiles as FetchProfile[];
+  }
+
+  async deleteFetchProfile(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(fetchProfiles)
+      .where(eq(fetchProfiles.id, id))
+      .returning({ id: fetchProfiles.id });
+    return deleted.length > 0;
+  }
 }
 
 export class MemStorage implements IStorage {
   private reports: Map<number, AuditReport>;
+  private crawlReports: Map<number, SiteCrawlReport>;
+  private fetchProfiles: Map<number, FetchProfile>;
   private currentId: number;
+  private currentCrawlId: number;
+  private currentProfileId: number;
 
   constructor() {
     this.reports = new Map();
+    this.crawlReports = new Map();
+    this.fetchProfiles = new Map();
     this.currentId = 1;
+    this.currentCrawlId = 1;
+    this.currentProfileId = 1;
   }
 
   async createAuditReport(insertReport: InsertAuditReport): Promise<AuditReport> {
@@ -66,6 +177,20 @@ export class MemStorage implements IStorage {
       traditionalSeoResults: insertReport.traditionalSeoResults as any,
       geoResults: insertReport.geoResults as any,
       contentSuggestions: insertReport.contentSuggestions as any,
+      fetchProfile: (insertReport.fetchProfile ?? null) as any,
+      altText: (insertReport.altText ?? null) as any,
+      performanceScore: insertReport.performanceScore ?? null,
+      performanceResults: (insertReport.performanceResults ?? null) as any,
+      performanceBudget: (insertReport.performanceBudget ?? null) as any,
+      mobileResults: (insertReport.mobileResults ?? null) as any,
+      accessibilityScore: insertReport.accessibilityScore ?? null,
+      accessibilityResults: (insertReport.accessibilityResults ?? null) as any,
+      securityResults: (insertReport.securityResults ?? null) as any,
+      aiAccessPolicy: (insertReport.aiAccessPolicy ?? null) as any,
+      scoringProfile: (insertReport.scoringProfile ?? null) as any,
+      seoScoreBreakdown: (insertReport.seoScoreBreakdown ?? null) as any,
+      aiScoreBreakdown: (insertReport.aiScoreBreakdown ?? null) as any,
+      geoAnalysis: (insertReport.geoAnalysis ?? null) as any,
       createdAt: new Date(),
     };
     this.reports.set(id, report);
@@ -85,6 +210,71 @@ export class MemStorage implements IStorage {
   async getAllAuditReports(): Promise<AuditReport[]> {
     return Array.from(this.reports.values());
   }
+
+  async getAuditReportsByIds(ids: number[]): Promise<AuditReport[]> {
+    return ids
+      .map((id) => this.reports.get(id))
+      .filter((report): report is AuditReport => report !== undefined);
+  }
+
+  async createSiteCrawlReport(insertReport: InsertSiteCrawlReport): Promise<SiteCrawlReport> {
+    const id = this.currentCrawlId++;
+    const report: SiteCrawlReport = {
+      id,
+      seedUrl: insertReport.seedUrl,
+      settings: insertReport.settings as any,
+      pages: insertReport.pages as any,
+      skippedPages: insertReport.skippedPages as any,
+      seoScore: insertReport.seoScore,
+      aiScore: insertReport.aiScore,
+      commonIssues: insertReport.commonIssues as any,
+      createdAt: new Date(),
+    };
+    this.crawlReports.set(id, report);
+    return report;
+  }
+
+  async getSiteCrawlReport(id: number): Promise<SiteCrawlReport | undefined> {
+    return this.crawlReports.get(id);
+  }
+
+  async getAllSiteCrawlReports(): Promise<SiteCrawlReport[]> {
+    return Array.from(this.crawlReports.values());
+  }
+
+  async createFetchProfile(insertProfile: InsertFetchProfile): Promise<FetchProfile> {
+    if (Array.from(this.fetchProfiles.values()).some((profile) => profile.name === insertProfile.name)) {
+      throw new Error(`A fetch profile named "${insertProfile.name}" already exists`);
+    }
+    const id = this.currentProfileId++;
+    const profile: FetchProfile = {
+      id,
+      name: insertProfile.name,
+      userAgent: insertProfile.userAgent ?? null,
+      acceptLanguage: insertProfile.acceptLanguage ?? null,
+      timeoutMs: insertProfile.timeoutMs ?? null,
+      headerNames: insertProfile.headerNames as string[],
+      cookieNames: insertProfile.cookieNames as string[],
+      basicAuthUsername: insertProfile.basicAuthUsername ?? null,
+      proxyHost: insertProfile.proxyHost ?? null,
+      encryptedSecrets: insertProfile.encryptedSecrets ?? null,
+      createdAt: new Date(),
+    };
+    this.fetchProfiles.set(id, profile);
+    return profile;
+  }
+
+  async getFetchProfile(id: number): Promise<FetchProfile | undefined> {
+    return this.fetchProfiles.get(id);
+  }
+
+  async getAllFetchProfiles(): Promise<FetchProfile[]> {
+    return Array.from(this.fetchProfiles.values());
+  }
+
+  async deleteFetchProfile(id: number): Promise<boolean> {
+    return this.fetchProfiles.delete(id);
+  }
 }
 
 export const storage = new DatabaseStorage();
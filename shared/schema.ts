@@ -10,6 +10,31 @@ export const auditReports = pgTable("audit_reports", {
   traditionalSeoResults: jsonb("traditional_seo_results").$type<TraditionalSeoResult[]>().notNull(),
   geoResults: jsonb("geo_results").$type<GeoResult[]>().notNull(),
   contentSuggestions: jsonb("content_suggestions").$type<ContentSuggestions>().notNull(),
+  // Redacted snapshot of the fetch profile the page was requested with, if any
+  fetchProfile: jsonb("fetch_profile").$type<FetchProfileSummary>(),
+  // Per-image alt text review; null when the traditional SEO audit was skipped
+  altText: jsonb("alt_text").$type<AltTextReport>(),
+  // Estimate from the page's markup and measured asset sizes (no browser); null when the traditional SEO audit was skipped
+  performanceScore: integer("performance_score"),
+  performanceResults: jsonb("performance_results").$type<TraditionalSeoResult[]>(),
+  // The budget the estimate was checked against: the defaults merged with the audit's overrides
+  performanceBudget: jsonb("performance_budget").$type<PerformanceBudget>(),
+  // Viewport, responsive CSS, embeds and interstitials; null when the traditional SEO audit was skipped
+  mobileResults: jsonb("mobile_results").$type<TraditionalSeoResult[]>(),
+  // Null when the accessibility audit was skipped
+  accessibilityScore: integer("accessibility_score"),
+  accessibilityResults: jsonb("accessibility_results").$type<TraditionalSeoResult[]>(),
+  // HTTPS, certificate, mixed content, security headers and forms; null when the traditional SEO audit was skipped
+  securityResults: jsonb("security_results").$type<TraditionalSeoResult[]>(),
+  // robots.txt, llms.txt, ai.txt, noai and TDMRep signals read together; null when the GEO audit was skipped
+  aiAccessPolicy: jsonb("ai_access_policy").$type<AiAccessPolicy>(),
+  // Null on reports created before scoring profiles, which were scored with the general defaults
+  scoringProfile: jsonb("scoring_profile").$type<ScoringProfile>(),
+  // Points per rule behind seoScore and aiScore; null when that audit was skipped
+  seoScoreBreakdown: jsonb("seo_score_breakdown").$type<ScoreBreakdown>(),
+  aiScoreBreakdown: jsonb("ai_score_breakdown").$type<ScoreBreakdown>(),
+  // GEO factors, summary and recommendations behind aiScore; null when the GEO audit was skipped
+  geoAnalysis: jsonb("geo_analysis").$type<GeoAnalysis>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -21,6 +46,59 @@ export const insertAuditReportSchema = createInsertSchema(auditReports).omit({
 export type InsertAuditReport = z.infer<typeof insertAuditReportSchema>;
 export type AuditReport = typeof auditReports.$inferSelect;
 
+export const siteCrawlReports = pgTable("site_crawl_reports", {
+  id: serial("id").primaryKey(),
+  seedUrl: text("seed_url").notNull(),
+  settings: jsonb("settings").$type<CrawlSettings>().notNull(),
+  pages: jsonb("pages").$type<CrawledPage[]>().notNull(),
+  skippedPages: jsonb("skipped_pages").$type<SkippedPage[]>().notNull(),
+  seoScore: integer("seo_score").notNull(),
+  aiScore: integer("ai_score").notNull(),
+  commonIssues: jsonb("common_issues").$type<CommonIssue[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSiteCrawlReportSchema = createInsertSchema(siteCrawlReports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertSiteCrawlReport = z.infer<typeof insertSiteCrawlReportSchema>;
+export type SiteCrawlReport = typeof siteCrawlReports.$inferSelect;
+
+// Named request settings for audits (staging sites behind auth, crawler user agents, proxies)
+export const fetchProfiles = pgTable("fetch_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  userAgent: text("user_agent"),
+  acceptLanguage: text("accept_language"),
+  timeoutMs: integer("timeout_ms"),
+  // Only names are stored in the clear; values live in encryptedSecrets
+  headerNames: jsonb("header_names").$type<string[]>().notNull(),
+  cookieNames: jsonb("cookie_names").$type<string[]>().notNull(),
+  basicAuthUsername: text("basic_auth_username"),
+  proxyHost: text("proxy_host"),
+  encryptedSecrets: text("encrypted_secrets"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertFetchProfileSchema = createInsertSchema(fetchProfiles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFetchProfile = z.infer<typeof insertFetchProfileSchema>;
+export type FetchProfile = typeof fetchProfiles.$inferSelect;
+// What the API and reports expose of a profile
+export type FetchProfileSummary = Omit<FetchProfile, 'encryptedSecrets'>;
+
+export interface FetchProfileSecrets {
+  headers: Record<string, string>;
+  cookies: Record<string, string>;
+  basicAuth: { username: string; password: string } | null;
+  proxyUrl: string | null;
+}
+
 // Type definitions for audit results
 export interface TraditionalSeoResult {
   type: 'success' | 'warning' | 'error';
@@ -28,6 +106,8 @@ export interface TraditionalSeoResult {
   description: string;
   details?: string;
   metrics?: Record<string, string | number>;
+  // Stable ID of the rule that produced the result; only set by the SEO and GEO rule engines
+  ruleId?: string;
 }
 
 export interface GeoResult {
@@ -35,8 +115,106 @@ export interface GeoResult {
   title: string;
   description: string;
   details?: string;
+  ruleId?: string;
 }
 
+export type RuleCategory =
+  | 'content'
+  | 'metadata'
+  | 'indexing'
+  | 'images'
+  | 'structured-data'
+  | 'server'
+  | 'links'
+  | 'speed'
+  | 'ai-content'
+  | 'ai-access';
+
+// How much failing a rule matters; failing a critical rule outright also caps the whole score
+export type RuleSeverity = 'critical' | 'major' | 'minor';
+
+// What one rule contributed to a score, and what it was based on
+export interface ScoreContribution {
+  // Rule ID
+  id: string;
+  label: string;
+  earned: number;
+  possible: number;
+  // Matched text, counts and elements the rule looked at
+  evidence: string[];
+}
+
+// How a score was calculated: the score is earned / possible points, unless a failed critical rule capped it
+export interface ScoreBreakdown {
+  score: number;
+  earned: number;
+  possible: number;
+  cappedAt: number | null;
+  // Critical rules that failed outright
+  cappedBy: string[];
+  contributions: ScoreContribution[];
+}
+
+export type ScoringProfileId = 'general' | 'blog' | 'ecommerce' | 'local-business' | 'saas-docs' | 'custom';
+
+// Limits the SEO rules check against; set by the scoring profile
+export interface ScoringThresholds {
+  titleMinLength: number;
+  titleMaxLength: number;
+  metaDescriptionMinLength: number;
+  metaDescriptionMaxLength: number;
+  loadTimeMs: number;
+  ttfbMs: number;
+  htmlBytes: number;
+  imageBytes: number;
+}
+
+export const DEFAULT_SCORING_THRESHOLDS: ScoringThresholds = {
+  titleMinLength: 30,
+  titleMaxLength: 60,
+  metaDescriptionMinLength: 120,
+  metaDescriptionMaxLength: 160,
+  loadTimeMs: 3000,
+  ttfbMs: 800,
+  htmlBytes: 500 * 1024,
+  imageBytes: 300 * 1024,
+};
+
+// Weights, thresholds and exclusions an audit was scored with; stored resolved so old scores can be reproduced
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  name: string;
+  // Rule ID → weight for every rule, with the rule's default weight where the profile does not change it
+  ruleWeights: Record<string, number>;
+  // Rules left out entirely: not evaluated, not reported
+  excludedRules: string[];
+  thresholds: ScoringThresholds;
+}
+
+// Changes a custom profile makes to the preset it starts from
+export interface ScoringOverrides {
+  ruleWeights?: Record<string, number>;
+  excludedRules?: string[];
+  thresholds?: Partial<ScoringThresholds>;
+}
+
+// A rule as offered in the custom profile editor, with its default weight
+export interface ScoringRuleSummary {
+  id: string;
+  name: string;
+  category: RuleCategory;
+  weight: number;
+}
+
+// Presets offered in the audit forms; a custom profile is built from overrides sent with the audit
+export const SCORING_PROFILE_OPTIONS: Array<{ id: Exclude<ScoringProfileId, 'custom'>; name: string; description: string }> = [
+  { id: 'general', name: 'General', description: 'Default weights for any kind of site' },
+  { id: 'blog', name: 'Blog / publisher', description: 'Articles: headlines, freshness, authorship and summaries' },
+  { id: 'ecommerce', name: 'E-commerce', description: 'Product pages: structured data, images and speed' },
+  { id: 'local-business', name: 'Local business', description: 'Small sites: business details and schema over long-form content' },
+  { id: 'saas-docs', name: 'SaaS / docs', description: 'Documentation: structure, links and extractable answers' },
+];
+
 export interface ContentSuggestions {
   missingKeywords: string[];
   blogTitles: Array<{
@@ -48,12 +226,6 @@ export interface ContentSuggestions {
     question: string;
     answer: string;
   }>;
-  aiVisibility: {
-    chatgpt: 'low' | 'medium' | 'high';
-    perplexity: 'low' | 'medium' | 'high';
-    claude: 'low' | 'medium' | 'high';
-    bard: 'low' | 'medium' | 'high';
-  };
   aiImprovements: Array<{
     action: string;
     description: string;
@@ -63,46 +235,653 @@ export interface ContentSuggestions {
 }
 
 export interface WebsiteData {
+  url: string;
   title: string;
   metaDescription: string;
+  // null when auditing HTML that was pasted or uploaded rather than fetched
+  http: HttpResponseDetails | null;
+  // How the bytes were decoded; null for pasted HTML, which arrives as text
+  encoding: EncodingDetails | null;
+  language: LanguageDetails;
+  head: HeadMetadata;
   headings: Array<{
     level: number;
     text: string;
   }>;
-  images: Array<{
-    src: string;
-    alt: string;
-    hasAlt: boolean;
-  }>;
+  images: ImageElement[];
   links: Array<{
     href: string;
     text: string;
     isInternal: boolean;
   }>;
-  content: string;
+  mainContent: string;
+  fullContent: string;
+  mainContentSource: string;
+  boilerplateRatio: number;
+  blocks: ContentBlock[];
+  structureCounts: StructureCounts;
   hasSchema: boolean;
   schemaTypes: string[];
-  loadTime: number;
+  structuredData: StructuredDataReport;
+  loadTime: number | null;
   wordCount: number;
+  fullWordCount: number;
+  robotsTxt: RobotsTxtReport | null;
+  // llms.txt, ai.txt and tdmrep.json; null for pasted HTML, like robotsTxt
+  aiPolicyFiles: AiPolicyFiles | null;
+  // Only present when the optional link check ran
+  linkChecks?: LinkCheckResult[];
+  // Only present when the optional image check ran
+  imageAssets?: ImageAsset[];
+  resources: ResourceInventory;
+  scriptShell: ScriptShellSignals;
+  // Only present when the optional asset measurement ran
+  assetWeights?: AssetWeight[];
+  mobile: MobileMarkup;
+  accessibility: AccessibilityReport;
+  security: SecurityMarkup;
+  // Only present when linked stylesheets were downloaded
+  stylesheets?: StylesheetReport[];
+}
+
+export interface PageResource {
+  type: 'script' | 'stylesheet';
+  url: string;
+  host: string;
+  // Served from a different site than the page (subdomains of the same site are first-party)
+  thirdParty: boolean;
+  inHead: boolean;
+  async: boolean;
+  defer: boolean;
+  module: boolean;
+  media: string;
+  // Classic scripts in <head> without async/defer, and stylesheets in <head> that apply to screens
+  renderBlocking: boolean;
+}
+
+export interface ResourceHint {
+  rel: 'preload' | 'modulepreload' | 'preconnect' | 'dns-prefetch' | 'prefetch';
+  href: string;
+  as: string;
+}
+
+export interface ResourceInventory {
+  resources: PageResource[];
+  hints: ResourceHint[];
+  thirdPartyHosts: string[];
+  inlineScripts: number;
+  inlineScriptBytes: number;
+  inlineStyles: number;
+  inlineStyleBytes: number;
+}
+
+// Signs in the raw HTML that the page is built in the browser, for crawlers that never run scripts
+export interface ScriptShellSignals {
+  // Element a client-side framework mounts into, e.g. "#root" or "app-root"; null when there is none
+  appRoot: string | null;
+  // Words inside the app root before any script runs
+  appRootWords: number;
+  // Scripts that run, external and inline
+  scripts: number;
+  // A <noscript> message asking visitors to enable JavaScript
+  noscriptWarning: boolean;
+}
+
+export interface AssetWeight {
+  url: string;
+  type: PageResource['type'];
+  statusCode: number | null;
+  // Content-Length when the server sends it (compressed size), otherwise the downloaded size
+  bytes: number | null;
+  error?: string;
+}
+
+// Limits the performance estimate checks against; any but the timing limits can be overridden per audit
+export interface PerformanceBudget {
+  renderBlockingResources: number;
+  scripts: number;
+  thirdPartyHosts: number;
+  inlineScriptBytes: number;
+  inlineStyleBytes: number;
+  // Only checked when asset sizes were measured
+  scriptBytes: number;
+  stylesheetBytes: number;
+  pageWeightBytes: number;
+  // Taken from the scoring thresholds, so the budget and the SEO rules judge server timing by the same limits
+  ttfbMs: number;
+  loadTimeMs: number;
+}
+
+export type PerformanceBudgetLimits = Omit<PerformanceBudget, 'ttfbMs' | 'loadTimeMs'>;
+
+export const DEFAULT_PERFORMANCE_BUDGET: PerformanceBudgetLimits = {
+  renderBlockingResources: 3,
+  scripts: 20,
+  thirdPartyHosts: 5,
+  inlineScriptBytes: 50 * 1024,
+  inlineStyleBytes: 50 * 1024,
+  scriptBytes: 400 * 1024,
+  stylesheetBytes: 100 * 1024,
+  pageWeightBytes: 2 * 1024 * 1024,
+};
+
+// A declaration found by the CSS scanner, e.g. { selector: ".container", value: "width: 1200px" }
+export interface CssDeclarationSample {
+  selector: string;
+  value: string;
+}
+
+export interface CssSummary {
+  // Distinct width and orientation conditions of @media rules
+  responsiveMediaQueries: string[];
+  // Widths over a phone screen that no responsive media query overrides (samples are capped, counts are not)
+  fixedWidths: CssDeclarationSample[];
+  fixedWidthCount: number;
+  tinyFonts: CssDeclarationSample[];
+  tinyFontCount: number;
+  // A rule makes iframes, embeds or videos scale with their container
+  fluidEmbeds: boolean;
+  // Selectors of visible, position: fixed rules that cover the whole viewport
+  fixedOverlays: string[];
+}
+
+export interface StylesheetReport {
+  url: string;
+  statusCode: number | null;
+  bytes: number | null;
+  summary: CssSummary | null;
+  error?: string;
+}
+
+export interface EmbedElement {
+  tag: 'iframe' | 'embed' | 'object' | 'applet';
+  src: string;
+  width: string;
+  height: string;
+  // Flash, Java, Silverlight and other content that needs a browser plugin
+  plugin: boolean;
+  // Fluid width on the element itself or an aspect-ratio wrapper around it
+  responsive: boolean;
+}
+
+export interface InterstitialCandidate {
+  // e.g. "div#newsletter-popup.modal"
+  element: string;
+  text: string;
+  // position: fixed in its own style attribute
+  fixedInline: boolean;
+  // An open <dialog> or aria-modal="true"
+  modal: boolean;
+  classes: string[];
+  id: string;
+}
+
+export interface MobileMarkup {
+  // <style> blocks, style attributes and legacy width attributes
+  inlineCss: CssSummary;
+  embeds: EmbedElement[];
+  interstitials: InterstitialCandidate[];
+}
+
+// How often a problem occurs, with a few of the offending elements as markup snippets
+export interface AccessibilityFinding {
+  count: number;
+  samples: string[];
+}
+
+export interface AccessibilityReport {
+  // Number of each landmark region; <header> and <footer> only count outside articles and sections
+  landmarks: Record<'main' | 'navigation' | 'banner' | 'contentinfo' | 'complementary' | 'search', number>;
+  headingSkips: AccessibilityFinding;
+  emptyHeadings: AccessibilityFinding;
+  unlabeledInputs: AccessibilityFinding;
+  unnamedButtons: AccessibilityFinding;
+  unnamedLinks: AccessibilityFinding;
+  duplicateIds: AccessibilityFinding;
+  invalidRoles: AccessibilityFinding;
+  invalidAriaAttributes: AccessibilityFinding;
+  // aria-labelledby, aria-describedby, aria-controls, ... pointing at ids that do not exist
+  brokenAriaReferences: AccessibilityFinding;
+  // aria-hidden="true" on or around elements that can still receive focus
+  hiddenFocusable: AccessibilityFinding;
+  tablesWithoutHeaders: AccessibilityFinding;
+  videosWithoutCaptions: AccessibilityFinding;
+  audioWithoutTranscript: AccessibilityFinding;
+}
+
+// Plain http:// subresources; active ones (scripts, stylesheets, frames) are blocked on https pages, passive ones (images, media) only warned about
+export interface InsecureSubresource {
+  tag: string;
+  url: string;
+  active: boolean;
+}
+
+export interface FormTarget {
+  // Resolved action URL; the page URL when the form has no action
+  action: string;
+  method: string;
+  hasPassword: boolean;
+}
+
+export interface SecurityMarkup {
+  insecureSubresources: InsecureSubresource[];
+  insecureSubresourceCount: number;
+  forms: FormTarget[];
+  // <meta http-equiv="Content-Security-Policy"> and <meta name="referrer"> stand in for the headers
+  metaCsp: string;
+  metaReferrer: string;
+}
+
+export type AltTextIssue = 'missing' | 'filename' | 'generic' | 'redundant_prefix' | 'duplicate' | 'too_long' | 'stuffed';
+
+export interface AltTextImage {
+  src: string;
+  alt: string;
+  issues: AltTextIssue[];
+  // Built from the caption, title, file name or nearest heading; empty when there is nothing to build it from
+  suggestion: string;
+}
+
+export interface AltTextReport {
+  totalImages: number;
+  decorativeImages: number;
+  contentImages: number;
+  // Content images with at least one issue, first ones only
+  flaggedImages: AltTextImage[];
+  flaggedCount: number;
+  issueCounts: Partial<Record<AltTextIssue, number>>;
+}
+
+export interface ImageElement {
+  src: string;
+  alt: string;
+  hasAlt: boolean;
+  // alt="", role="presentation"/"none" or aria-hidden: hidden from screen readers on purpose
+  decorative: boolean;
+  title: string;
+  // <figcaption> of the enclosing <figure> and the closest heading before the image, used to suggest alt text
+  caption: string;
+  heading: string;
+  // src resolved against the page URL
+  url: string;
+  srcset: string;
+  sizes: string;
+  loading: string;
+  fetchPriority: string;
+  // width and height attributes as written; empty when missing
+  width: string;
+  height: string;
+  // <source> elements of the enclosing <picture>
+  sources: Array<{ srcset: string; type: string; media: string }>;
+}
+
+export interface ImageAsset {
+  url: string;
+  // null for data: URIs and failed requests
+  statusCode: number | null;
+  // Full file size from Content-Length or Content-Range; null when the server did not say
+  bytes: number | null;
+  mimeType: string;
+  // Format read from the file's first bytes ("jpeg", "png", "webp", "avif", "svg", ...)
+  format: string | null;
+  // Intrinsic dimensions in pixels
+  width: number | null;
+  height: number | null;
+  error?: string;
+}
+
+export interface EncodingDetails {
+  charset: string;
+  // Where the charset came from, in the order browsers check: byte order mark, Content-Type header, <meta charset>
+  source: 'bom' | 'content-type' | 'meta' | 'default';
+  headerCharset: string | null;
+  metaCharset: string | null;
+  // Characters that could not be decoded (shown as U+FFFD)
+  decodeErrors: number;
+}
+
+export interface LanguageDetails {
+  // ISO 639-1 code detected from the main content, null when there is too little text
+  detected: string | null;
+  script: string | null;
+  confidence: number;
+  // Primary subtag of <html lang>, empty when not declared
+  declared: string;
+  matchesDeclared: boolean | null;
+}
+
+export interface HttpResponseDetails {
+  requestedUrl: string;
+  finalUrl: string;
+  statusCode: number;
+  redirects: RedirectHop[];
+  // Milliseconds from the request until the final response headers arrived, and for reading the body
+  ttfb: number;
+  downloadTime: number;
+  // Decoded HTML size and bytes on the wire (from Content-Length, unknown for chunked responses)
+  htmlBytes: number;
+  transferredBytes: number | null;
+  contentType: string;
+  contentEncoding: string;
+  cacheControl: string;
+  lastModified: string;
+  xRobotsTag: string;
+  xRobots: RobotsDirectives;
+  hsts: string;
+  csp: string;
+  xContentTypeOptions: string;
+  referrerPolicy: string;
+  tdmReservation: string;
+  tdmPolicy: string;
+  // Certificate of the final URL; null for http pages and pages fetched through a proxy
+  tls: TlsCertificateDetails | null;
+  // How the plain http:// version of an https page responds; null when the page itself is http
+  httpVersion: {
+    url: string;
+    statusCode: number | null;
+    redirects: RedirectHop[];
+    finalUrl: string;
+    redirectsToHttps: boolean;
+  } | null;
+}
+
+export interface TlsCertificateDetails {
+  // The chain is trusted and the certificate matches the hostname
+  authorized: boolean;
+  // e.g. CERT_HAS_EXPIRED, ERR_TLS_CERT_ALTNAME_INVALID, or why the connection failed
+  error: string | null;
+  subject: string;
+  issuer: string;
+  validFrom: string | null;
+  validTo: string | null;
+  daysRemaining: number | null;
+  protocol: string | null;
+}
+
+export interface RobotsDirectives {
+  noindex: boolean;
+  nofollow: boolean;
+  noarchive: boolean;
+  nosnippet: boolean;
+  maxSnippet?: number;
+  maxImagePreview?: string;
+}
+
+export interface HeadMetadata {
+  lang: string;
+  charset: string;
+  viewport: string;
+  canonicals: string[];
+  robotsMeta: Array<{
+    name: string;
+    content: string;
+  }>;
+  robots: RobotsDirectives;
+  // <meta name="tdm-reservation"> and <meta name="tdm-policy">
+  tdmReservation: string;
+  tdmPolicy: string;
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+  hreflang: Array<{
+    lang: string;
+    href: string;
+  }>;
+  favicon: string;
+  manifest: string;
+}
+
+export interface ContentBlock {
+  type: 'paragraph' | 'list_item' | 'table' | 'blockquote' | 'code' | 'heading';
+  text: string;
+  level?: number;
+  listType?: 'ordered' | 'unordered' | 'definition';
+  rows?: number;
+  columns?: number;
+  hasHeader?: boolean;
+}
+
+export interface StructureCounts {
+  unorderedLists: number;
+  orderedLists: number;
+  tables: number;
+  definitionLists: number;
+}
+
+export interface RobotsTxtRule {
+  type: 'allow' | 'disallow';
+  path: string;
+}
+
+export interface RobotsTxtGroup {
+  userAgents: string[];
+  rules: RobotsTxtRule[];
+  crawlDelay?: number;
+}
+
+export interface CrawlerAccess {
+  crawler: string;
+  operator: string;
+  purpose: 'search' | 'ai-training' | 'ai-search' | 'ai-assistant';
+  allowed: boolean;
+  matchedGroup: string;
+  matchedRule?: string;
+  crawlDelay?: number;
+}
+
+export interface RobotsTxtReport {
+  url: string;
+  status: 'found' | 'not_found' | 'unreachable';
+  statusCode?: number;
+  sitemaps: string[];
+  groups: RobotsTxtGroup[];
+  crawlers: CrawlerAccess[];
+}
+
+// Site-level files that state how AI systems may use the content; HTML error pages served with 200 count as not found
+export interface PolicyFileStatus {
+  url: string;
+  status: 'found' | 'not_found' | 'unreachable';
+  statusCode?: number;
+}
+
+// llms.txt (llmstxt.org): an H1 title, a > summary, then H2 sections that list [name](url): notes links
+export interface LlmsTxtReport extends PolicyFileStatus {
+  bytes: number;
+  title: string;
+  summary: string;
+  sections: Array<{
+    title: string;
+    links: number;
+  }>;
+  linkCount: number;
+  // Where the file departs from the format
+  problems: string[];
+}
+
+// ai.txt (Spawning): robots.txt syntax, with paths and file patterns that may not be used for AI training
+export interface AiTxtReport extends PolicyFileStatus {
+  disallowed: string[];
+  allowed: string[];
+}
+
+// TDMRep (W3C community group): tdm-reservation 1 reserves text and data mining rights, 0 waives the reservation
+export interface TdmRepEntry {
+  location: string;
+  reservation: 0 | 1;
+  policy: string;
+}
+
+export interface TdmRepReport extends PolicyFileStatus {
+  entries: TdmRepEntry[];
+  error?: string;
+}
+
+export interface AiPolicyFiles {
+  llmsTxt: LlmsTxtReport;
+  llmsFullTxt: LlmsTxtReport;
+  aiTxt: AiTxtReport;
+  tdmRep: TdmRepReport;
+}
+
+// 'unset' means the source says nothing; 'partial' covers some crawlers, paths or media types only
+export type AiPolicyStance = 'allow' | 'restrict' | 'partial' | 'unset';
+
+export interface AiPolicySignal {
+  source: string;
+  // Model training, or fetching pages to answer and cite in AI search and assistants
+  scope: 'training' | 'answers';
+  stance: AiPolicyStance;
+  detail: string;
+}
+
+// Every AI usage signal of the page and site read together
+export interface AiAccessPolicy {
+  training: AiPolicyStance | 'mixed';
+  answers: AiPolicyStance | 'mixed';
+  summary: string;
+  signals: AiPolicySignal[];
+  conflicts: string[];
+}
+
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  location: string;
+}
+
+export interface LinkCheckResult {
+  url: string;
+  href: string;
+  text: string;
+  isInternal: boolean;
+  // null when the request failed before any response (timeout, DNS, TLS, ...)
+  statusCode: number | null;
+  redirects: RedirectHop[];
+  finalUrl: string;
+  method: 'HEAD' | 'GET';
+  error?: string;
+}
+
+// A property value is a literal or a reference to another entity by its index in the graph
+export type SchemaValue = string | number | boolean | { entity: number };
+
+export interface SchemaEntity {
+  id?: string;
+  types: string[];
+  syntax: 'json-ld' | 'microdata' | 'rdfa';
+  // Location in the source, e.g. "jsonld[0].@graph[2].author" or "microdata[1]"
+  path: string;
+  topLevel: boolean;
+  properties: Record<string, SchemaValue[]>;
+}
+
+export interface SchemaIssue {
+  severity: 'error' | 'warning';
+  type: string;
+  path: string;
+  message: string;
+}
+
+export interface StructuredDataReport {
+  entities: SchemaEntity[];
+  issues: SchemaIssue[];
+  // JSON-LD scripts that could not be parsed
+  parseErrors: Array<{
+    path: string;
+    message: string;
+  }>;
+  // Entities of a type with validation rules, and how many of them have no errors
+  validatedEntities: number;
+  validEntities: number;
+}
+
+export interface CrawlSettings {
+  maxDepth: number;
+  maxPages: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  respectRobotsTxt: boolean;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  reportId: number;
+  seoScore: number;
+  aiScore: number;
+}
+
+export interface SkippedPage {
+  url: string;
+  reason: 'robots' | 'excluded' | 'not_included' | 'limit' | 'error';
+  details?: string;
+}
+
+export interface CommonIssue {
+  category: 'seo' | 'ai';
+  type: 'warning' | 'error';
+  title: string;
+  ruleId?: string;
+  pageCount: number;
+  exampleUrls: string[];
+}
+
+export interface SiteCrawlResult extends SiteCrawlReport {
+  pageReports: AuditReport[];
 }
 
 export interface ComparisonRequest {
   url1: string;
   url2: string;
+  fetchProfileId1?: number;
+  fetchProfileId2?: number;
   includeTraditionalSeo: boolean;
   includeGeo: boolean;
+  includeAccessibility: boolean;
   includeContentSuggestions: boolean;
 }
 
-export interface AiPlatformVisibility {
-  overallScore: number;
+export interface GeoFactor {
+  // Rule ID of the factor
+  id: string;
+  factor: string;
+  score: number;
+  // Points the factor is worth in aiScore under the scoring profile; 0 when it is only reported
+  weight: number;
+  description: string;
+  status: 'pass' | 'warning' | 'fail';
+}
+
+export type AiPlatformId = 'chatgpt-search' | 'perplexity' | 'claude' | 'gemini' | 'copilot';
+
+// One input of a platform score: a GEO factor, or the platform's crawler access or JavaScript needs
+export interface PlatformFactor {
+  // GEO factor rule ID, 'access' or 'rendering'
+  id: string;
+  label: string;
+  score: number;
+  // Share of the platform score, in points out of 100
+  weight: number;
+}
+
+// Likely visibility on one AI platform: the GEO factors weighted by what that platform favors
+export interface PlatformVisibility {
+  platform: AiPlatformId;
+  name: string;
+  score: number;
+  // Strongest first: crawler access, JavaScript, freshness, then the citation style
+  reasons: string[];
+  factors: PlatformFactor[];
+  // Factors below 70 that cost the most points, worst first
+  weakFactors: PlatformFactor[];
+}
+
+// The GEO model: factors scored from 0 to 100, their weighted score (aiScore) and what to fix first
+export interface GeoAnalysis {
+  score: number;
   summary: string;
-  factors: Array<{
-    factor: string;
-    score: number;
-    description: string;
-    status: 'pass' | 'warning' | 'fail';
-  }>;
+  factors: GeoFactor[];
+  platforms: PlatformVisibility[];
   recommendations: Array<{
     priority: 'high' | 'medium' | 'low';
     action: string;
@@ -114,12 +893,9 @@ export interface AiPlatformVisibility {
 export interface ComparisonResult {
   url1Report: AuditReport;
   url2Report: AuditReport;
-  url1AiVisibility: AiPlatformVisibility;
-  url2AiVisibility: AiPlatformVisibility;
   differences: {
     seoScoreDiff: number;
     aiScoreDiff: number;
-    aiVisibilityDiff: number;
     betterPerformer: string;
     keyDifferences: Array<{
       category: 'seo' | 'ai' | 'content' | 'visibility';